@@ -0,0 +1,4 @@
+-- Revert 003: drop the tags column (and its index)
+
+DROP INDEX IF EXISTS idx_tasks_tags;
+ALTER TABLE tasks DROP COLUMN IF EXISTS tags;
@@ -0,0 +1,4 @@
+-- Revert 004: drop the subtasks column (and its index)
+
+DROP INDEX IF EXISTS idx_tasks_subtasks;
+ALTER TABLE tasks DROP COLUMN IF EXISTS subtasks;
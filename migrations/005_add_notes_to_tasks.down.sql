@@ -0,0 +1,4 @@
+-- Revert 005: drop the notes column (and its index)
+
+DROP INDEX IF EXISTS idx_tasks_notes;
+ALTER TABLE tasks DROP COLUMN IF EXISTS notes;
@@ -0,0 +1,4 @@
+-- Revert 006: drop the recurrence column (and its index)
+
+DROP INDEX IF EXISTS idx_tasks_recurrence;
+ALTER TABLE tasks DROP COLUMN IF EXISTS recurrence;
@@ -0,0 +1,6 @@
+-- Revert 008: unlink recurring instances from their series
+
+DROP INDEX IF EXISTS idx_tasks_recurrence_parent_id;
+DROP INDEX IF EXISTS idx_tasks_series_id;
+ALTER TABLE tasks DROP COLUMN IF EXISTS recurrence_parent_id;
+ALTER TABLE tasks DROP COLUMN IF EXISTS series_id;
@@ -0,0 +1,12 @@
+-- Link generated recurring task instances back to their series
+-- series_id is the id of the first task in the series (NULL on the first task itself)
+-- recurrence_parent_id is the instance the task was generated from
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS series_id UUID DEFAULT NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES tasks(id) ON DELETE SET NULL;
+
+-- Index for per-series history queries
+CREATE INDEX IF NOT EXISTS idx_tasks_series_id ON tasks(series_id) WHERE series_id IS NOT NULL;
+
+-- Each instance generates at most one successor, which keeps instance creation idempotent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_parent_id ON tasks(recurrence_parent_id) WHERE recurrence_parent_id IS NOT NULL;
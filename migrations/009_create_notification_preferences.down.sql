@@ -0,0 +1,3 @@
+-- Revert 009: drop the notification preferences table (its trigger goes with it)
+
+DROP TABLE IF EXISTS notification_preferences;
@@ -0,0 +1,19 @@
+-- Migration: Create notification preferences table
+-- Description: Per-user email notification settings (one row per user, created on first update)
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id VARCHAR(255) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  email_due_date_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  email_daily_summary BOOLEAN NOT NULL DEFAULT TRUE,
+  email_streak_alerts BOOLEAN NOT NULL DEFAULT TRUE,
+  email_weekly_report BOOLEAN NOT NULL DEFAULT TRUE,
+  email_task_suggestions BOOLEAN NOT NULL DEFAULT TRUE,
+  reminder_hours_before INTEGER NOT NULL DEFAULT 24 CHECK (reminder_hours_before BETWEEN 1 AND 72),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE notification_preferences IS 'Per-user email notification preferences';
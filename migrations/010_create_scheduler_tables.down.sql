@@ -0,0 +1,4 @@
+-- Revert 010: drop the scheduler bookkeeping tables
+
+DROP TABLE IF EXISTS notification_deliveries;
+DROP TABLE IF EXISTS scheduled_job_runs;
@@ -0,0 +1,30 @@
+-- Migration: Create scheduler bookkeeping tables
+-- Description: Job run tracking and notification delivery claims so restarts never double-send
+
+-- One row per scheduled job; last_started_at doubles as a lock across restarts and instances
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+  job_name VARCHAR(100) PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  last_started_at TIMESTAMP NOT NULL,
+  last_finished_at TIMESTAMP,
+  last_error TEXT
+);
+
+-- A row is claimed before an email is sent; the unique key makes each notification send at most once
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  dedupe_key VARCHAR(255) NOT NULL,
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'skipped')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  sent_at TIMESTAMP,
+  UNIQUE(user_id, type, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_task_id ON notification_deliveries(task_id) WHERE task_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_type ON notification_deliveries(user_id, type, created_at DESC);
+
+COMMENT ON TABLE scheduled_job_runs IS 'Last run of each in-process scheduled job';
+COMMENT ON TABLE notification_deliveries IS 'Scheduled notifications that have been claimed or sent';
@@ -0,0 +1,3 @@
+-- Revert 011: drop the mail outbox
+
+DROP TABLE IF EXISTS mail_outbox;
@@ -0,0 +1,22 @@
+-- Migration: Create mail outbox table
+-- Description: Audit record of every email the API sent or failed to send
+
+CREATE TABLE IF NOT EXISTS mail_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_address VARCHAR(255) NOT NULL,
+  from_address VARCHAR(255) NOT NULL,
+  subject TEXT NOT NULL,
+  category VARCHAR(100),
+  transport VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  provider_message_id VARCHAR(255),
+  error TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mail_outbox_to_address ON mail_outbox(to_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mail_outbox_status ON mail_outbox(status, created_at DESC);
+
+COMMENT ON TABLE mail_outbox IS 'Delivery log of outgoing email';
@@ -0,0 +1,3 @@
+-- Revert 012: drop the users.locale column
+
+ALTER TABLE users DROP COLUMN IF EXISTS locale;
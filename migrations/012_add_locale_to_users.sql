@@ -0,0 +1,4 @@
+-- Add locale column to users table
+-- BCP 47 language tag used to format dates and numbers in emails (e.g. "en-US", "de-DE")
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locale VARCHAR(35) DEFAULT 'en-US';
@@ -0,0 +1,14 @@
+-- Revert 013: drop the invite lifecycle columns; declined invites become cancelled,
+-- which the original status check allows
+
+DROP INDEX IF EXISTS idx_team_invites_pending_expiry;
+DROP INDEX IF EXISTS idx_team_invites_pending_email;
+
+ALTER TABLE team_invites DROP COLUMN IF EXISTS send_count;
+ALTER TABLE team_invites DROP COLUMN IF EXISTS last_sent_at;
+ALTER TABLE team_invites DROP COLUMN IF EXISTS responded_at;
+
+UPDATE team_invites SET status = 'cancelled' WHERE status = 'declined';
+ALTER TABLE team_invites DROP CONSTRAINT IF EXISTS team_invites_status_check;
+ALTER TABLE team_invites ADD CONSTRAINT team_invites_status_check
+  CHECK (status IN ('pending', 'accepted', 'expired', 'cancelled'));
@@ -0,0 +1,14 @@
+-- Migration: Extend team invites for the full invitation lifecycle
+-- Description: Allow declined invites and track when an invite was responded to or last emailed
+
+ALTER TABLE team_invites DROP CONSTRAINT IF EXISTS team_invites_status_check;
+ALTER TABLE team_invites ADD CONSTRAINT team_invites_status_check
+  CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled'));
+
+ALTER TABLE team_invites ADD COLUMN IF NOT EXISTS responded_at TIMESTAMP;
+ALTER TABLE team_invites ADD COLUMN IF NOT EXISTS last_sent_at TIMESTAMP;
+ALTER TABLE team_invites ADD COLUMN IF NOT EXISTS send_count INTEGER NOT NULL DEFAULT 0;
+
+-- Pending invites are looked up by invitee email and expired by date
+CREATE INDEX IF NOT EXISTS idx_team_invites_pending_email ON team_invites(LOWER(email)) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_team_invites_pending_expiry ON team_invites(expires_at) WHERE status = 'pending';
@@ -0,0 +1,8 @@
+-- Revert 014: drop task assignment columns and the assignment email preference
+
+ALTER TABLE notification_preferences DROP COLUMN IF EXISTS email_task_assignments;
+
+DROP INDEX IF EXISTS idx_tasks_assignee_id;
+ALTER TABLE tasks DROP COLUMN IF EXISTS assigned_at;
+ALTER TABLE tasks DROP COLUMN IF EXISTS assigned_by;
+ALTER TABLE tasks DROP COLUMN IF EXISTS assignee_id;
@@ -0,0 +1,10 @@
+-- Migration: Add task assignment
+-- Description: Tasks in shared projects can be assigned to a team member other than their creator
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assignee_id VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assigned_by VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_id ON tasks(assignee_id) WHERE assignee_id IS NOT NULL;
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS email_task_assignments BOOLEAN NOT NULL DEFAULT TRUE;
@@ -0,0 +1,11 @@
+-- Revert 015: drop task review columns and the approval email preference
+-- Tasks still awaiting approval or rejected go back to pending
+
+ALTER TABLE notification_preferences DROP COLUMN IF EXISTS email_task_approvals;
+
+UPDATE tasks SET status = 'pending' WHERE status IN ('awaiting_approval', 'rejected');
+
+DROP INDEX IF EXISTS idx_tasks_awaiting_approval;
+ALTER TABLE tasks DROP COLUMN IF EXISTS rejection_reason;
+ALTER TABLE tasks DROP COLUMN IF EXISTS reviewed_at;
+ALTER TABLE tasks DROP COLUMN IF EXISTS reviewed_by;
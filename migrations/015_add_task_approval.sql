@@ -0,0 +1,11 @@
+-- Migration: Add task approval workflow
+-- Description: Member-created tasks in teams that require approval start as 'awaiting_approval'
+-- and move to 'pending' when approved or 'rejected' (with a reason) when turned down
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_awaiting_approval ON tasks(project_id, created_at) WHERE status = 'awaiting_approval';
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS email_task_approvals BOOLEAN NOT NULL DEFAULT TRUE;
@@ -0,0 +1,3 @@
+-- Revert 017: drop the data exports table (archives on disk are left to the cleanup job's directory)
+
+DROP TABLE IF EXISTS data_exports;
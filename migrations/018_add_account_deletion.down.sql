@@ -0,0 +1,11 @@
+-- Revert 018: drop deletion requests and the purge audit; teams cascade with their owner again
+
+DROP TABLE IF EXISTS account_deletion_audit;
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_owner_id_fkey;
+ALTER TABLE teams ADD CONSTRAINT teams_owner_id_fkey
+  FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE;
+
+DROP INDEX IF EXISTS idx_users_deletion_scheduled_for;
+ALTER TABLE users DROP COLUMN IF EXISTS deletion_scheduled_for;
+ALTER TABLE users DROP COLUMN IF EXISTS deletion_requested_at;
@@ -0,0 +1,27 @@
+-- Migration: Add account deletion requests and purge audit
+-- Description: Deletion is requested, then purged after a grace period unless cancelled.
+-- Team ownership must move before an owner is deleted, so teams no longer cascade with their owner.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deletion_requested_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deletion_scheduled_for TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_users_deletion_scheduled_for ON users(deletion_scheduled_for)
+  WHERE deletion_scheduled_for IS NOT NULL;
+
+ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_owner_id_fkey;
+ALTER TABLE teams ADD CONSTRAINT teams_owner_id_fkey
+  FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE RESTRICT;
+
+-- Outlives the user row on purpose: no foreign key, and only a hash of the email
+CREATE TABLE IF NOT EXISTS account_deletion_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL,
+  email_hash VARCHAR(64) NOT NULL,
+  requested_at TIMESTAMP,
+  purged_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  teams_transferred JSONB NOT NULL DEFAULT '[]'::jsonb,
+  teams_deleted JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rows_deleted JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_audit_user_id ON account_deletion_audit(user_id);
@@ -0,0 +1,5 @@
+-- Revert 019: drop the full-text search indexes
+
+DROP INDEX IF EXISTS idx_energy_logs_search;
+DROP INDEX IF EXISTS idx_projects_search;
+DROP INDEX IF EXISTS idx_tasks_search;
@@ -0,0 +1,21 @@
+-- Migration: Add full-text search indexes
+-- Description: GIN expression indexes behind GET /api/search. The expressions must match
+-- the documents built in src/services/search.service.ts exactly or the indexes go unused.
+-- Tasks weight their title (A), description and tag labels (B), and subtask and note text (C).
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING gin((
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(tags, '[]'::jsonb), '$[*].label')), 'B') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(subtasks, '[]'::jsonb), '$[*].text')), 'C') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(notes, '[]'::jsonb), '$[*].text')), 'C')
+));
+
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects USING gin((
+  setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_energy_logs_search ON energy_logs USING gin((
+  to_tsvector('english', COALESCE(notes, ''))
+));
@@ -0,0 +1,3 @@
+-- Revert 020: drop the tag catalog (task tag copies are left as they are)
+
+DROP TABLE IF EXISTS tags;
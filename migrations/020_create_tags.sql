@@ -0,0 +1,53 @@
+-- Migration: Create tag catalog
+-- Description: One catalog of tags per user. Tasks keep a copy of each tag ({id, label, color}) in
+-- their tags column; renames, recolors and merges are written through to those copies.
+
+CREATE TABLE IF NOT EXISTS tags (
+  -- Text rather than UUID so ids already used in task tags carry over unchanged
+  id VARCHAR(255) NOT NULL DEFAULT gen_random_uuid()::text,
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  label VARCHAR(50) NOT NULL,
+  color VARCHAR(50) NOT NULL DEFAULT '#6366f1',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (user_id, id),
+  CONSTRAINT tags_label_not_empty CHECK (char_length(btrim(label)) > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_user_label ON tags(user_id, LOWER(label));
+
+-- Seed each user's catalog from their tasks; tags sharing a label (ignoring case) collapse into the
+-- most recently used one
+INSERT INTO tags (user_id, id, label, color)
+SELECT DISTINCT ON (t.user_id, LOWER(btrim(tag->>'label')))
+  t.user_id, tag->>'id', LEFT(btrim(tag->>'label'), 50), COALESCE(NULLIF(tag->>'color', ''), '#6366f1')
+FROM tasks t
+CROSS JOIN LATERAL jsonb_array_elements(t.tags) tag
+WHERE jsonb_typeof(t.tags) = 'array'
+  AND jsonb_typeof(tag) = 'object'
+  AND COALESCE(tag->>'id', '') <> ''
+  AND COALESCE(btrim(tag->>'label'), '') <> ''
+ORDER BY t.user_id, LOWER(btrim(tag->>'label')), t.updated_at DESC
+ON CONFLICT DO NOTHING;
+
+-- Point every task tag at its catalog entry (by id, else by label) and drop duplicates
+UPDATE tasks t
+SET tags = COALESCE((
+  SELECT jsonb_agg(jsonb_build_object('id', c.id, 'label', c.label, 'color', c.color) ORDER BY first_pos)
+  FROM (
+    SELECT matched.id, MIN(e.pos) as first_pos
+    FROM jsonb_array_elements(t.tags) WITH ORDINALITY e(tag, pos)
+    CROSS JOIN LATERAL (
+      SELECT c.id FROM tags c
+      WHERE c.user_id = t.user_id
+        AND (c.id = e.tag->>'id' OR LOWER(c.label) = LOWER(btrim(e.tag->>'label')))
+      ORDER BY (c.id = e.tag->>'id') DESC
+      LIMIT 1
+    ) matched
+    GROUP BY matched.id
+  ) resolved
+  JOIN tags c ON c.user_id = t.user_id AND c.id = resolved.id
+), '[]'::jsonb)
+WHERE jsonb_typeof(t.tags) = 'array' AND jsonb_array_length(t.tags) > 0;
+
+COMMENT ON TABLE tags IS 'Per-user tag catalog; tasks.tags holds copies of these entries';
@@ -0,0 +1,4 @@
+-- Revert 021: drop subtask progress and parent auto-completion
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS complete_with_subtasks;
+ALTER TABLE tasks DROP COLUMN IF EXISTS progress;
@@ -0,0 +1,13 @@
+-- Migration: Add subtask progress and parent auto-completion
+-- Description: progress is the share of completed subtasks (0-100, NULL without subtasks), kept
+-- current by Postgres. complete_with_subtasks completes the task when its last subtask is ticked.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS progress SMALLINT GENERATED ALWAYS AS (
+  CASE
+    WHEN jsonb_typeof(subtasks) = 'array' AND jsonb_array_length(subtasks) > 0
+    THEN (100 * jsonb_array_length(jsonb_path_query_array(subtasks, '$[*] ? (@.completed == true)'))
+          / jsonb_array_length(subtasks))::smallint
+  END
+) STORED;
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS complete_with_subtasks BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,29 @@
+-- Revert 022: fold live comments back into tasks.notes and drop the comment tables
+-- Authors, edit history and deleted comments are lost
+
+ALTER TABLE notification_preferences DROP COLUMN IF EXISTS email_mentions;
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS notes JSONB DEFAULT '[]'::jsonb;
+
+UPDATE tasks t
+SET notes = c.notes
+FROM (
+  SELECT task_id,
+    jsonb_agg(jsonb_build_object('id', id, 'text', body, 'created_at', created_at) ORDER BY created_at, id) as notes
+  FROM task_comments
+  WHERE deleted_at IS NULL
+  GROUP BY task_id
+) c
+WHERE c.task_id = t.id;
+
+DROP INDEX IF EXISTS idx_tasks_search;
+CREATE INDEX idx_tasks_search ON tasks USING gin((
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(tags, '[]'::jsonb), '$[*].label')), 'B') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(subtasks, '[]'::jsonb), '$[*].text')), 'C') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(notes, '[]'::jsonb), '$[*].text')), 'C')
+));
+
+DROP TABLE IF EXISTS task_comment_revisions;
+DROP TABLE IF EXISTS task_comments;
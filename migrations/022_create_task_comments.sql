@@ -0,0 +1,61 @@
+-- Migration: Replace task notes with comment threads
+-- Description: Comments have an author, markdown body, stored @mentions, edit history and soft delete.
+-- Existing notes become comments by the task's owner, then tasks.notes is dropped (which also drops
+-- the search index built on it, so it is recreated without notes).
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  author_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  mentions VARCHAR(255)[] NOT NULL DEFAULT '{}', -- Users mentioned who could read the task
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  edited_at TIMESTAMP,
+  deleted_at TIMESTAMP,
+  deleted_by VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT task_comments_body_not_empty CHECK (char_length(btrim(body)) > 0)
+);
+
+-- Previous bodies, one row per edit
+CREATE TABLE IF NOT EXISTS task_comment_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES task_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL, -- When this version was written
+  replaced_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_created ON task_comments(task_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_author_id ON task_comments(author_id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_search ON task_comments USING gin((to_tsvector('english', body)))
+  WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_task_comment_revisions_comment_id ON task_comment_revisions(comment_id, replaced_at);
+
+INSERT INTO task_comments (task_id, author_id, body, created_at)
+SELECT t.id, t.user_id, note->>'text',
+  COALESCE(
+    CASE WHEN note->>'created_at' ~ '^\d{4}-\d{2}-\d{2}' THEN (note->>'created_at')::timestamptz::timestamp END,
+    t.created_at,
+    NOW()
+  )
+FROM tasks t
+CROSS JOIN LATERAL jsonb_array_elements(t.notes) note
+WHERE jsonb_typeof(t.notes) = 'array'
+  AND jsonb_typeof(note) = 'object'
+  AND COALESCE(btrim(note->>'text'), '') <> '';
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS notes;
+
+-- Same as 019 minus the notes; must match TASK_DOCUMENT in src/services/search.service.ts
+DROP INDEX IF EXISTS idx_tasks_search;
+CREATE INDEX idx_tasks_search ON tasks USING gin((
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(tags, '[]'::jsonb), '$[*].label')), 'B') ||
+  setweight(to_tsvector('english', jsonb_path_query_array(COALESCE(subtasks, '[]'::jsonb), '$[*].text')), 'C')
+));
+
+-- Comment mentions are emailed unless switched off
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS email_mentions BOOLEAN NOT NULL DEFAULT TRUE;
+
+COMMENT ON TABLE task_comments IS 'Comment threads on tasks; deleted comments keep their row';
@@ -0,0 +1,3 @@
+-- Revert 023: drop the task activity log
+
+DROP TABLE IF EXISTS task_activity;
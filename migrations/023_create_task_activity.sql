@@ -0,0 +1,31 @@
+-- Migration: Create task activity log
+-- Description: One row per change to a task: who did it, what happened and, for edits, each field's
+-- old and new value. Rows keep a snapshot of the task's title, owner, assignee and project, and have no
+-- foreign key to tasks, so the history of a deleted task survives it.
+
+CREATE TABLE IF NOT EXISTS task_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL,
+  task_title TEXT NOT NULL,
+  owner_id VARCHAR(255) NOT NULL,
+  assignee_id VARCHAR(255),
+  project_id UUID,
+  actor_id VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL, -- NULL for system changes (recurrence)
+  action VARCHAR(30) NOT NULL CHECK (action IN (
+    'created', 'updated', 'status_changed', 'assigned', 'completed',
+    'dependency_added', 'dependency_removed', 'deleted'
+  )),
+  changes JSONB NOT NULL DEFAULT '{}', -- { field: { from, to } }
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_activity_task ON task_activity(task_id, created_at DESC, id);
+CREATE INDEX IF NOT EXISTS idx_task_activity_owner ON task_activity(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_activity_assignee ON task_activity(assignee_id, created_at DESC)
+  WHERE assignee_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_task_activity_actor ON task_activity(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_activity_project ON task_activity(project_id, created_at DESC)
+  WHERE project_id IS NOT NULL;
+
+COMMENT ON TABLE task_activity IS 'Audit trail of task changes; outlives the tasks it describes';
@@ -0,0 +1,21 @@
+-- Revert 024: remove everything still in the trash, then the soft delete columns
+
+DELETE FROM task_activity WHERE action = 'restored';
+ALTER TABLE task_activity DROP CONSTRAINT IF EXISTS task_activity_action_check;
+ALTER TABLE task_activity ADD CONSTRAINT task_activity_action_check CHECK (action IN (
+  'created', 'updated', 'status_changed', 'assigned', 'completed',
+  'dependency_added', 'dependency_removed', 'deleted'
+));
+
+DELETE FROM tasks WHERE deleted_at IS NOT NULL;
+DELETE FROM projects WHERE deleted_at IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_projects_deleted_at;
+DROP INDEX IF EXISTS idx_tasks_deleted_at;
+
+ALTER TABLE projects DROP COLUMN IF EXISTS deleted_by;
+ALTER TABLE projects DROP COLUMN IF EXISTS deleted_at;
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS deleted_with_project;
+ALTER TABLE tasks DROP COLUMN IF EXISTS deleted_by;
+ALTER TABLE tasks DROP COLUMN IF EXISTS deleted_at;
@@ -0,0 +1,22 @@
+-- Migration: Soft delete tasks and projects
+-- Description: Deleting a task or project moves it to the trash instead of removing the row, so
+-- dependencies, comments and activity stay attached and a restore brings everything back.
+-- Trashing a project also trashes its live tasks (deleted_with_project); restoring it brings those back.
+-- Trashed rows are removed for good once they are older than TRASH_RETENTION_DAYS.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_with_project BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Restores are part of a task's history
+ALTER TABLE task_activity DROP CONSTRAINT IF EXISTS task_activity_action_check;
+ALTER TABLE task_activity ADD CONSTRAINT task_activity_action_check CHECK (action IN (
+  'created', 'updated', 'status_changed', 'assigned', 'completed',
+  'dependency_added', 'dependency_removed', 'deleted', 'restored'
+));
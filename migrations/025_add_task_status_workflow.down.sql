@@ -0,0 +1,11 @@
+-- Revert 025: drop the transition log and status check; tasks outside pending/completed go back to pending
+
+DROP TRIGGER IF EXISTS record_tasks_status_transition ON tasks;
+DROP FUNCTION IF EXISTS record_task_status_transition();
+DROP TABLE IF EXISTS task_status_transitions;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+UPDATE tasks SET status = 'pending' WHERE status IN ('backlog', 'in_progress', 'blocked', 'cancelled');
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS points_awarded;
+ALTER TABLE tasks DROP COLUMN IF EXISTS started_at;
@@ -0,0 +1,59 @@
+-- Migration: Task status workflow
+-- Description: Tasks move through backlog, pending, in_progress, blocked, completed and cancelled
+-- (plus awaiting_approval and rejected for team tasks under review); the allowed moves are enforced
+-- in the application. Every status change is timestamped in task_status_transitions by a trigger, so
+-- time spent in each status and cycle time can be computed whichever code path made the change.
+-- points_awarded keeps what a completion earned (bonus included) so reopening can take it back.
+
+UPDATE tasks SET status = 'pending'
+WHERE status NOT IN ('backlog', 'pending', 'in_progress', 'blocked', 'completed', 'cancelled', 'awaiting_approval', 'rejected');
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_status_check CHECK (status IN (
+  'backlog', 'pending', 'in_progress', 'blocked', 'completed', 'cancelled', 'awaiting_approval', 'rejected'
+));
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS started_at TIMESTAMP; -- First move to in_progress
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS points_awarded INTEGER; -- NULL unless completed
+
+UPDATE tasks SET points_awarded = points WHERE status = 'completed' AND points_awarded IS NULL;
+
+CREATE TABLE IF NOT EXISTS task_status_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  from_status VARCHAR(50), -- NULL when the task was created
+  to_status VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_status_transitions_task ON task_status_transitions(task_id, created_at, id);
+
+-- Existing tasks get the history we can reconstruct: creation, and completion where it happened
+INSERT INTO task_status_transitions (task_id, from_status, to_status, created_at)
+SELECT id, NULL, CASE WHEN status = 'completed' THEN 'pending' ELSE status END, created_at
+FROM tasks
+WHERE NOT EXISTS (SELECT 1 FROM task_status_transitions tr WHERE tr.task_id = tasks.id);
+
+INSERT INTO task_status_transitions (task_id, from_status, to_status, created_at)
+SELECT id, 'pending', 'completed', COALESCE(completed_at, updated_at)
+FROM tasks
+WHERE status = 'completed'
+  AND NOT EXISTS (SELECT 1 FROM task_status_transitions tr WHERE tr.task_id = tasks.id AND tr.to_status = 'completed');
+
+CREATE OR REPLACE FUNCTION record_task_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO task_status_transitions (task_id, from_status, to_status) VALUES (NEW.id, NULL, NEW.status);
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO task_status_transitions (task_id, from_status, to_status) VALUES (NEW.id, OLD.status, NEW.status);
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS record_tasks_status_transition ON tasks;
+CREATE TRIGGER record_tasks_status_transition AFTER INSERT OR UPDATE OF status ON tasks
+    FOR EACH ROW EXECUTE FUNCTION record_task_status_transition();
+
+COMMENT ON TABLE task_status_transitions IS 'When each task entered each status; written by trigger';
@@ -1,3 +1,7 @@
+-- Superseded: this shared version 002 with 002_add_auth0_id.sql and targets a users.user_id
+-- column the schema never had. users.id became VARCHAR(255) outside of tracked migrations.
+-- Kept for reference only; the migration runner does not read this directory.
+
 -- Migration to change user_id from UUID to TEXT to support Auth0 IDs
 
 -- Drop foreign key constraints first
@@ -1,23 +1,105 @@
-import { testConnection, runMigrations } from '../src/utils/database';
+import { testConnection } from '../src/utils/database';
+import { Migrator, MigrationError } from '../src/services/migrator';
+
+const USAGE = `Usage: npm run migrate -- <command> [options]
+
+Commands:
+  status                 Show applied, pending, modified and conflicting migrations
+  up [--to N]            Apply pending migrations (up to version N)
+  down [--steps N]       Revert the last N applied migrations (default 1)
+  baseline --to N        Record migrations up to N as applied without running them
+
+Options:
+  --dry-run              Print what would run without touching the database`;
+
+function option(args: string[], name: string): number | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const value = parseInt(args[index + 1], 10);
+  if (Number.isNaN(value)) {
+    throw new MigrationError(`${name} needs a number`);
+  }
+  return value;
+}
+
+const pad = (version: number) => String(version).padStart(3, '0');
+
+async function printStatus(migrator: Migrator) {
+  const status = await migrator.status();
+
+  for (const migration of status.applied) {
+    const flag = migration.modified ? '  MODIFIED since applied' : '';
+    console.log(`  ✅ ${pad(migration.version)}_${migration.name}  (${new Date(migration.applied_at).toISOString()})${flag}`);
+  }
+  for (const migration of status.pending) {
+    console.log(`  ⏳ ${migration.filename}  pending`);
+  }
+  for (const migration of status.missing) {
+    console.log(`  ❓ ${pad(migration.version)}_${migration.name}  applied, but the file is missing`);
+  }
+  for (const conflict of status.conflicts) {
+    console.log(`  ⚠️  version ${pad(conflict.version)} is used by ${conflict.filenames.join(', ')}`);
+  }
+
+  console.log(`\n${status.applied.length} applied, ${status.pending.length} pending`);
+}
 
 async function migrate() {
+  const [command = 'status', ...args] = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+
   console.log('🗄️  SyncScript Database Migration');
   console.log('================================\n');
-  
+
+  if (!['status', 'up', 'down', 'baseline'].includes(command)) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
   // Test connection
   const connected = await testConnection();
   if (!connected) {
     console.error('❌ Cannot connect to database. Please check your DATABASE_URL.');
     process.exit(1);
   }
-  
-  // Run migrations
+
+  const migrator = new Migrator({ log: message => console.log(`  ${message}`) });
+
   try {
-    await runMigrations();
-    console.log('\n✅ Database is ready!');
+    switch (command) {
+      case 'status':
+        await printStatus(migrator);
+        break;
+      case 'up': {
+        const results = await migrator.up({ to: option(args, '--to'), dryRun });
+        console.log(results.length ? `\n✅ ${results.length} migration(s) ${dryRun ? 'would be applied' : 'applied'}` : '✅ Database is up to date');
+        break;
+      }
+      case 'down': {
+        const results = await migrator.down({ steps: option(args, '--steps'), dryRun });
+        console.log(`\n✅ ${results.length} migration(s) ${dryRun ? 'would be reverted' : 'reverted'}`);
+        break;
+      }
+      case 'baseline': {
+        const to = option(args, '--to');
+        if (to === undefined) {
+          throw new MigrationError('baseline needs --to N');
+        }
+        const results = await migrator.baseline(to);
+        console.log(`\n✅ ${results.length} migration(s) marked as applied`);
+        break;
+      }
+    }
     process.exit(0);
   } catch (error) {
-    console.error('\n❌ Migration failed:', error);
+    if (error instanceof MigrationError) {
+      console.error(`\n❌ ${error.message}`);
+    } else {
+      console.error('\n❌ Migration failed:', error);
+    }
     process.exit(1);
   }
 }
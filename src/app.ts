@@ -4,7 +4,6 @@ import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
 import dotenv from 'dotenv';
 import userRoutes from './routes/user.routes';
 import energyRoutes from './routes/energy.routes';
@@ -13,15 +12,25 @@ import projectRoutes from './routes/project.routes';
 import migrationRoutes from './routes/migration.routes';
 import suggestionsRoutes from './routes/suggestions';
 import teamsRoutes from './routes/teams.routes';
+import teamInvitesRoutes from './routes/team-invites.routes';
+import sharedProjectRoutes from './routes/shared-project.routes';
 import dependenciesRoutes from './routes/dependencies.routes';
 import notificationRoutes from './routes/notification.routes';
+import adminRoutes from './routes/admin.routes';
+import exportRoutes from './routes/export.routes';
+import searchRoutes from './routes/search.routes';
+import activityRoutes from './routes/activity.routes';
+import trashRoutes from './routes/trash.routes';
+import tagRoutes from './routes/tag.routes';
+import { createAppScheduler } from './services/jobs';
+import { RealtimeService } from './services/realtime.service';
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
 const server = createServer(app);
-const io = new Server(server, {
+const io = RealtimeService.attach(server, {
   cors: {
     origin: [
       "http://localhost:3000",
@@ -35,6 +44,7 @@ const io = new Server(server, {
 });
 
 const PORT = process.env.PORT || 3001;
+const scheduler = createAppScheduler();
 
 // Middleware
 app.use(helmet());
@@ -76,7 +86,10 @@ app.get('/api', (req, res) => {
       users: '/api/users',
       energy: '/api/energy',
       tasks: '/api/tasks',
-      projects: '/api/projects'
+      projects: '/api/projects',
+      search: '/api/search',
+      activity: '/api/activity',
+      trash: '/api/trash'
     },
     authentication: 'Auth0 (JWT Bearer token required for protected routes)'
   });
@@ -84,39 +97,23 @@ app.get('/api', (req, res) => {
 
 // API routes
 app.use('/api', userRoutes);
+app.use('/api', exportRoutes);
 app.use('/api', energyRoutes);
 app.use('/api/suggestions', suggestionsRoutes);
 app.use('/api', taskRoutes);
 app.use('/api/tasks', dependenciesRoutes);
 app.use('/api', projectRoutes);
+app.use('/api', tagRoutes);
 app.use('/api/teams', teamsRoutes);
+app.use('/api', sharedProjectRoutes);
+app.use('/api/invites', teamInvitesRoutes);
 app.use('/api', notificationRoutes);
+app.use('/api', searchRoutes);
+app.use('/api', activityRoutes);
+app.use('/api', trashRoutes);
+app.use('/api', adminRoutes);
 app.use('/api/migrations', migrationRoutes);
 
-// Socket.io connection handling
-io.on('connection', (socket) => {
-  console.log('User connected:', socket.id);
-  
-  socket.on('join-user', (userId) => {
-    socket.join(`user-${userId}`);
-    console.log(`User ${userId} joined their room`);
-  });
-  
-  socket.on('energy-update', (data) => {
-    // Broadcast energy update to user's room
-    io.to(`user-${data.userId}`).emit('energy-updated', data);
-  });
-  
-  socket.on('task-completed', (data) => {
-    // Broadcast task completion to user's room
-    io.to(`user-${data.userId}`).emit('task-completed', data);
-  });
-  
-  socket.on('disconnect', () => {
-    console.log('User disconnected:', socket.id);
-  });
-});
-
 // Auth error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
   if (err.name === 'UnauthorizedError') {
@@ -146,6 +143,12 @@ server.listen(PORT, () => {
   console.log(`🗄️  Database: ${process.env.DATABASE_URL ? 'Connected' : 'Not configured'}`);
   console.log(`🔐 Auth0: ${process.env.AUTH0_DOMAIN ? 'Configured' : 'Not configured'}`);
   console.log(`💾 Redis: ${process.env.REDIS_URL ? 'Connected' : 'Not configured'}`);
+
+  // Background jobs: recurring tasks, due date reminders, daily summaries
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    scheduler.start();
+    console.log(`⏱️  Scheduler started`);
+  }
 });
 
-export { app, io };
+export { app, io, scheduler };
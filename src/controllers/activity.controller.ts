@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { ACTIVITY_LISTING, TaskActivityModel } from '../models/TaskActivity';
+import { Policy } from '../policies';
+import { ListQueryError, parseListQuery } from '../utils/listing';
+
+export class ActivityController {
+  // History of a single task, newest first
+  static async getTaskActivity(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const listQuery = parseListQuery(ACTIVITY_LISTING, req.query);
+
+      const access = await Policy.task(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const page = await TaskActivityModel.listForTask(id, listQuery);
+
+      res.json({
+        activity: page.items,
+        count: page.items.length,
+        sort: listQuery.sortKey,
+        next_cursor: page.next_cursor,
+        has_more: page.has_more
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error fetching task activity:', error);
+      res.status(500).json({ error: 'Failed to fetch task activity' });
+    }
+  }
+
+  // The user's feed: changes to their own and assigned tasks, plus everything they did
+  static async getMyActivity(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const listQuery = parseListQuery(ACTIVITY_LISTING, req.query);
+      const page = await TaskActivityModel.listForUser(userId, listQuery);
+
+      res.json({
+        activity: page.items,
+        count: page.items.length,
+        sort: listQuery.sortKey,
+        next_cursor: page.next_cursor,
+        has_more: page.has_more
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error fetching activity feed:', error);
+      res.status(500).json({ error: 'Failed to fetch activity' });
+    }
+  }
+
+  // The team's feed: changes to tasks in projects shared with the team
+  static async getTeamActivity(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { teamId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const listQuery = parseListQuery(ACTIVITY_LISTING, req.query);
+
+      const access = await Policy.team(userId, 'read', teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const page = await TaskActivityModel.listForTeam(teamId, listQuery);
+
+      res.json({
+        activity: page.items,
+        count: page.items.length,
+        sort: listQuery.sortKey,
+        next_cursor: page.next_cursor,
+        has_more: page.has_more
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error fetching team activity:', error);
+      res.status(500).json({ error: 'Failed to fetch team activity' });
+    }
+  }
+}
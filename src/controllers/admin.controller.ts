@@ -0,0 +1,196 @@
+import { Request, Response } from 'express';
+import { UserModel } from '../models/User';
+import { EnergyModel } from '../models/Energy';
+import { RealtimeService } from '../services/realtime.service';
+import { z } from 'zod';
+
+// Validation schemas
+const listUsersSchema = z.object({
+  search: z.string().trim().min(1).max(255).optional(),
+  role: z.enum(['user', 'admin']).optional(),
+  status: z.enum(['active', 'disabled']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const disableUserSchema = z.object({
+  reason: z.string().trim().min(1).max(1000)
+});
+
+const setRoleSchema = z.object({
+  role: z.enum(['user', 'admin'])
+});
+
+const cleanupEnergyLogsSchema = z.object({
+  days_to_keep: z.number().int().min(7).max(3650).default(90)
+});
+
+export class AdminController {
+  // List and search users
+  static async listUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit, offset, ...filters } = listUsersSchema.parse(req.query);
+
+      const { users, total } = await UserModel.search(filters, limit, offset);
+
+      res.json({ users, count: users.length, total, limit, offset });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error listing users:', error);
+      res.status(500).json({ error: 'Failed to list users' });
+    }
+  }
+
+  // Get any user with their usage stats
+  static async getUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await UserModel.findById(id);
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const stats = await UserModel.getUsageStats(id);
+
+      res.json({ user, stats });
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      res.status(500).json({ error: 'Failed to fetch user' });
+    }
+  }
+
+  // Get a user's usage stats
+  static async getUserStats(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await UserModel.findById(id);
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const stats = await UserModel.getUsageStats(id);
+
+      res.json({ stats });
+    } catch (error) {
+      console.error('Error fetching user stats:', error);
+      res.status(500).json({ error: 'Failed to fetch user stats' });
+    }
+  }
+
+  // Disable an account; the user is refused on their next request and live sockets are closed
+  static async disableUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason } = disableUserSchema.parse(req.body);
+
+      if (id === req.userId) {
+        res.status(400).json({ error: 'You cannot disable your own account' });
+        return;
+      }
+
+      const existing = await UserModel.findById(id);
+      if (!existing) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      if (existing.disabled_at) {
+        res.status(409).json({ error: 'User is already disabled' });
+        return;
+      }
+
+      const user = await UserModel.setDisabled(id, reason);
+      RealtimeService.disconnectUser(id);
+
+      res.json({ message: 'User disabled successfully', user });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error disabling user:', error);
+      res.status(500).json({ error: 'Failed to disable user' });
+    }
+  }
+
+  // Re-enable a disabled account
+  static async enableUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const existing = await UserModel.findById(id);
+      if (!existing) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      if (!existing.disabled_at) {
+        res.status(409).json({ error: 'User is not disabled' });
+        return;
+      }
+
+      const user = await UserModel.setDisabled(id, null);
+
+      res.json({ message: 'User enabled successfully', user });
+    } catch (error) {
+      console.error('Error enabling user:', error);
+      res.status(500).json({ error: 'Failed to enable user' });
+    }
+  }
+
+  // Grant or revoke the platform admin role
+  static async setRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { role } = setRoleSchema.parse(req.body);
+
+      const existing = await UserModel.findById(id);
+      if (!existing) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      // Keep at least one admin who can sign in (admins granted by JWT claim aren't counted)
+      if (existing.role === 'admin' && role !== 'admin' && (await UserModel.countActiveAdmins()) <= 1) {
+        res.status(409).json({ error: 'Cannot remove the last admin' });
+        return;
+      }
+
+      const user = await UserModel.setRole(id, role);
+
+      res.json({ message: 'User role updated successfully', user });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error updating user role:', error);
+      res.status(500).json({ error: 'Failed to update user role' });
+    }
+  }
+
+  // Delete energy logs older than the retention window
+  static async cleanupEnergyLogs(req: Request, res: Response): Promise<void> {
+    try {
+      const { days_to_keep } = cleanupEnergyLogsSchema.parse(req.body || {});
+
+      const deleted = await EnergyModel.cleanupOldLogs(days_to_keep);
+
+      res.json({ message: 'Energy log cleanup completed', deleted, days_to_keep });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error cleaning up energy logs:', error);
+      res.status(500).json({ error: 'Failed to clean up energy logs' });
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
-import { EnergyModel, CreateEnergyLog } from '../models/Energy';
+import { EnergyModel, CreateEnergyLog, ENERGY_LOG_LISTING } from '../models/Energy';
+import { RealtimeService } from '../services/realtime.service';
+import { ListQueryError, parseListQuery } from '../utils/listing';
 import { z } from 'zod';
 
 // Validation schemas
@@ -32,6 +34,8 @@ export class EnergyController {
         ...validatedData
       });
 
+      RealtimeService.emitToUsers([userId], 'energy:logged', { energy_log: energyLog });
+
       res.status(201).json({
         message: 'Energy logged successfully',
         energy_log: energyLog
@@ -56,18 +60,22 @@ export class EnergyController {
         return;
       }
 
-      const limit = parseInt(req.query.limit as string) || 100;
-      const offset = parseInt(req.query.offset as string) || 0;
-
-      const logs = await EnergyModel.getUserEnergyLogs(userId, limit, offset);
+      const listQuery = parseListQuery(ENERGY_LOG_LISTING, req.query);
+      const page = await EnergyModel.getUserEnergyLogs(userId, listQuery);
 
       res.json({
-        energy_logs: logs,
-        count: logs.length,
-        limit,
-        offset
+        energy_logs: page.items,
+        count: page.items.length,
+        limit: listQuery.limit,
+        sort: listQuery.sortKey,
+        next_cursor: page.next_cursor,
+        has_more: page.has_more
       });
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error('Error fetching energy logs:', error);
       res.status(500).json({ error: 'Failed to fetch energy logs' });
     }
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { DataExport, DataExportModel } from '../models/DataExport';
+import { DataExportService } from '../services/export.service';
+import { z } from 'zod';
+
+const requestExportSchema = z.object({
+  format: z.enum(['json', 'zip']).default('json')
+});
+
+// Ready exports carry a fresh signed link; storage paths stay on the server
+function present(dataExport: DataExport) {
+  const { file_path, ...rest } = dataExport;
+  return {
+    ...rest,
+    download: dataExport.status === 'ready' ? DataExportService.signDownload(dataExport) : null
+  };
+}
+
+export class ExportController {
+  // Request an export of the current user's data (reuses one already queued or downloadable)
+  static async requestExport(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { format } = requestExportSchema.parse(req.query);
+
+      const dataExport = await DataExportService.request(userId, format);
+
+      res.status(dataExport.status === 'ready' ? 200 : 202).json({
+        message: dataExport.status === 'ready' ? 'Export ready' : 'Export is being prepared',
+        export: present(dataExport)
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error requesting export:', error);
+      res.status(500).json({ error: 'Failed to request export' });
+    }
+  }
+
+  // List the current user's exports
+  static async listExports(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const exports = await DataExportModel.listForUser(userId);
+
+      res.json({ exports: exports.map(present), count: exports.length });
+    } catch (error) {
+      console.error('Error fetching exports:', error);
+      res.status(500).json({ error: 'Failed to fetch exports' });
+    }
+  }
+
+  // Get an export's status
+  static async getExport(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { id } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const dataExport = await DataExportModel.findForUser(id, userId);
+      if (!dataExport) {
+        res.status(404).json({ error: 'Export not found' });
+        return;
+      }
+
+      res.json({ export: present(dataExport) });
+    } catch (error) {
+      console.error('Error fetching export:', error);
+      res.status(500).json({ error: 'Failed to fetch export' });
+    }
+  }
+
+  // Download an archive through a signed link (no session needed)
+  static async download(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { expires, signature } = req.query;
+
+      if (typeof expires !== 'string' || typeof signature !== 'string'
+        || !DataExportService.verifyDownload(id, expires, signature)) {
+        res.status(403).json({ error: 'Download link is invalid or has expired' });
+        return;
+      }
+
+      const dataExport = await DataExportModel.findById(id);
+      if (!dataExport || dataExport.status !== 'ready' || !dataExport.file_path) {
+        res.status(410).json({ error: 'Export is no longer available' });
+        return;
+      }
+
+      const date = new Date(dataExport.created_at).toISOString().slice(0, 10);
+      res.download(dataExport.file_path, `syncscript-export-${date}.${dataExport.format}`, (error) => {
+        if (error && !res.headersSent) {
+          console.error('Error sending export:', error);
+          res.status(410).json({ error: 'Export is no longer available' });
+        }
+      });
+    } catch (error) {
+      console.error('Error downloading export:', error);
+      res.status(500).json({ error: 'Failed to download export' });
+    }
+  }
+}
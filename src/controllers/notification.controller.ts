@@ -1,9 +1,33 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import sgMail from '@sendgrid/mail';
+import { NotificationPreferencesModel, EmailNotificationType } from '../models/NotificationPreferences';
+import { UserModel } from '../models/User';
+import { Mailer, defaultMailer } from '../services/mail';
+import {
+  renderTemplate,
+  getTemplate,
+  listTemplates,
+  createRenderContext,
+  RenderContext,
+  DueDateReminderData,
+  DailySummaryData,
+  TeamInviteData,
+  TaskAssignedData,
+  TaskReviewData,
+  TaskMentionData
+} from '../services/mail/templates';
 
-// Initialize SendGrid
-sgMail.setApiKey(process.env.SENDGRID_API_KEY || '');
+export interface EmailRecipient {
+  id: string;
+  email: string;
+  timezone?: string | null;
+  locale?: string | null;
+}
+
+// Dates in emails are shown in the recipient's timezone and locale
+function contextFor(recipient: EmailRecipient): RenderContext {
+  return createRenderContext({ timeZone: recipient.timezone, locale: recipient.locale });
+}
 
 // Validation schemas
 const preferencesSchema = z.object({
@@ -12,9 +36,18 @@ const preferencesSchema = z.object({
   email_streak_alerts: z.boolean().optional(),
   email_weekly_report: z.boolean().optional(),
   email_task_suggestions: z.boolean().optional(),
+  email_task_assignments: z.boolean().optional(),
+  email_task_approvals: z.boolean().optional(),
+  email_mentions: z.boolean().optional(),
   reminder_hours_before: z.number().int().min(1).max(72).optional()
 });
 
+const previewQuerySchema = z.object({
+  format: z.enum(['json', 'html', 'text']).default('json'),
+  timezone: z.string().optional(),
+  locale: z.string().optional()
+});
+
 export class NotificationController {
   // Update notification preferences
   static async updatePreferences(req: Request, res: Response): Promise<void> {
@@ -28,12 +61,11 @@ export class NotificationController {
 
       const validatedData = preferencesSchema.parse(req.body);
 
-      // Store preferences in database (for now, just return success)
-      // TODO: Add to users table or create notification_preferences table
+      const preferences = await NotificationPreferencesModel.update(userId, validatedData);
       
       res.status(200).json({
         message: 'Notification preferences updated successfully',
-        preferences: validatedData
+        preferences
       });
 
     } catch (error) {
@@ -61,19 +93,11 @@ export class NotificationController {
         return;
       }
 
-      // TODO: Fetch from database
-      const defaultPreferences = {
-        email_due_date_reminders: true,
-        email_daily_summary: true,
-        email_streak_alerts: true,
-        email_weekly_report: true,
-        email_task_suggestions: true,
-        reminder_hours_before: 24
-      };
+      const preferences = await NotificationPreferencesModel.get(userId);
 
       res.status(200).json({
         data: {
-          preferences: defaultPreferences
+          preferences
         }
       });
 
@@ -86,7 +110,17 @@ export class NotificationController {
     }
   }
 
+  // Check the user's preferences before sending an automated email
+  private static async isAllowed(userId: string, type: EmailNotificationType): Promise<boolean> {
+    const allowed = await NotificationPreferencesModel.isEnabled(userId, type);
+    if (!allowed) {
+      console.log(`[notifications] Skipping ${type} for user ${userId} (disabled in preferences)`);
+    }
+    return allowed;
+  }
+
   // Send test email
+  // Explicitly requested by the user, so it is not subject to notification preferences
   static async sendTestEmail(req: Request, res: Response): Promise<void> {
     try {
       const userId = (req as any).userId;
@@ -97,46 +131,18 @@ export class NotificationController {
         return;
       }
 
-      const msg = {
+      const user = await UserModel.findById(userId);
+      const rendered = renderTemplate('test', {}, createRenderContext({
+        timeZone: user?.timezone,
+        locale: user?.locale
+      }));
+
+      await defaultMailer.send({
         to: userEmail,
-        from: 'notifications@syncscript.app',
-        subject: '✅ SyncScript Email Notifications Are Working!',
-        text: 'This is a test email from SyncScript. Your email notifications are configured correctly!',
-        html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h1 style="color: #4A90E2; text-align: center;">✅ Success!</h1>
-            <p style="font-size: 16px; line-height: 1.6; color: #333;">
-              Your SyncScript email notifications are working perfectly!
-            </p>
-            <p style="font-size: 14px; color: #666;">
-              You'll now receive:
-            </p>
-            <ul style="font-size: 14px; color: #666;">
-              <li>Due date reminders</li>
-              <li>Daily productivity summaries</li>
-              <li>Streak maintenance alerts</li>
-              <li>Weekly productivity reports</li>
-              <li>Smart task suggestions</li>
-            </ul>
-            <div style="text-align: center; margin-top: 30px;">
-              <a href="https://www.syncscript.app/dashboard" 
-                 style="background: linear-gradient(135deg, #667eea, #764ba2); 
-                        color: white; 
-                        padding: 12px 30px; 
-                        text-decoration: none; 
-                        border-radius: 8px; 
-                        font-weight: bold;">
-                Go to Dashboard
-              </a>
-            </div>
-            <p style="font-size: 12px; color: #999; text-align: center; margin-top: 30px;">
-              SyncScript - Energy-Based Productivity Platform
-            </p>
-          </div>
-        `
-      };
-
-      await sgMail.send(msg);
+        ...rendered,
+        category: 'test',
+        metadata: { userId }
+      });
 
       res.status(200).json({
         message: 'Test email sent successfully!',
@@ -152,87 +158,197 @@ export class NotificationController {
     }
   }
 
-  // Send due date reminder (called by cron job or scheduled task)
-  static async sendDueDateReminder(userEmail: string, task: any): Promise<void> {
-    try {
-      const dueDate = new Date(task.due_date);
-      const msg = {
-        to: userEmail,
-        from: 'notifications@syncscript.app',
-        subject: `⏰ Reminder: "${task.title}" is due soon`,
-        html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h2 style="color: #4A90E2;">⏰ Task Reminder</h2>
-            <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3 style="margin: 0 0 10px 0;">${task.title}</h3>
-              <p style="color: #666; margin: 0 0 10px 0;">${task.description || ''}</p>
-              <p style="color: #E53E3E; font-weight: bold; margin: 0;">
-                Due: ${dueDate.toLocaleDateString()} at ${dueDate.toLocaleTimeString()}
-              </p>
-            </div>
-            <div style="text-align: center; margin-top: 30px;">
-              <a href="https://www.syncscript.app/dashboard" 
-                 style="background: linear-gradient(135deg, #667eea, #764ba2); 
-                        color: white; 
-                        padding: 12px 30px; 
-                        text-decoration: none; 
-                        border-radius: 8px; 
-                        font-weight: bold;">
-                Complete Task
-              </a>
-            </div>
-          </div>
-        `
-      };
-
-      await sgMail.send(msg);
-    } catch (error) {
-      console.error('Send due date reminder error:', error);
+  // Send due date reminder (called by the scheduler)
+  // Returns false if the user has turned due date reminders off; send failures are thrown
+  static async sendDueDateReminder(
+    recipient: EmailRecipient,
+    task: DueDateReminderData['task'],
+    mailer: Mailer = defaultMailer
+  ): Promise<boolean> {
+    if (!(await NotificationController.isAllowed(recipient.id, 'email_due_date_reminders'))) {
+      return false;
     }
+
+    const rendered = renderTemplate<DueDateReminderData>('due-date-reminder', { task }, contextFor(recipient));
+
+    await mailer.send({
+      to: recipient.email,
+      ...rendered,
+      category: 'due_date_reminder',
+      metadata: { userId: recipient.id, taskId: task.id }
+    });
+    return true;
+  }
+
+  // Send daily summary (called by the scheduler)
+  // Returns false if the user has turned the daily summary off; send failures are thrown
+  static async sendDailySummary(
+    recipient: EmailRecipient,
+    stats: DailySummaryData,
+    mailer: Mailer = defaultMailer
+  ): Promise<boolean> {
+    if (!(await NotificationController.isAllowed(recipient.id, 'email_daily_summary'))) {
+      return false;
+    }
+
+    const rendered = renderTemplate<DailySummaryData>('daily-summary', stats, contextFor(recipient));
+
+    await mailer.send({
+      to: recipient.email,
+      ...rendered,
+      category: 'daily_summary',
+      metadata: { userId: recipient.id }
+    });
+    return true;
+  }
+
+  // Send a team invitation (transactional, so not subject to preferences)
+  // The invitee may not have an account yet, so dates use the team's timezone
+  static async sendTeamInvite(
+    email: string,
+    invite: TeamInviteData,
+    teamTimeZone?: string,
+    mailer: Mailer = defaultMailer
+  ): Promise<void> {
+    const rendered = renderTemplate<TeamInviteData>('team-invite', invite, createRenderContext({ timeZone: teamTimeZone }));
+
+    await mailer.send({
+      to: email,
+      ...rendered,
+      category: 'team_invite'
+    });
+  }
+
+  // Send a task assignment notice
+  // Returns false if the assignee has turned assignment emails off; send failures are thrown
+  static async sendTaskAssigned(
+    recipient: EmailRecipient,
+    data: TaskAssignedData,
+    mailer: Mailer = defaultMailer
+  ): Promise<boolean> {
+    if (!(await NotificationController.isAllowed(recipient.id, 'email_task_assignments'))) {
+      return false;
+    }
+
+    const rendered = renderTemplate<TaskAssignedData>('task-assigned', data, contextFor(recipient));
+
+    await mailer.send({
+      to: recipient.email,
+      ...rendered,
+      category: 'task_assigned',
+      metadata: { userId: recipient.id, taskId: data.task.id }
+    });
+    return true;
+  }
+
+  // Tell the requester whether their task was approved or rejected
+  // Returns false if they have turned approval emails off; send failures are thrown
+  static async sendTaskReviewed(
+    recipient: EmailRecipient,
+    data: TaskReviewData,
+    mailer: Mailer = defaultMailer
+  ): Promise<boolean> {
+    if (!(await NotificationController.isAllowed(recipient.id, 'email_task_approvals'))) {
+      return false;
+    }
+
+    const rendered = renderTemplate<TaskReviewData>('task-review', data, contextFor(recipient));
+
+    await mailer.send({
+      to: recipient.email,
+      ...rendered,
+      category: 'task_review',
+      metadata: { userId: recipient.id, taskId: data.task.id }
+    });
+    return true;
+  }
+
+  // Tell a user they were mentioned in a task comment
+  // Returns false if they have turned mention emails off; send failures are thrown
+  static async sendMention(
+    recipient: EmailRecipient,
+    data: TaskMentionData,
+    mailer: Mailer = defaultMailer
+  ): Promise<boolean> {
+    if (!(await NotificationController.isAllowed(recipient.id, 'email_mentions'))) {
+      return false;
+    }
+
+    const rendered = renderTemplate<TaskMentionData>('task-mention', data, contextFor(recipient));
+
+    await mailer.send({
+      to: recipient.email,
+      ...rendered,
+      category: 'task_mention',
+      metadata: { userId: recipient.id, taskId: data.task.id, commentId: data.comment.id }
+    });
+    return true;
   }
 
-  // Send daily summary (called by cron job)
-  static async sendDailySummary(userEmail: string, stats: any): Promise<void> {
+  // List email templates
+  static async listTemplates(req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      data: {
+        templates: listTemplates()
+      }
+    });
+  }
+
+  // Render a template with its sample data
+  // ?format=html|text returns the raw part; timezone and locale default to the caller's
+  static async previewTemplate(req: Request, res: Response): Promise<void> {
     try {
-      const msg = {
-        to: userEmail,
-        from: 'notifications@syncscript.app',
-        subject: `📊 Your Daily Productivity Summary`,
-        html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h2 style="color: #4A90E2;">📊 Daily Summary</h2>
-            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 15px; margin: 20px 0;">
-              <div style="background: #f5f5f5; padding: 15px; border-radius: 8px; text-align: center;">
-                <div style="font-size: 32px; font-weight: bold; color: #48BB78;">${stats.completed}</div>
-                <div style="color: #666;">Tasks Completed</div>
-              </div>
-              <div style="background: #f5f5f5; padding: 15px; border-radius: 8px; text-align: center;">
-                <div style="font-size: 32px; font-weight: bold; color: #667eea;">${stats.points}</div>
-                <div style="color: #666;">Points Earned</div>
-              </div>
-            </div>
-            <div style="background: #f5f5f5; padding: 15px; border-radius: 8px; margin: 20px 0;">
-              <h4 style="margin: 0 0 10px 0;">⚡ Average Energy: ${stats.avgEnergy}/5</h4>
-              <h4 style="margin: 0;">🔥 Current Streak: ${stats.streak} days</h4>
-            </div>
-            <div style="text-align: center; margin-top: 30px;">
-              <a href="https://www.syncscript.app/dashboard" 
-                 style="background: linear-gradient(135deg, #667eea, #764ba2); 
-                        color: white; 
-                        padding: 12px 30px; 
-                        text-decoration: none; 
-                        border-radius: 8px; 
-                        font-weight: bold;">
-                View Full Report
-              </a>
-            </div>
-          </div>
-        `
-      };
-
-      await sgMail.send(msg);
+      const userId = (req as any).userId;
+      
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { format, timezone, locale } = previewQuerySchema.parse(req.query);
+      const template = getTemplate(req.params.name);
+
+      if (!template) {
+        res.status(404).json({ error: 'Template not found' });
+        return;
+      }
+
+      const user = await UserModel.findById(userId);
+      const context = createRenderContext({
+        timeZone: timezone || user?.timezone,
+        locale: locale || user?.locale
+      });
+      const rendered = renderTemplate(template.name, template.sampleData, context);
+
+      if (format === 'html') {
+        res.status(200).type('html').send(rendered.html);
+        return;
+      }
+      if (format === 'text') {
+        res.status(200).type('text').send(rendered.text);
+        return;
+      }
+
+      res.status(200).json({
+        data: {
+          template: template.name,
+          context: { timezone: context.timeZone, locale: context.locale },
+          ...rendered
+        }
+      });
+
     } catch (error) {
-      console.error('Send daily summary error:', error);
+      console.error('Preview template error:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid request data', details: error.errors });
+        return;
+      }
+
+      res.status(500).json({ 
+        error: 'Failed to render template',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
   }
 }
@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
-import { ProjectModel, CreateProjectData } from '../models/Project';
+import { ProjectModel, CreateProjectData, PROJECT_LISTING } from '../models/Project';
+import { ListQueryError, parseListQuery } from '../utils/listing';
+import { Policy } from '../policies';
+import { TrashError, TrashService } from '../services/trash.service';
 import { z } from 'zod';
 
 const createProjectSchema = z.object({
@@ -43,14 +46,21 @@ export class ProjectController {
         return;
       }
 
-      const status = req.query.status as string;
-      const limit = parseInt(req.query.limit as string) || 100;
-      const offset = parseInt(req.query.offset as string) || 0;
+      const listQuery = parseListQuery(PROJECT_LISTING, req.query);
+      const page = await ProjectModel.getUserProjects(userId, listQuery);
 
-      const projects = await ProjectModel.getUserProjects(userId, status, limit, offset);
-
-      res.json({ projects, count: projects.length });
+      res.json({
+        projects: page.items,
+        count: page.items.length,
+        sort: listQuery.sortKey,
+        next_cursor: page.next_cursor,
+        has_more: page.has_more
+      });
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error('Error fetching projects:', error);
       res.status(500).json({ error: 'Failed to fetch projects' });
     }
@@ -65,7 +75,14 @@ export class ProjectController {
         return;
       }
 
-      const project = await ProjectModel.getProjectWithStats(id, userId);
+      const access = await Policy.project(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      // Team members reading a shared project see the owner's stats
+      const project = await ProjectModel.getProjectWithStats(id, access.resource.project.user_id);
       if (!project) {
         res.status(404).json({ error: 'Project not found' });
         return;
@@ -88,6 +105,13 @@ export class ProjectController {
       }
 
       const validatedData = updateProjectSchema.parse(req.body);
+
+      const access = await Policy.project(userId, 'update', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
       const project = await ProjectModel.update(id, userId, validatedData);
 
       res.json({ message: 'Project updated successfully', project });
@@ -110,6 +134,12 @@ export class ProjectController {
         return;
       }
 
+      const access = await Policy.project(userId, 'update', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
       const project = await ProjectModel.archive(id, userId);
       res.json({ message: 'Project archived successfully', project });
     } catch (error) {
@@ -118,6 +148,7 @@ export class ProjectController {
     }
   }
 
+  // Move a project and its tasks to the trash
   static async delete(req: Request, res: Response): Promise<void> {
     try {
       const userId = (req as any).userId;
@@ -127,14 +158,20 @@ export class ProjectController {
         return;
       }
 
-      const deleted = await ProjectModel.delete(id, userId);
-      if (!deleted) {
-        res.status(404).json({ error: 'Project not found' });
+      const access = await Policy.project(userId, 'delete', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
         return;
       }
 
-      res.json({ message: 'Project deleted successfully' });
+      const trashed = await TrashService.trashProject(userId, access.resource.project);
+
+      res.json({ message: 'Project moved to trash', ...trashed });
     } catch (error) {
+      if (error instanceof TrashError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
       console.error('Error deleting project:', error);
       res.status(500).json({ error: 'Failed to delete project' });
     }
@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { SEARCH_TYPES, SearchService } from '../services/search.service';
+import { z } from 'zod';
+
+// Validation schemas
+const searchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  // Comma-separated subset of SEARCH_TYPES; all of them by default
+  types: z.string()
+    .transform(value => Array.from(new Set(value.split(',').map(type => type.trim()).filter(Boolean))))
+    .pipe(z.array(z.enum(SEARCH_TYPES)).min(1))
+    .default(SEARCH_TYPES.join(',')),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+export class SearchController {
+  // Search everything the user can read; q accepts web search syntax ("quoted phrases", -exclusions, or)
+  static async search(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { q, types, limit } = searchSchema.parse(req.query);
+
+      const results = await SearchService.search(userId, q, types, limit);
+
+      res.json({ query: q, results });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error searching:', error);
+      res.status(500).json({ error: 'Failed to search' });
+    }
+  }
+}
@@ -0,0 +1,687 @@
+import { Request, Response } from 'express';
+import { Project } from '../models/Project';
+import { TaskModel, Task, CreateTaskData, OPEN_STATUSES } from '../models/Task';
+import { TeamModel, hasTeamRole } from '../models/Team';
+import { TagModel } from '../models/Tag';
+import { UserModel } from '../models/User';
+import { SharedProjectModel, showsMemberEnergy } from '../models/SharedProject';
+import {
+  Policy,
+  canOnProject,
+  canAssignProjectTasks,
+  taskNeedsApproval,
+  canTakeTasks
+} from '../policies';
+import { AssignmentService } from '../services/assignment.service';
+import { RealtimeService } from '../services/realtime.service';
+import { ActivityService } from '../services/activity.service';
+import { NotificationController } from './notification.controller';
+import { createTaskSchema } from './task.controller';
+import { z } from 'zod';
+
+const shareSettingsSchema = z.object({
+  allowMemberTaskCreation: z.boolean(),
+  allowMemberTaskAssignment: z.boolean(),
+  requireApprovalForTasks: z.boolean(),
+  showEnergyLevels: z.boolean(),
+  autoAssignByEnergy: z.boolean()
+}).partial();
+
+const shareProjectSchema = z.object({
+  project_id: z.string().uuid(),
+  settings: shareSettingsSchema.optional()
+});
+
+const updateShareSchema = z.object({
+  settings: shareSettingsSchema
+});
+
+// The project comes from the URL
+const createSharedTaskSchema = createTaskSchema.omit({ project_id: true }).extend({
+  assignee_id: z.string().uuid().optional()
+});
+
+const assignTaskSchema = z.object({
+  assignee_id: z.string().uuid().nullable()
+});
+
+const rejectTaskSchema = z.object({
+  reason: z.string().trim().min(1).max(1000)
+});
+
+async function isAssignableMember(teamId: string, userId: string): Promise<boolean> {
+  const membership = await TeamModel.getActiveMembership(teamId, userId);
+  return !!membership && canTakeTasks(membership.role);
+}
+
+// Email the requester the review decision; failures are logged
+async function notifyRequester(
+  task: Task,
+  project: Project,
+  reviewer: { id: string; name?: string }
+): Promise<void> {
+  if (task.user_id === reviewer.id) {
+    return;
+  }
+
+  try {
+    const requester = await UserModel.findById(task.user_id);
+    if (!requester) {
+      return;
+    }
+
+    await NotificationController.sendTaskReviewed(requester, {
+      task,
+      projectName: project.name,
+      reviewerName: reviewer.name || 'A teammate',
+      decision: task.status === 'rejected' ? 'rejected' : 'approved',
+      reason: task.rejection_reason
+    });
+  } catch (error) {
+    console.error(`Error notifying requester of task ${task.id}:`, error);
+  }
+}
+
+// Email the assignee; failures are logged so they never undo the assignment
+// Tasks awaiting approval are announced once they are approved
+async function notifyAssignee(
+  task: Task,
+  project: Project,
+  actor: { id: string; name?: string },
+  autoAssigned: boolean
+): Promise<void> {
+  if (!task.assignee_id || task.assignee_id === actor.id || !OPEN_STATUSES.includes(task.status)) {
+    return;
+  }
+
+  try {
+    const assignee = await UserModel.findById(task.assignee_id);
+    if (!assignee) {
+      return;
+    }
+
+    await NotificationController.sendTaskAssigned(assignee, {
+      task,
+      projectName: project.name,
+      assignerName: actor.name || 'A teammate',
+      autoAssigned
+    });
+  } catch (error) {
+    console.error(`Error notifying assignee of task ${task.id}:`, error);
+  }
+}
+
+export class SharedProjectController {
+  // Share one of your projects with a team you belong to
+  static async share(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const validatedData = shareProjectSchema.parse(req.body);
+
+      const teamAccess = await Policy.team(userId, 'share_project', teamId);
+      if (!teamAccess.allowed) {
+        res.status(teamAccess.status).json({ error: teamAccess.error });
+        return;
+      }
+
+      const projectAccess = await Policy.project(userId, 'share', validatedData.project_id);
+      if (!projectAccess.allowed) {
+        res.status(projectAccess.status).json({ error: projectAccess.error });
+        return;
+      }
+
+      const { project } = projectAccess.resource;
+
+      if (await SharedProjectModel.find(project.id, teamId)) {
+        res.status(409).json({ error: 'Project is already shared with this team' });
+        return;
+      }
+
+      await SharedProjectModel.share(project.id, teamId, validatedData.settings);
+      const sharedProject = await SharedProjectModel.findDetails(project.id, teamId);
+
+      res.status(201).json({ message: 'Project shared successfully', shared_project: sharedProject });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error sharing project:', error);
+      res.status(500).json({ error: 'Failed to share project' });
+    }
+  }
+
+  // List projects shared with a team
+  static async getTeamProjects(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.team(userId, 'read', teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const projects = await SharedProjectModel.listForTeam(teamId);
+
+      res.json({ projects, count: projects.length });
+    } catch (error) {
+      console.error('Error fetching shared projects:', error);
+      res.status(500).json({ error: 'Failed to fetch shared projects' });
+    }
+  }
+
+  // Get a shared project with task counts
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.sharedProject(userId, 'read', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { subject } = access.resource;
+      const project = await SharedProjectModel.findDetails(projectId, teamId);
+
+      res.json({
+        project,
+        permissions: {
+          can_create_tasks: canOnProject(userId, 'create_task', subject),
+          can_assign_tasks: canAssignProjectTasks(userId, subject, null),
+          can_manage: canOnProject(userId, 'manage_share', subject),
+          needs_approval: taskNeedsApproval(userId, subject)
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching shared project:', error);
+      res.status(500).json({ error: 'Failed to fetch shared project' });
+    }
+  }
+
+  // Update share settings
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { settings } = updateShareSchema.parse(req.body);
+
+      const access = await Policy.sharedProject(userId, 'manage_share', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const share = await SharedProjectModel.updateSettings(projectId, teamId, settings);
+
+      res.json({ message: 'Sharing settings updated successfully', shared_project: share });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error updating shared project:', error);
+      res.status(500).json({ error: 'Failed to update sharing settings' });
+    }
+  }
+
+  // Stop sharing a project with a team
+  static async unshare(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      // Project owners can withdraw their project even after leaving the team
+      const access = await Policy.sharedProject(userId, 'manage_share', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const removed = await SharedProjectModel.unshare(projectId, teamId);
+      if (!removed) {
+        res.status(404).json({ error: 'Shared project not found' });
+        return;
+      }
+
+      await RealtimeService.evictFromProject(teamId, projectId);
+
+      res.json({ message: 'Project unshared successfully' });
+    } catch (error) {
+      console.error('Error unsharing project:', error);
+      res.status(500).json({ error: 'Failed to unshare project' });
+    }
+  }
+
+  // List tasks in a shared project
+  static async getTasks(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.sharedProject(userId, 'read', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const status = req.query.status as string;
+      const priority = req.query.priority ? parseInt(req.query.priority as string) : undefined;
+      const limit = parseInt(req.query.limit as string) || 100;
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const tasks = await TaskModel.getProjectTasks(projectId, { status, priority }, limit, offset);
+
+      res.json({ tasks, count: tasks.length });
+    } catch (error) {
+      console.error('Error fetching shared project tasks:', error);
+      res.status(500).json({ error: 'Failed to fetch tasks' });
+    }
+  }
+
+  // Create a task in a shared project
+  static async createTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const validatedData = createSharedTaskSchema.parse(req.body);
+
+      const access = await Policy.sharedProject(userId, 'create_task', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { project, subject, share } = access.resource;
+      const { assignee_id: assigneeId, ...taskData } = validatedData;
+      const needsApproval = taskNeedsApproval(userId, subject);
+
+      if (assigneeId) {
+        if (!canAssignProjectTasks(userId, subject, assigneeId)) {
+          res.status(403).json({ error: 'Insufficient permissions to assign tasks in this project' });
+          return;
+        }
+        if (!(await isAssignableMember(teamId, assigneeId))) {
+          res.status(400).json({ error: 'Assignee must be an active team member who can take tasks' });
+          return;
+        }
+      }
+
+      const tags = taskData.tags && (await TagModel.resolve(userId, taskData.tags));
+      if (tags && tags.missing.length > 0) {
+        res.status(400).json({ error: 'Unknown tags', tag_ids: tags.missing });
+        return;
+      }
+
+      let task = await TaskModel.create({
+        user_id: userId,
+        ...taskData,
+        tags: tags?.tags,
+        project_id: projectId,
+        due_date: taskData.due_date ? new Date(taskData.due_date) : undefined,
+        status: needsApproval ? 'awaiting_approval' : 'pending'
+      } as CreateTaskData);
+      await ActivityService.record('created', userId, task);
+      const created = task;
+
+      // Without an explicit assignee, projects with autoAssignByEnergy pick one
+      // (after approval, for tasks that need it)
+      let autoAssigned = false;
+      if (assigneeId) {
+        task = await TaskModel.assign(task.id, assigneeId, userId);
+      } else if (!needsApproval && share?.settings.autoAssignByEnergy) {
+        const best = await AssignmentService.pickAssignee(teamId, task);
+        if (best) {
+          task = await TaskModel.assign(task.id, best.user_id, userId);
+          autoAssigned = true;
+        }
+      }
+
+      await ActivityService.recordChanges(userId, created, task, { auto_assigned: autoAssigned });
+      await notifyAssignee(task, project, { id: userId, name: req.userName }, autoAssigned);
+      RealtimeService.emitTaskEvent('task:created', userId, { task });
+
+      res.status(201).json({
+        message: needsApproval ? 'Task submitted for approval' : 'Task created successfully',
+        task
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error creating shared project task:', error);
+      res.status(500).json({ error: 'Failed to create task' });
+    }
+  }
+
+  // Assign a shared project task to a team member (null unassigns)
+  static async assignTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId, taskId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { assignee_id: assigneeId } = assignTaskSchema.parse(req.body);
+
+      const access = await Policy.sharedProject(userId, 'read', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { project, subject } = access.resource;
+
+      const existing = await TaskModel.findInProject(taskId, projectId);
+      if (!existing) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      // Assignees may always hand a task back
+      const releasingOwnTask = assigneeId === null && existing.assignee_id === userId;
+      if (!releasingOwnTask && !canAssignProjectTasks(userId, subject, assigneeId)) {
+        res.status(403).json({ error: 'Insufficient permissions to assign tasks in this project' });
+        return;
+      }
+
+      if (assigneeId && !(await isAssignableMember(teamId, assigneeId))) {
+        res.status(400).json({ error: 'Assignee must be an active team member who can take tasks' });
+        return;
+      }
+
+      const task = await TaskModel.assign(taskId, assigneeId, userId);
+      await ActivityService.recordChanges(userId, existing, task);
+
+      if (assigneeId !== existing.assignee_id) {
+        await notifyAssignee(task, project, { id: userId, name: req.userName }, false);
+      }
+      RealtimeService.emitTaskEvent('task:updated', userId, { task });
+
+      res.json({
+        message: assigneeId ? 'Task assigned successfully' : 'Task unassigned successfully',
+        task
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error assigning task:', error);
+      res.status(500).json({ error: 'Failed to assign task' });
+    }
+  }
+
+  // Assign a shared project task to the member whose energy and workload fit it best
+  static async autoAssignTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId, taskId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.sharedProject(userId, 'read', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { project, subject } = access.resource;
+
+      // The pick may be anyone, so this needs permission to assign others
+      if (!canAssignProjectTasks(userId, subject, null)) {
+        res.status(403).json({ error: 'Insufficient permissions to assign tasks in this project' });
+        return;
+      }
+
+      const existing = await TaskModel.findInProject(taskId, projectId);
+      if (!existing) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      if (!OPEN_STATUSES.includes(existing.status)) {
+        res.status(409).json({ error: 'Only open tasks can be assigned' });
+        return;
+      }
+
+      const candidates = await AssignmentService.rankCandidates(teamId, existing);
+      if (candidates.length === 0) {
+        res.status(409).json({ error: 'No team members are available to take this task' });
+        return;
+      }
+
+      const [best] = candidates;
+      const task = await TaskModel.assign(taskId, best.user_id, userId);
+      await ActivityService.recordChanges(userId, existing, task, { auto_assigned: true });
+
+      if (task.assignee_id !== existing.assignee_id) {
+        await notifyAssignee(task, project, { id: userId, name: req.userName }, true);
+      }
+      RealtimeService.emitTaskEvent('task:updated', userId, { task });
+
+      // The ranking carries every member's energy, so it is only shown where energy is visible
+      const grant = subject.grants.find(g => g.share.team_id === teamId);
+      const showEnergy = !!grant && showsMemberEnergy(grant.share.settings, grant.teamSettings);
+
+      res.json({
+        message: 'Task assigned successfully',
+        task,
+        assignee: { user_id: best.user_id, name: best.name },
+        ...(showEnergy ? { candidates } : {})
+      });
+    } catch (error) {
+      console.error('Error auto-assigning task:', error);
+      res.status(500).json({ error: 'Failed to assign task' });
+    }
+  }
+
+  // List tasks awaiting approval in a team's shared projects
+  // Admins see the whole team's queue; project owners see their own projects
+  static async getApprovalQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.team(userId, 'read', teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { membership } = access.resource;
+      const tasks = await TaskModel.getApprovalQueue(
+        teamId,
+        membership && hasTeamRole(membership.role, 'admin') ? undefined : userId
+      );
+
+      res.json({ tasks, count: tasks.length });
+    } catch (error) {
+      console.error('Error fetching approval queue:', error);
+      res.status(500).json({ error: 'Failed to fetch approval queue' });
+    }
+  }
+
+  // Approve a task awaiting approval
+  static async approveTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId, taskId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.sharedProject(userId, 'review_tasks', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { project, share } = access.resource;
+
+      const existing = await TaskModel.findInProject(taskId, projectId);
+      if (!existing) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      let task = await TaskModel.approve(taskId, userId);
+      if (!task) {
+        res.status(409).json({ error: `Task is ${existing.status}, not awaiting approval` });
+        return;
+      }
+
+      const reviewer = { id: userId, name: req.userName };
+
+      // Auto-assignment was held back until approval
+      let autoAssigned = false;
+      if (!task.assignee_id && share?.settings.autoAssignByEnergy) {
+        const best = await AssignmentService.pickAssignee(teamId, task);
+        if (best) {
+          task = await TaskModel.assign(task.id, best.user_id, userId);
+          autoAssigned = true;
+        }
+      }
+
+      await ActivityService.recordChanges(userId, existing, task, { auto_assigned: autoAssigned });
+      await notifyRequester(task, project, reviewer);
+      await notifyAssignee(task, project, reviewer, autoAssigned);
+      RealtimeService.emitTaskEvent('task:updated', userId, { task });
+
+      res.json({ message: 'Task approved', task });
+    } catch (error) {
+      console.error('Error approving task:', error);
+      res.status(500).json({ error: 'Failed to approve task' });
+    }
+  }
+
+  // Reject a task awaiting approval, with a reason for the requester
+  static async rejectTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId, taskId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { reason } = rejectTaskSchema.parse(req.body);
+
+      const access = await Policy.sharedProject(userId, 'review_tasks', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { project, share } = access.resource;
+
+      const existing = await TaskModel.findInProject(taskId, projectId);
+      if (!existing) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      const task = await TaskModel.reject(taskId, userId, reason);
+      if (!task) {
+        res.status(409).json({ error: `Task is ${existing.status}, not awaiting approval` });
+        return;
+      }
+
+      await ActivityService.recordChanges(userId, existing, task, { reason });
+      await notifyRequester(task, project, { id: userId, name: req.userName });
+      RealtimeService.emitTaskEvent('task:updated', userId, { task });
+
+      res.json({ message: 'Task rejected', task });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error rejecting task:', error);
+      res.status(500).json({ error: 'Failed to reject task' });
+    }
+  }
+
+  // Send a rejected task back for approval (the requester, usually after editing it)
+  static async resubmitTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      const { teamId, projectId, taskId } = req.params;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.sharedProject(userId, 'read', projectId, teamId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const existing = await TaskModel.findInProject(taskId, projectId);
+      if (!existing || existing.user_id !== userId) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      const task = await TaskModel.resubmit(taskId, userId);
+      if (!task) {
+        res.status(409).json({ error: 'Only rejected tasks can be resubmitted' });
+        return;
+      }
+
+      await ActivityService.recordChanges(userId, existing, task);
+      RealtimeService.emitTaskEvent('task:updated', userId, { task });
+
+      res.json({ message: 'Task resubmitted for approval', task });
+    } catch (error) {
+      console.error('Error resubmitting task:', error);
+      res.status(500).json({ error: 'Failed to resubmit task' });
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { TagModel } from '../models/Tag';
+import { z } from 'zod';
+
+// Validation schemas
+const createTagSchema = z.object({
+  label: z.string().trim().min(1).max(50),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional()
+});
+
+const updateTagSchema = createTagSchema.partial();
+
+const mergeTagsSchema = z.object({
+  source_ids: z.array(z.string().min(1)).min(1).max(100)
+});
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+export class TagController {
+  // List the current user's tags with usage counts
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const tags = await TagModel.list(userId);
+
+      res.json({ tags, count: tags.length });
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      res.status(500).json({ error: 'Failed to fetch tags' });
+    }
+  }
+
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const tag = await TagModel.findById(userId, req.params.id);
+      if (!tag) {
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      res.json({ tag });
+    } catch (error) {
+      console.error('Error fetching tag:', error);
+      res.status(500).json({ error: 'Failed to fetch tag' });
+    }
+  }
+
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const validatedData = createTagSchema.parse(req.body);
+
+      const tag = await TagModel.create({ user_id: userId, ...validatedData });
+
+      res.status(201).json({ message: 'Tag created successfully', tag });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (isUniqueViolation(error)) {
+        res.status(409).json({ error: 'A tag with this label already exists' });
+        return;
+      }
+      console.error('Error creating tag:', error);
+      res.status(500).json({ error: 'Failed to create tag' });
+    }
+  }
+
+  // Rename or recolor; every task carrying the tag is updated too
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const validatedData = updateTagSchema.parse(req.body);
+      if (Object.keys(validatedData).length === 0) {
+        res.status(400).json({ error: 'No fields to update' });
+        return;
+      }
+
+      const tag = await TagModel.update(userId, req.params.id, validatedData);
+      if (!tag) {
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      res.json({ message: 'Tag updated successfully', tag });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (isUniqueViolation(error)) {
+        res.status(409).json({ error: 'A tag with this label already exists' });
+        return;
+      }
+      console.error('Error updating tag:', error);
+      res.status(500).json({ error: 'Failed to update tag' });
+    }
+  }
+
+  // Merge other tags into this one; the sources are deleted
+  static async merge(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      const { source_ids } = mergeTagsSchema.parse(req.body);
+
+      if (source_ids.includes(id)) {
+        res.status(400).json({ error: 'A tag cannot be merged into itself' });
+        return;
+      }
+
+      const { missing } = await TagModel.resolve(userId, source_ids);
+      if (missing.length > 0) {
+        res.status(404).json({ error: 'Tags not found', tag_ids: missing });
+        return;
+      }
+
+      const merged = await TagModel.merge(userId, id, source_ids);
+      if (!merged) {
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      const tag = await TagModel.findById(userId, id);
+
+      res.json({ message: 'Tags merged successfully', tag, merged_ids: Array.from(new Set(source_ids)) });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error merging tags:', error);
+      res.status(500).json({ error: 'Failed to merge tags' });
+    }
+  }
+
+  // Delete a tag and remove it from every task
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const deleted = await TagModel.delete(userId, req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      res.json({ message: 'Tag deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      res.status(500).json({ error: 'Failed to delete tag' });
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Task } from '../models/Task';
+import { TaskComment, TaskCommentModel, COMMENT_LISTING } from '../models/TaskComment';
+import { UserModel } from '../models/User';
+import { Policy } from '../policies';
+import { RealtimeService } from '../services/realtime.service';
+import { NotificationController } from './notification.controller';
+import { ListQueryError, parseListQuery } from '../utils/listing';
+import { mentionsToText, parseMentions, renderMarkdown } from '../utils/markdown';
+
+export const MAX_COMMENT_LENGTH = 10000;
+export const MAX_MENTIONS = 20;
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1).max(MAX_COMMENT_LENGTH)
+});
+
+// What clients see: deleted comments keep their place in the thread but lose their content
+function present(comment: TaskComment) {
+  if (comment.deleted_at) {
+    return { ...comment, body: null, body_html: null, mentions: [] };
+  }
+  return { ...comment, body_html: renderMarkdown(comment.body, new Set(comment.mentions)) };
+}
+
+// Mentioned users who can read the task; anyone else is left as plain text
+async function resolveMentions(task: Task, authorId: string, body: string): Promise<string[]> {
+  const candidates = parseMentions(body)
+    .map(mention => mention.userId)
+    .filter(userId => userId !== authorId)
+    .slice(0, MAX_MENTIONS);
+
+  const decisions = await Promise.all(candidates.map(userId => Policy.task(userId, 'read', task.id)));
+  return candidates.filter((_, i) => decisions[i].allowed);
+}
+
+// Push and email each newly mentioned user; failures are logged so they never undo the comment
+async function notifyMentions(task: Task, comment: TaskComment, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  RealtimeService.emitToUsers(userIds, 'comment:mentioned', {
+    taskId: task.id,
+    taskTitle: task.title,
+    comment: present(comment) as TaskComment
+  });
+
+  for (const userId of userIds) {
+    try {
+      const recipient = await UserModel.findById(userId);
+      if (!recipient) {
+        continue;
+      }
+
+      await NotificationController.sendMention(recipient, {
+        task: { id: task.id, title: task.title },
+        comment: {
+          id: comment.id,
+          excerpt: mentionsToText(comment.body).slice(0, 500),
+          created_at: comment.edited_at || comment.created_at
+        },
+        authorName: comment.author?.name || 'A teammate'
+      });
+    } catch (error) {
+      console.error(`Error notifying ${userId} of mention in comment ${comment.id}:`, error);
+    }
+  }
+}
+
+export class TaskCommentController {
+  // A page of the task's comment thread
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const listQuery = parseListQuery(COMMENT_LISTING, req.query);
+
+      const access = await Policy.task(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const page = await TaskCommentModel.listForTask(id, listQuery);
+
+      res.json({
+        comments: page.items.map(present),
+        count: page.items.length,
+        sort: listQuery.sortKey,
+        next_cursor: page.next_cursor,
+        has_more: page.has_more
+      });
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error fetching comments:', error);
+      res.status(500).json({ error: 'Failed to fetch comments' });
+    }
+  }
+
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { body } = commentSchema.parse(req.body);
+
+      const access = await Policy.task(userId, 'comment', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { task } = access.resource;
+      const mentions = await resolveMentions(task, userId, body);
+      const comment = await TaskCommentModel.create({ task_id: task.id, author_id: userId, body, mentions });
+
+      RealtimeService.emitCommentEvent('comment:created', userId, task, present(comment) as TaskComment);
+      await notifyMentions(task, comment, mentions);
+
+      res.status(201).json({
+        message: 'Comment added successfully',
+        comment: present(comment)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error adding comment:', error);
+      res.status(500).json({ error: 'Failed to add comment' });
+    }
+  }
+
+  // Only the author can edit; the previous body is kept as a revision
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id, commentId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { body } = commentSchema.parse(req.body);
+
+      const access = await Policy.task(userId, 'comment', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { task } = access.resource;
+      const existing = await TaskCommentModel.findById(task.id, commentId);
+      if (!existing || existing.deleted_at) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+      if (existing.author_id !== userId) {
+        res.status(403).json({ error: 'Only the author can edit this comment' });
+        return;
+      }
+
+      const mentions = await resolveMentions(task, userId, body);
+      const comment = await TaskCommentModel.update(existing.id, body, mentions);
+      if (!comment) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      RealtimeService.emitCommentEvent('comment:updated', userId, task, present(comment) as TaskComment);
+      await notifyMentions(task, comment, mentions.filter(mentioned => !existing.mentions.includes(mentioned)));
+
+      res.json({
+        message: 'Comment updated successfully',
+        comment: present(comment)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error updating comment:', error);
+      res.status(500).json({ error: 'Failed to update comment' });
+    }
+  }
+
+  // Authors can remove their own comments; the task's creator and project managers can remove any
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id, commentId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.task(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { task } = access.resource;
+      const existing = await TaskCommentModel.findById(task.id, commentId);
+      if (!existing || existing.deleted_at) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      if (existing.author_id !== userId) {
+        const moderation = await Policy.task(userId, 'moderate_comments', id);
+        if (!moderation.allowed) {
+          res.status(moderation.status).json({ error: moderation.error });
+          return;
+        }
+      }
+
+      const comment = await TaskCommentModel.softDelete(existing.id, userId);
+      if (!comment) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      RealtimeService.emitCommentEvent('comment:deleted', userId, task, present(comment) as TaskComment);
+
+      res.json({
+        message: 'Comment deleted successfully',
+        comment: present(comment)
+      });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      res.status(500).json({ error: 'Failed to delete comment' });
+    }
+  }
+
+  // Edit history of a live comment, oldest first
+  static async getRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id, commentId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.task(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const comment = await TaskCommentModel.findById(access.resource.task.id, commentId);
+      if (!comment || comment.deleted_at) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      const revisions = await TaskCommentModel.listRevisions(comment.id);
+
+      res.json({
+        comment: present(comment),
+        revisions
+      });
+    } catch (error) {
+      console.error('Error fetching comment revisions:', error);
+      res.status(500).json({ error: 'Failed to fetch comment revisions' });
+    }
+  }
+}
@@ -1,13 +1,20 @@
 import { Request, Response } from 'express';
-import { TaskModel, CreateTaskData } from '../models/Task';
+import { TaskModel, Task, CreateTaskData, TASK_LISTING, TASK_STATUSES } from '../models/Task';
+import { TagModel } from '../models/Tag';
+import { ListQueryError, parseListQuery } from '../utils/listing';
+import { RecurrenceService } from '../services/recurrence.service';
+import { RealtimeService } from '../services/realtime.service';
+import { ActivityService, diffTask } from '../services/activity.service';
+import { TrashError, TrashService } from '../services/trash.service';
+import { MAX_SUBTASKS, SubtaskError, SubtaskService } from '../services/subtask.service';
+import { TaskStatusError, TaskStatusService } from '../services/task-status.service';
+import { Policy } from '../policies';
 import { z } from 'zod';
 
-// Tag schema
-const tagSchema = z.object({
-  id: z.string(),
-  label: z.string(),
-  color: z.string()
-});
+// Tags are picked from the user's catalog by id (bare ids or { id, ... } objects);
+// labels and colors are copied from the catalog, not taken from the request
+const tagRefSchema = z.union([z.string().min(1), z.object({ id: z.string().min(1) }).passthrough()])
+  .transform(tag => (typeof tag === 'string' ? tag : tag.id));
 
 // Subtask schema
 const subtaskSchema = z.object({
@@ -17,13 +24,6 @@ const subtaskSchema = z.object({
   created_at: z.string()
 });
 
-// Note schema
-const noteSchema = z.object({
-  id: z.string(),
-  text: z.string(),
-  created_at: z.string()
-});
-
 // Recurrence schema
 const recurrenceSchema = z.object({
   frequency: z.enum(['none', 'daily', 'weekly', 'monthly']),
@@ -35,7 +35,7 @@ const recurrenceSchema = z.object({
 });
 
 // Validation schemas
-const createTaskSchema = z.object({
+export const createTaskSchema = z.object({
   title: z.string().min(1).max(500),
   description: z.string().max(2000).optional(),
   energy_requirement: z.number().int().min(1).max(5).optional(),
@@ -43,10 +43,10 @@ const createTaskSchema = z.object({
   project_id: z.string().uuid().optional(),
   due_date: z.string().datetime().optional(),
   estimated_duration: z.number().int().positive().optional(),
-  tags: z.array(tagSchema).optional(),
+  tags: z.array(tagRefSchema).max(50).optional(),
   subtasks: z.array(subtaskSchema).optional(),
-  notes: z.array(noteSchema).optional(),
   recurrence: recurrenceSchema.optional(),
+  complete_with_subtasks: z.boolean().optional(),
 });
 
 const updateTaskSchema = createTaskSchema.partial();
@@ -56,6 +56,89 @@ const completeTaskSchema = z.object({
   current_energy_level: z.number().int().min(1).max(5).optional(),
 });
 
+// Approval statuses are set by the approval endpoints only
+const setStatusSchema = completeTaskSchema.extend({
+  status: z.enum(TASK_STATUSES).exclude(['awaiting_approval', 'rejected'])
+});
+
+const reopenTaskSchema = z.object({
+  status: z.enum(['backlog', 'pending', 'in_progress']).optional()
+});
+
+const addSubtaskSchema = z.object({
+  text: z.string().trim().min(1).max(500)
+});
+
+const updateSubtaskSchema = z.object({
+  text: z.string().trim().min(1).max(500).optional(),
+  completed: z.boolean().optional()
+});
+
+const reorderSubtasksSchema = z.object({
+  ids: z.array(z.string().min(1)).max(MAX_SUBTASKS)
+});
+
+// Subtask writes need the same access as editing the task; ticking one off only needs 'complete'
+const subtaskAction = (changes: { text?: string }) => (changes.text === undefined ? 'complete' : 'update');
+
+// Complete a task and roll recurring tasks over to their next instance;
+// the scheduled sweep retries any rollover that fails here
+async function completeTask(actorId: string, task: Task, actualDuration?: number, currentEnergyLevel?: number) {
+  TaskStatusService.assertTransition(task, 'completed');
+
+  const result = await TaskModel.complete(task, actualDuration, currentEnergyLevel);
+  if (!result) {
+    throw new TaskStatusError('Task status has changed; reload it and try again', 409);
+  }
+
+  await ActivityService.record('completed', actorId, result.task, {
+    changes: { status: { from: task.status, to: result.task.status } },
+    metadata: {
+      points_earned: result.points_earned,
+      bonus_points: result.bonus_points,
+      actual_duration: result.task.actual_duration ?? null
+    }
+  });
+
+  let nextInstance = null;
+  try {
+    nextInstance = await RecurrenceService.generateNextInstance(result.task);
+  } catch (recurrenceError) {
+    console.error('Error generating next recurring instance:', recurrenceError);
+  }
+
+  RealtimeService.emitTaskEvent('task:completed', actorId, {
+    task: result.task,
+    points_earned: result.points_earned,
+    bonus_points: result.bonus_points
+  });
+  if (nextInstance) {
+    RealtimeService.emitTaskEvent('task:created', actorId, { task: nextInstance });
+  }
+
+  return { ...result, next_instance: nextInstance };
+}
+
+// Log and broadcast a subtask change, and complete the parent if it opted in and nothing is left open
+async function afterSubtaskChange(actorId: string, before: Task, task: Task, subtask: Record<string, unknown>) {
+  await ActivityService.record('updated', actorId, task, { changes: diffTask(before, task), metadata: { subtask } });
+
+  if (SubtaskService.shouldCompleteParent(task)) {
+    try {
+      const { task: completed, ...completion } = await completeTask(actorId, task);
+      return { task: completed, auto_completed: completion };
+    } catch (error) {
+      // Someone else moved the task on; the subtask change still stands
+      if (!(error instanceof TaskStatusError)) {
+        throw error;
+      }
+    }
+  }
+
+  RealtimeService.emitTaskEvent('task:updated', actorId, { task });
+  return { task, auto_completed: null };
+}
+
 export class TaskController {
   // Create task
   static async create(req: Request, res: Response): Promise<void> {
@@ -68,13 +151,31 @@ export class TaskController {
       }
 
       const validatedData = createTaskSchema.parse(req.body);
+
+      if (validatedData.project_id) {
+        const access = await Policy.project(userId, 'add_task', validatedData.project_id);
+        if (!access.allowed) {
+          res.status(access.status).json({ error: access.error });
+          return;
+        }
+      }
+
+      const tags = validatedData.tags && (await TagModel.resolve(userId, validatedData.tags));
+      if (tags && tags.missing.length > 0) {
+        res.status(400).json({ error: 'Unknown tags', tag_ids: tags.missing });
+        return;
+      }
       
       const task = await TaskModel.create({
         user_id: userId,
         ...validatedData,
+        tags: tags?.tags,
         due_date: validatedData.due_date ? new Date(validatedData.due_date) : undefined
       } as CreateTaskData);
 
+      await ActivityService.record('created', userId, task);
+      RealtimeService.emitTaskEvent('task:created', userId, { task });
+
       res.status(201).json({
         message: 'Task created successfully',
         task
@@ -92,58 +193,54 @@ export class TaskController {
   // Get tasks (with optional energy matching)
   static async getTasks(req: Request, res: Response): Promise<void> {
     try {
-      console.log('[getTasks] Starting request');
       const userId = (req as any).userId;
-      console.log('[getTasks] UserId:', userId);
-      console.log('[getTasks] Auth object:', req.auth);
-      
+
       if (!userId) {
-        console.log('[getTasks] No userId found, returning 401');
         res.status(401).json({ error: 'Authentication required' });
         return;
       }
 
       const energyLevel = req.query.energy_level ? parseInt(req.query.energy_level as string) : null;
-      const status = req.query.status as string;
-      const projectId = req.query.project_id as string;
-      const priority = req.query.priority ? parseInt(req.query.priority as string) : undefined;
-      const limit = parseInt(req.query.limit as string) || 100;
-      const offset = parseInt(req.query.offset as string) || 0;
-
-      console.log('[getTasks] Fetching tasks with filters:', { energyLevel, status, projectId, priority });
-
-      let tasks;
 
       if (energyLevel) {
-        // Get tasks with energy matching
-        console.log('[getTasks] Using energy matching');
-        tasks = await TaskModel.getTasksWithEnergyMatch(userId, energyLevel, {
+        // Energy matching ranks pending tasks by fit with the current energy level; no paging
+        const status = req.query.status as string;
+        const projectId = req.query.project_id as string;
+        const priority = req.query.priority ? parseInt(req.query.priority as string) : undefined;
+
+        const tasks = await TaskModel.getTasksWithEnergyMatch(userId, energyLevel, {
           status,
           project_id: projectId,
           priority
         });
-      } else {
-        // Get regular tasks
-        console.log('[getTasks] Using regular task fetch');
-        tasks = await TaskModel.getUserTasks(userId, {
-          status,
-          project_id: projectId,
-          priority
-        }, limit, offset);
+
+        res.json({
+          tasks,
+          count: tasks.length,
+          energy_matched: true,
+          filters: { status, project_id: projectId, priority, energy_level: energyLevel }
+        });
+        return;
       }
 
-      console.log('[getTasks] Tasks fetched successfully, count:', tasks.length);
+      const listQuery = parseListQuery(TASK_LISTING, req.query);
+      const page = await TaskModel.getUserTasks(userId, listQuery);
 
       res.json({
-        tasks,
-        count: tasks.length,
-        energy_matched: !!energyLevel,
-        filters: { status, project_id: projectId, priority, energy_level: energyLevel }
+        tasks: page.items,
+        count: page.items.length,
+        energy_matched: false,
+        sort: listQuery.sortKey,
+        next_cursor: page.next_cursor,
+        has_more: page.has_more
       });
     } catch (error) {
+      if (error instanceof ListQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error('[getTasks] Error fetching tasks:', error);
-      console.error('[getTasks] Error stack:', (error as Error).stack);
-      res.status(500).json({ 
+      res.status(500).json({
         error: 'Failed to fetch tasks',
         message: (error as Error).message
       });
@@ -161,14 +258,13 @@ export class TaskController {
         return;
       }
 
-      const task = await TaskModel.findById(id, userId);
-
-      if (!task) {
-        res.status(404).json({ error: 'Task not found' });
+      const access = await Policy.task(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
         return;
       }
 
-      res.json({ task });
+      res.json({ task: access.resource.task });
     } catch (error) {
       console.error('Error fetching task:', error);
       res.status(500).json({ error: 'Failed to fetch task' });
@@ -188,11 +284,38 @@ export class TaskController {
 
       const validatedData = updateTaskSchema.parse(req.body);
 
-      const task = await TaskModel.update(id, userId, {
+      const access = await Policy.task(userId, 'update', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+      const existing = access.resource.task;
+
+      // Moving a task into another project needs the same access as creating it there
+      if (validatedData.project_id && validatedData.project_id !== existing.project_id) {
+        const projectAccess = await Policy.project(userId, 'add_task', validatedData.project_id);
+        if (!projectAccess.allowed) {
+          res.status(projectAccess.status).json({ error: projectAccess.error });
+          return;
+        }
+      }
+
+      // Tags come from the task owner's catalog, whoever is editing
+      const tags = validatedData.tags && (await TagModel.resolve(existing.user_id, validatedData.tags));
+      if (tags && tags.missing.length > 0) {
+        res.status(400).json({ error: 'Unknown tags', tag_ids: tags.missing });
+        return;
+      }
+
+      const task = await TaskModel.update(id, existing.user_id, {
         ...validatedData,
+        tags: tags?.tags,
         due_date: validatedData.due_date ? new Date(validatedData.due_date) : undefined
       });
 
+      await ActivityService.recordChanges(userId, existing, task);
+      RealtimeService.emitTaskEvent('task:updated', userId, { task });
+
       res.json({
         message: 'Task updated successfully',
         task
@@ -220,9 +343,16 @@ export class TaskController {
 
       const validatedData = completeTaskSchema.parse(req.body);
 
-      const result = await TaskModel.complete(
-        id,
+      const access = await Policy.task(userId, 'complete', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+      const existing = access.resource.task;
+
+      const result = await completeTask(
         userId,
+        existing,
         validatedData.actual_duration,
         validatedData.current_energy_level
       );
@@ -232,20 +362,159 @@ export class TaskController {
         task: result.task,
         points_earned: result.points_earned,
         bonus_points: result.bonus_points,
-        energy_match_bonus: result.bonus_points > 0
+        energy_match_bonus: result.bonus_points > 0,
+        next_instance: result.next_instance
       });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: 'Validation failed', details: error.errors });
         return;
       }
+      if (error instanceof TaskStatusError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
       console.error('Error completing task:', error);
       res.status(500).json({ error: 'Failed to complete task' });
     }
   }
 
-  // Delete task
-  static async delete(req: Request, res: Response): Promise<void> {
+  // Move a task through the status workflow; moving to completed completes it as above
+  static async setStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const validatedData = setStatusSchema.parse(req.body);
+
+      // Working a task through its statuses needs the same access as completing it
+      const access = await Policy.task(userId, 'complete', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+      const existing = access.resource.task;
+
+      if (validatedData.status === 'completed') {
+        const result = await completeTask(
+          userId,
+          existing,
+          validatedData.actual_duration,
+          validatedData.current_energy_level
+        );
+
+        res.json({
+          message: 'Task completed successfully',
+          task: result.task,
+          points_earned: result.points_earned,
+          bonus_points: result.bonus_points,
+          energy_match_bonus: result.bonus_points > 0,
+          next_instance: result.next_instance
+        });
+        return;
+      }
+
+      const result = await TaskStatusService.transition(userId, existing, validatedData.status);
+
+      res.json({
+        message: 'Task status updated',
+        task: result.task,
+        points_reversed: result.points_reversed
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (error instanceof TaskStatusError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error updating task status:', error);
+      res.status(500).json({ error: 'Failed to update task status' });
+    }
+  }
+
+  // Reopen a completed or cancelled task (as pending unless another open status is given);
+  // reopening a completed task takes back the points it earned
+  static async reopen(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const validatedData = reopenTaskSchema.parse(req.body);
+
+      const access = await Policy.task(userId, 'complete', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+      const existing = access.resource.task;
+
+      if (existing.status !== 'completed' && existing.status !== 'cancelled') {
+        res.status(409).json({ error: 'Only completed or cancelled tasks can be reopened' });
+        return;
+      }
+
+      const result = await TaskStatusService.transition(userId, existing, validatedData.status || 'pending');
+
+      res.json({
+        message: 'Task reopened',
+        task: result.task,
+        points_reversed: result.points_reversed
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (error instanceof TaskStatusError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error reopening task:', error);
+      res.status(500).json({ error: 'Failed to reopen task' });
+    }
+  }
+
+  // Get the task's status changes, time spent in each status and cycle time
+  static async getStatusHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.task(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const history = await TaskStatusService.history(access.resource.task);
+
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching task status history:', error);
+      res.status(500).json({ error: 'Failed to fetch task status history' });
+    }
+  }
+
+  // Get every instance in the task's recurring series
+  static async getSeries(req: Request, res: Response): Promise<void> {
     try {
       const userId = (req as any).userId;
       const { id } = req.params;
@@ -255,15 +524,52 @@ export class TaskController {
         return;
       }
 
-      const deleted = await TaskModel.delete(id, userId);
+      const access = await Policy.task(userId, 'read', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+      const { task } = access.resource;
 
-      if (!deleted) {
-        res.status(404).json({ error: 'Task not found' });
+      const seriesId = task.series_id || task.id;
+      const tasks = await TaskModel.getSeriesTasks(seriesId, task.user_id);
+
+      res.json({
+        series_id: seriesId,
+        tasks,
+        count: tasks.length
+      });
+    } catch (error) {
+      console.error('Error fetching task series:', error);
+      res.status(500).json({ error: 'Failed to fetch task series' });
+    }
+  }
+
+  // Move a task to the trash; it can be restored until the trash is purged
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+      
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
         return;
       }
 
-      res.json({ message: 'Task deleted successfully' });
+      const access = await Policy.task(userId, 'delete', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const task = await TrashService.trashTask(userId, access.resource.task);
+
+      res.json({ message: 'Task moved to trash', task });
     } catch (error) {
+      if (error instanceof TrashError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
       console.error('Error deleting task:', error);
       res.status(500).json({ error: 'Failed to delete task' });
     }
@@ -287,4 +593,292 @@ export class TaskController {
       res.status(500).json({ error: 'Failed to fetch task statistics' });
     }
   }
+
+  // Get pending shared project tasks assigned to the current user
+  static async getAssigned(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const limit = parseInt(req.query.limit as string) || 100;
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const tasks = await TaskModel.getAssignedTasks(userId, limit, offset);
+
+      res.json({ tasks, count: tasks.length });
+    } catch (error) {
+      console.error('Error fetching assigned tasks:', error);
+      res.status(500).json({ error: 'Failed to fetch assigned tasks' });
+    }
+  }
+
+  // Add a subtask to the end of the list
+  static async addSubtask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { text } = addSubtaskSchema.parse(req.body);
+
+      const access = await Policy.task(userId, 'update', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const added = await SubtaskService.add(id, text);
+      if (!added) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      await ActivityService.record('updated', userId, added.task, {
+        changes: diffTask(access.resource.task, added.task),
+        metadata: { subtask: { operation: 'added', id: added.subtask.id, text: added.subtask.text } }
+      });
+      RealtimeService.emitTaskEvent('task:updated', userId, { task: added.task });
+
+      res.status(201).json({
+        message: 'Subtask added successfully',
+        task: added.task,
+        subtask: added.subtask
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (error instanceof SubtaskError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error adding subtask:', error);
+      res.status(500).json({ error: 'Failed to add subtask' });
+    }
+  }
+
+  // Edit a subtask's text and/or completion
+  static async updateSubtask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id, subtaskId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const changes = updateSubtaskSchema.parse(req.body);
+      if (Object.keys(changes).length === 0) {
+        res.status(400).json({ error: 'No fields to update' });
+        return;
+      }
+
+      const access = await Policy.task(userId, subtaskAction(changes), id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const task = await SubtaskService.update(id, subtaskId, changes);
+      if (!task) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      res.json({
+        message: 'Subtask updated successfully',
+        ...(await afterSubtaskChange(userId, access.resource.task, task, { operation: 'edited', id: subtaskId, ...changes }))
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (error instanceof SubtaskError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error updating subtask:', error);
+      res.status(500).json({ error: 'Failed to update subtask' });
+    }
+  }
+
+  // Flip a subtask between done and not done
+  static async toggleSubtask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id, subtaskId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.task(userId, 'complete', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const task = await SubtaskService.toggle(id, subtaskId);
+      if (!task) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      res.json({
+        message: 'Subtask toggled successfully',
+        ...(await afterSubtaskChange(userId, access.resource.task, task, { operation: 'toggled', id: subtaskId }))
+      });
+    } catch (error: any) {
+      if (error instanceof SubtaskError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error toggling subtask:', error);
+      res.status(500).json({ error: 'Failed to toggle subtask' });
+    }
+  }
+
+  // Put the subtasks in the given order
+  static async reorderSubtasks(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { ids } = reorderSubtasksSchema.parse(req.body);
+
+      const access = await Policy.task(userId, 'update', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const task = await SubtaskService.reorder(id, ids);
+      if (!task) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      await ActivityService.record('updated', userId, task, { metadata: { subtask: { operation: 'reordered' } } });
+      RealtimeService.emitTaskEvent('task:updated', userId, { task });
+
+      res.json({ message: 'Subtasks reordered successfully', task });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      if (error instanceof SubtaskError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error reordering subtasks:', error);
+      res.status(500).json({ error: 'Failed to reorder subtasks' });
+    }
+  }
+
+  // Delete a subtask; removing the last open one can complete the parent
+  static async deleteSubtask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id, subtaskId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.task(userId, 'update', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const task = await SubtaskService.remove(id, subtaskId);
+      if (!task) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      res.json({
+        message: 'Subtask deleted successfully',
+        ...(await afterSubtaskChange(userId, access.resource.task, task, { operation: 'removed', id: subtaskId }))
+      });
+    } catch (error: any) {
+      if (error instanceof SubtaskError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error deleting subtask:', error);
+      res.status(500).json({ error: 'Failed to delete subtask' });
+    }
+  }
+
+  // Turn a subtask into its own task, which the parent then depends on
+  static async promoteSubtask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id, subtaskId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const access = await Policy.task(userId, 'update', id);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+
+      const { parent, task, dependency_id } = await SubtaskService.promote(id, subtaskId);
+
+      await ActivityService.record('created', userId, task, {
+        metadata: { promoted_from: { task_id: parent.id, subtask_id: subtaskId } }
+      });
+      await ActivityService.record('dependency_added', userId, parent, {
+        metadata: { dependency_id, depends_on_task_id: task.id, type: 'requires' }
+      });
+      RealtimeService.emitTaskEvent('task:created', userId, { task });
+
+      // The parent now requires the still-open promoted task, so it is never auto-completed here,
+      // even when the promoted subtask was its last open one
+      await ActivityService.record('updated', userId, parent, {
+        changes: diffTask(access.resource.task, parent),
+        metadata: { subtask: { operation: 'promoted', id: subtaskId, task_id: task.id } }
+      });
+      RealtimeService.emitTaskEvent('task:updated', userId, { task: parent });
+
+      res.status(201).json({
+        message: 'Subtask promoted successfully',
+        task: parent,
+        auto_completed: null,
+        promoted_task: task,
+        dependency_id
+      });
+    } catch (error: any) {
+      if (error instanceof SubtaskError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error promoting subtask:', error);
+      res.status(500).json({ error: 'Failed to promote subtask' });
+    }
+  }
 }
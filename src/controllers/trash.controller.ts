@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { TrashError, TrashService } from '../services/trash.service';
+
+export class TrashController {
+  // Deleted tasks and projects that can still be restored
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const trash = await TrashService.list(userId);
+
+      res.json({ ...trash, retention_days: TrashService.retentionDays });
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      res.status(500).json({ error: 'Failed to fetch trash' });
+    }
+  }
+
+  static async restoreTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const task = await TrashService.restoreTask(userId, id);
+
+      res.json({ message: 'Task restored successfully', task });
+    } catch (error) {
+      if (error instanceof TrashError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error restoring task:', error);
+      res.status(500).json({ error: 'Failed to restore task' });
+    }
+  }
+
+  static async restoreProject(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { project, tasks } = await TrashService.restoreProject(userId, id);
+
+      res.json({ message: 'Project restored successfully', project, tasks });
+    } catch (error) {
+      if (error instanceof TrashError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error restoring project:', error);
+      res.status(500).json({ error: 'Failed to restore project' });
+    }
+  }
+
+  // Permanently delete one task from the trash
+  static async purgeTask(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await TrashService.purgeTask(userId, id);
+
+      res.json({ message: 'Task permanently deleted' });
+    } catch (error) {
+      if (error instanceof TrashError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error purging task:', error);
+      res.status(500).json({ error: 'Failed to delete task' });
+    }
+  }
+
+  // Permanently delete one project, and the tasks deleted with it, from the trash
+  static async purgeProject(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await TrashService.purgeProject(userId, id);
+
+      res.json({ message: 'Project permanently deleted' });
+    } catch (error) {
+      if (error instanceof TrashError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('Error purging project:', error);
+      res.status(500).json({ error: 'Failed to delete project' });
+    }
+  }
+
+  static async empty(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).userId;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const deleted = await TrashService.empty(userId);
+
+      res.json({ message: 'Trash emptied', deleted });
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      res.status(500).json({ error: 'Failed to empty trash' });
+    }
+  }
+}
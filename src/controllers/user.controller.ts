@@ -1,55 +1,43 @@
 import { Request, Response } from 'express';
-import { UserModel, CreateUserData } from '../models/User';
+import { User, UserModel } from '../models/User';
+import { AccountDeletionService } from '../services/account-deletion.service';
+import { isValidLocale } from '../utils/locale';
+import { isValidTimeZone } from '../utils/timezone';
 import { z } from 'zod';
 
 // Validation schemas
-const createUserSchema = z.object({
-  email: z.string().email(),
-  name: z.string().min(1).max(255),
-  avatar_url: z.string().url().optional(),
-  timezone: z.string().optional(),
-});
-
 const updateUserSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   avatar_url: z.string().url().optional(),
-  timezone: z.string().optional(),
+  // Both end up in Intl calls when scheduled emails are rendered
+  timezone: z.string().refine(isValidTimeZone, 'Invalid IANA time zone').optional(),
+  locale: z.string().max(35).refine(isValidLocale, 'Unsupported locale').optional(),
+});
+
+const deleteUserSchema = z.object({
+  confirm_email: z.string().email(),
+  transfer_ownership: z.boolean().optional()
 });
 
+const deletionStatus = (user: User) => ({
+  pending: !!user.deletion_scheduled_for,
+  requested_at: user.deletion_requested_at || null,
+  scheduled_for: user.deletion_scheduled_for || null
+});
+
+// Routes for the signed-in user; other accounts are only reachable through the admin API
 export class UserController {
-  // Create a new user
-  static async create(req: Request, res: Response): Promise<void> {
+  // Get the current user
+  static async getMe(req: Request, res: Response): Promise<void> {
     try {
-      const validatedData = createUserSchema.parse(req.body);
-      
-      // Check if user already exists
-      const existingUser = await UserModel.findByEmail(validatedData.email);
-      if (existingUser) {
-        res.status(400).json({ error: 'User with this email already exists' });
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
         return;
       }
 
-      const user = await UserModel.create(validatedData as CreateUserData);
-      res.status(201).json({ 
-        message: 'User created successfully',
-        user 
-      });
-    } catch (error: any) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ error: 'Validation failed', details: error.errors });
-        return;
-      }
-      console.error('Error creating user:', error);
-      res.status(500).json({ error: 'Failed to create user' });
-    }
-  }
+      const user = await UserModel.findById(userId);
 
-  // Get user by ID
-  static async getById(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const user = await UserModel.findById(id);
-      
       if (!user) {
         res.status(404).json({ error: 'User not found' });
         return;
@@ -62,32 +50,22 @@ export class UserController {
     }
   }
 
-  // Get all users
-  static async getAll(req: Request, res: Response): Promise<void> {
+  // Update the current user
+  static async updateMe(req: Request, res: Response): Promise<void> {
     try {
-      const limit = parseInt(req.query.limit as string) || 100;
-      const offset = parseInt(req.query.offset as string) || 0;
-      
-      const users = await UserModel.findAll(limit, offset);
-      res.json({ 
-        users,
-        count: users.length,
-        limit,
-        offset
-      });
-    } catch (error) {
-      console.error('Error fetching users:', error);
-      res.status(500).json({ error: 'Failed to fetch users' });
-    }
-  }
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
 
-  // Update user
-  static async update(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
       const validatedData = updateUserSchema.parse(req.body);
-      
-      const user = await UserModel.update(id, validatedData);
+      if (Object.keys(validatedData).length === 0) {
+        res.status(400).json({ error: 'No fields to update' });
+        return;
+      }
+
+      const user = await UserModel.update(userId, validatedData);
       res.json({ 
         message: 'User updated successfully',
         user 
@@ -102,21 +80,101 @@ export class UserController {
     }
   }
 
-  // Delete user
-  static async delete(req: Request, res: Response): Promise<void> {
+  // Request deletion of the current user; the account is purged after the grace period
+  static async deleteMe(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const deleted = await UserModel.delete(id);
-      
-      if (!deleted) {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { confirm_email, transfer_ownership } = deleteUserSchema.parse(req.body);
+
+      const user = await UserModel.findById(userId);
+      if (!user) {
         res.status(404).json({ error: 'User not found' });
         return;
       }
 
-      res.json({ message: 'User deleted successfully' });
+      if (confirm_email.trim().toLowerCase() !== user.email.toLowerCase()) {
+        res.status(400).json({ error: 'confirm_email does not match your account email' });
+        return;
+      }
+
+      if (user.deletion_scheduled_for) {
+        res.status(409).json({ error: 'Account deletion already requested', deletion: deletionStatus(user) });
+        return;
+      }
+
+      // Teams with other members are handed over on purge, but only with the owner's consent
+      const teams = await AccountDeletionService.getTeamsToTransfer(userId);
+      if (teams.length > 0 && !transfer_ownership) {
+        res.status(409).json({
+          error: 'You own teams with other members. Transfer them first or set transfer_ownership to true',
+          teams
+        });
+        return;
+      }
+
+      const updated = await AccountDeletionService.request(userId);
+
+      res.status(202).json({
+        message: 'Account deletion scheduled',
+        deletion: deletionStatus(updated),
+        teams_to_transfer: teams
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return;
+      }
+      console.error('Error requesting account deletion:', error);
+      res.status(500).json({ error: 'Failed to request account deletion' });
+    }
+  }
+
+  // Get the current user's pending deletion, if any
+  static async getDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.json({ deletion: deletionStatus(user) });
+    } catch (error) {
+      console.error('Error fetching account deletion:', error);
+      res.status(500).json({ error: 'Failed to fetch account deletion' });
+    }
+  }
+
+  // Cancel a pending deletion during the grace period
+  static async cancelDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const user = await UserModel.cancelDeletion(userId);
+      if (!user) {
+        res.status(404).json({ error: 'No account deletion is pending' });
+        return;
+      }
+
+      res.json({ message: 'Account deletion cancelled', deletion: deletionStatus(user) });
     } catch (error) {
-      console.error('Error deleting user:', error);
-      res.status(500).json({ error: 'Failed to delete user' });
+      console.error('Error cancelling account deletion:', error);
+      res.status(500).json({ error: 'Failed to cancel account deletion' });
     }
   }
 }
@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import { requireAuth } from './auth.middleware';
+
+// Platform admins only (the role is resolved by syncUser)
+export const checkAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.userRole !== 'admin') {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
+  next();
+};
+
+// Require an authenticated admin
+export const requireAdmin = [...requireAuth, checkAdmin];
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { expressjwt } from 'express-jwt';
+import jwt, { JwtHeader, JwtPayload, SigningKeyCallback } from 'jsonwebtoken';
 import jwksRsa from 'jwks-rsa';
 import { syncUser } from './user-sync.middleware';
 
@@ -34,6 +35,36 @@ export const optionalAuth = expressjwt({
   credentialsRequired: false
 });
 
+// Signing keys for tokens verified outside express (socket handshakes)
+const jwksClient = jwksRsa({
+  cache: true,
+  rateLimit: true,
+  jwksRequestsPerMinute: 5,
+  jwksUri: `https://${auth0Domain}/.well-known/jwks.json`
+});
+
+const getSigningKey = (header: JwtHeader, callback: SigningKeyCallback) => {
+  jwksClient.getSigningKey(header.kid)
+    .then(key => callback(null, key.getPublicKey()))
+    .catch(error => callback(error));
+};
+
+// Verify an Auth0 access token with the same rules as checkJwt
+export const verifyAccessToken = (token: string): Promise<JwtPayload> =>
+  new Promise((resolve, reject) => {
+    jwt.verify(token, getSigningKey, {
+      audience: auth0Audience,
+      issuer: `https://${auth0Domain}/`,
+      algorithms: ['RS256']
+    }, (error, payload) => {
+      if (error || !payload || typeof payload === 'string') {
+        reject(error || new Error('Invalid token payload'));
+        return;
+      }
+      resolve(payload);
+    });
+  });
+
 // Extract user info from JWT
 export const extractUser = (req: Request, res: Response, next: NextFunction) => {
   if (req.auth) {
@@ -1,5 +1,61 @@
 import { Request, Response, NextFunction } from 'express';
 import db from '../utils/database';
+import { UserRole } from '../models/User';
+
+// Auth0 adds custom claims under a namespace; an 'admin' entry grants the platform admin role
+const ROLES_CLAIM = process.env.AUTH0_ROLES_CLAIM || 'https://syncscript.app/roles';
+
+export interface SyncedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  disabled_at: Date | null;
+}
+
+// Admins are granted either in the users table or by the identity provider
+export const resolveRole = (storedRole: UserRole, claims: { [key: string]: any }): UserRole => {
+  const claimed = claims[ROLES_CLAIM];
+  const claimsAdmin = Array.isArray(claimed) ? claimed.includes('admin') : claimed === 'admin';
+  return storedRole === 'admin' || claimsAdmin ? 'admin' : 'user';
+};
+
+/**
+ * Look up the internal user for an Auth0 ID, creating them from the token claims on first sign-in
+ */
+export const findOrCreateUser = async (
+  auth0Id: string,
+  claims: { email?: string; name?: string; [key: string]: any }
+): Promise<SyncedUser> => {
+  // Check if user exists
+  let user = await db.oneOrNone(
+    'SELECT id, email, name, role, disabled_at FROM users WHERE auth0_id = $1',
+    [auth0Id]
+  );
+
+  // If user doesn't exist, create them
+  if (!user) {
+    console.log('[syncUser] User not found, creating new user');
+    
+    // Get email from Auth0 token
+    const email = claims.email || `user-${auth0Id}@syncscript.app`;
+    const name = claims.name || 'SyncScript User';
+    
+    user = await db.one(
+      `INSERT INTO users (auth0_id, email, name) 
+       VALUES ($1, $2, $3) 
+       ON CONFLICT (auth0_id) DO UPDATE SET email = $2, name = $3
+       RETURNING id, email, name, role, disabled_at`,
+      [auth0Id, email, name]
+    );
+    
+    console.log('[syncUser] Created new user:', user.id);
+  } else {
+    console.log('[syncUser] Found existing user:', user.id);
+  }
+
+  return { ...user, role: resolveRole(user.role, claims) };
+};
 
 /**
  * Middleware to sync Auth0 user with our database
@@ -15,37 +71,18 @@ export const syncUser = async (req: Request, res: Response, next: NextFunction)
 
     console.log('[syncUser] Auth0 ID:', auth0Id);
 
-    // Check if user exists
-    let user = await db.oneOrNone(
-      'SELECT id, email, name FROM users WHERE auth0_id = $1',
-      [auth0Id]
-    );
+    const user = await findOrCreateUser(auth0Id, req.auth || {});
 
-    // If user doesn't exist, create them
-    if (!user) {
-      console.log('[syncUser] User not found, creating new user');
-      
-      // Get email from Auth0 token
-      const email = (req.auth as any)?.email || `user-${auth0Id}@syncscript.app`;
-      const name = (req.auth as any)?.name || 'SyncScript User';
-      
-      user = await db.one(
-        `INSERT INTO users (auth0_id, email, name) 
-         VALUES ($1, $2, $3) 
-         ON CONFLICT (auth0_id) DO UPDATE SET email = $2, name = $3
-         RETURNING id, email, name`,
-        [auth0Id, email, name]
-      );
-      
-      console.log('[syncUser] Created new user:', user.id);
-    } else {
-      console.log('[syncUser] Found existing user:', user.id);
+    if (user.disabled_at) {
+      res.status(403).json({ error: 'Account disabled', message: 'Contact support to restore access' });
+      return;
     }
 
     // Attach internal UUID to request
     (req as any).userId = user.id;
     (req as any).userEmail = user.email;
-    (req as any).userName = user.name;
+    req.userName = user.name;
+    req.userRole = user.role;
     
     next();
   } catch (error) {
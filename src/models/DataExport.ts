@@ -0,0 +1,126 @@
+import db from '../utils/database';
+
+export type DataExportFormat = 'json' | 'zip';
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+
+export interface DataExport {
+  id: string;
+  user_id: string;
+  format: DataExportFormat;
+  status: DataExportStatus;
+  file_path?: string | null;
+  size_bytes?: number | null;
+  attempts: number;
+  error?: string | null;
+  created_at: Date;
+  started_at?: Date | null;
+  completed_at?: Date | null;
+  expires_at?: Date | null;
+}
+
+export class DataExportModel {
+  // Queue an export
+  static async create(userId: string, format: DataExportFormat): Promise<DataExport> {
+    return await db.one(
+      `INSERT INTO data_exports (user_id, format) VALUES ($1, $2) RETURNING *`,
+      [userId, format]
+    );
+  }
+
+  // Get one of a user's exports
+  static async findForUser(id: string, userId: string): Promise<DataExport | null> {
+    return await db.oneOrNone(
+      'SELECT * FROM data_exports WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+  }
+
+  // Get an export by ID (download links are checked by signature, not session)
+  static async findById(id: string): Promise<DataExport | null> {
+    return await db.oneOrNone('SELECT * FROM data_exports WHERE id = $1', [id]);
+  }
+
+  // The user's newest export in a format that is queued, running or still downloadable
+  static async findActive(userId: string, format: DataExportFormat): Promise<DataExport | null> {
+    return await db.oneOrNone(
+      `SELECT * FROM data_exports
+       WHERE user_id = $1 AND format = $2
+         AND (status IN ('pending', 'processing') OR (status = 'ready' AND expires_at > NOW()))
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId, format]
+    );
+  }
+
+  // List a user's recent exports
+  static async listForUser(userId: string, limit = 20): Promise<DataExport[]> {
+    return await db.any(
+      'SELECT * FROM data_exports WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [userId, limit]
+    );
+  }
+
+  // Claim a pending export (or one whose worker died mid-build) for processing
+  static async claim(id: string, staleAfterMs: number, maxAttempts: number): Promise<DataExport | null> {
+    return await db.oneOrNone(
+      `UPDATE data_exports
+       SET status = 'processing', started_at = NOW(), attempts = attempts + 1
+       WHERE id = $1
+         AND attempts < $3
+         AND (status = 'pending'
+           OR (status = 'processing' AND started_at < NOW() - ($2 * INTERVAL '1 millisecond')))
+       RETURNING *`,
+      [id, staleAfterMs, maxAttempts]
+    );
+  }
+
+  // IDs of exports waiting to be built, oldest first
+  static async getClaimable(staleAfterMs: number, maxAttempts: number, limit = 10): Promise<string[]> {
+    const rows = await db.any(
+      `SELECT id FROM data_exports
+       WHERE attempts < $2
+         AND (status = 'pending'
+           OR (status = 'processing' AND started_at < NOW() - ($1 * INTERVAL '1 millisecond')))
+       ORDER BY created_at
+       LIMIT $3`,
+      [staleAfterMs, maxAttempts, limit]
+    );
+    return rows.map((row: { id: string }) => row.id);
+  }
+
+  static async markReady(id: string, filePath: string, sizeBytes: number, expiresAt: Date): Promise<DataExport> {
+    return await db.one(
+      `UPDATE data_exports
+       SET status = 'ready', file_path = $2, size_bytes = $3, expires_at = $4, completed_at = NOW(), error = NULL
+       WHERE id = $1
+       RETURNING *`,
+      [id, filePath, sizeBytes, expiresAt]
+    );
+  }
+
+  // Failed builds go back to pending until they run out of attempts
+  static async markFailed(id: string, error: string, maxAttempts: number): Promise<void> {
+    await db.none(
+      `UPDATE data_exports
+       SET status = CASE WHEN attempts >= $3 THEN 'failed' ELSE 'pending' END,
+           error = $2
+       WHERE id = $1`,
+      [id, error, maxAttempts]
+    );
+  }
+
+  // Ready exports past their expiry, whose files should be removed
+  static async getExpired(now: Date): Promise<DataExport[]> {
+    return await db.any(
+      `SELECT * FROM data_exports WHERE status = 'ready' AND expires_at <= $1`,
+      [now]
+    );
+  }
+
+  static async markExpired(id: string): Promise<void> {
+    await db.none(
+      `UPDATE data_exports SET status = 'expired', file_path = NULL WHERE id = $1`,
+      [id]
+    );
+  }
+}
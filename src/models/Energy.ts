@@ -1,4 +1,5 @@
 import db from '../utils/database';
+import { buildListSql, ListingSpec, ListQuery, Page, toPage } from '../utils/listing';
 
 export interface EnergyLog {
   id: string;
@@ -25,6 +26,26 @@ export interface EnergyPattern {
   patterns: any;
 }
 
+// Filters and sort keys accepted by GET /api/energy (grammar in utils/listing)
+export const ENERGY_LOG_LISTING: ListingSpec = {
+  id: 'id',
+  defaultSort: '-logged_at',
+  sorts: {
+    logged_at: { column: 'logged_at', type: 'timestamp' },
+    energy_level: { column: 'energy_level', type: 'number' }
+  },
+  filters: {
+    energy_level: { type: 'number', column: 'energy_level' },
+    logged_at: { type: 'timestamp', column: 'logged_at' },
+    mood_tags: {
+      type: 'set',
+      any: tags => `mood_tags && ${tags}::text[]`,
+      all: tags => `mood_tags @> ${tags}::text[]`
+    }
+  },
+  search: ['notes']
+};
+
 export class EnergyModel {
   // Log energy
   static async logEnergy(data: CreateEnergyLog): Promise<EnergyLog> {
@@ -42,20 +63,17 @@ export class EnergyModel {
     ]);
   }
 
-  // Get user's energy logs
-  static async getUserEnergyLogs(
-    userId: string,
-    limit = 100,
-    offset = 0
-  ): Promise<EnergyLog[]> {
-    const query = `
-      SELECT * FROM energy_logs
-      WHERE user_id = $1
-      ORDER BY logged_at DESC
-      LIMIT $2 OFFSET $3
-    `;
-    
-    return await db.any(query, [userId, limit, offset]);
+  // Get user's energy logs, one page at a time
+  static async getUserEnergyLogs(userId: string, listQuery: ListQuery): Promise<Page<EnergyLog>> {
+    const params: unknown[] = [userId];
+    const list = buildListSql(ENERGY_LOG_LISTING, listQuery, params);
+
+    const rows = await db.any(
+      `SELECT *, ${list.cursorColumn} FROM energy_logs WHERE user_id = $1${list.where}${list.orderBy}${list.limit}`,
+      params
+    );
+
+    return toPage<EnergyLog>(rows, listQuery);
   }
 
   // Get latest energy log
@@ -194,10 +212,19 @@ export class EnergyModel {
     };
   }
 
+  // Get average energy level since a point in time (null if nothing was logged)
+  static async getAverageEnergySince(userId: string, since: Date): Promise<number | null> {
+    const result = await db.one(
+      'SELECT AVG(energy_level) as average_energy FROM energy_logs WHERE user_id = $1 AND logged_at >= $2',
+      [userId, since]
+    );
+    return result.average_energy !== null ? parseFloat(result.average_energy) : null;
+  }
+
   // Delete old energy logs (cleanup)
   static async cleanupOldLogs(daysToKeep = 90): Promise<number> {
     const result = await db.result(
-      'DELETE FROM energy_logs WHERE logged_at < NOW() - INTERVAL \'$1 days\'',
+      'DELETE FROM energy_logs WHERE logged_at < NOW() - $1 * INTERVAL \'1 day\'',
       [daysToKeep]
     );
     return result.rowCount;
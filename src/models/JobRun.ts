@@ -0,0 +1,41 @@
+import db from '../utils/database';
+
+export interface JobRun {
+  job_name: string;
+  status: 'running' | 'succeeded' | 'failed';
+  last_started_at: Date;
+  last_finished_at?: Date;
+  last_error?: string;
+}
+
+export class JobRunModel {
+  // Claim a job run if its interval has elapsed since the last start
+  // Returns false when another run (or another instance) started it recently
+  static async claim(jobName: string, now: Date, intervalMs: number): Promise<boolean> {
+    const result = await db.oneOrNone(
+      `INSERT INTO scheduled_job_runs (job_name, status, last_started_at)
+       VALUES ($1, 'running', $2)
+       ON CONFLICT (job_name) DO UPDATE
+         SET status = 'running', last_started_at = EXCLUDED.last_started_at, last_error = NULL
+         WHERE scheduled_job_runs.last_started_at <= $2::timestamp - ($3 * INTERVAL '1 millisecond')
+       RETURNING job_name`,
+      [jobName, now, intervalMs]
+    );
+    return !!result;
+  }
+
+  // Record the outcome of a job run
+  static async finish(jobName: string, finishedAt: Date, error?: Error): Promise<void> {
+    await db.none(
+      `UPDATE scheduled_job_runs
+       SET status = $2, last_finished_at = $3, last_error = $4
+       WHERE job_name = $1`,
+      [jobName, error ? 'failed' : 'succeeded', finishedAt, error ? error.message : null]
+    );
+  }
+
+  // Get all job runs
+  static async findAll(): Promise<JobRun[]> {
+    return await db.any('SELECT * FROM scheduled_job_runs ORDER BY job_name');
+  }
+}
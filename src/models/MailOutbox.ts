@@ -0,0 +1,62 @@
+import db from '../utils/database';
+
+export interface MailOutboxEntry {
+  id: string;
+  to_address: string;
+  from_address: string;
+  subject: string;
+  category?: string;
+  transport: string;
+  status: 'sent' | 'failed';
+  attempts: number;
+  provider_message_id?: string;
+  error?: string;
+  metadata: any;
+  created_at: Date;
+}
+
+export interface CreateMailOutboxEntry {
+  to_address: string;
+  from_address: string;
+  subject: string;
+  category?: string;
+  transport: string;
+  status: 'sent' | 'failed';
+  attempts: number;
+  provider_message_id?: string;
+  error?: string;
+  metadata?: Record<string, any>;
+}
+
+export class MailOutboxModel {
+  // Record a sent or failed message
+  static async record(data: CreateMailOutboxEntry): Promise<MailOutboxEntry> {
+    return await db.one(
+      `INSERT INTO mail_outbox (
+         to_address, from_address, subject, category, transport, status, attempts, provider_message_id, error, metadata
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        data.to_address,
+        data.from_address,
+        data.subject,
+        data.category || null,
+        data.transport,
+        data.status,
+        data.attempts,
+        data.provider_message_id || null,
+        data.error || null,
+        JSON.stringify(data.metadata || {})
+      ]
+    );
+  }
+
+  // Get recent messages sent to an address
+  static async findByRecipient(toAddress: string, limit = 50, offset = 0): Promise<MailOutboxEntry[]> {
+    return await db.any(
+      'SELECT * FROM mail_outbox WHERE to_address = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3',
+      [toAddress, limit, offset]
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import db from '../utils/database';
+
+export type NotificationDeliveryType = 'due_date_reminder' | 'daily_summary';
+
+export interface NotificationDelivery {
+  id: string;
+  user_id: string;
+  type: NotificationDeliveryType;
+  dedupe_key: string;
+  task_id?: string;
+  status: 'sending' | 'sent' | 'skipped';
+  created_at: Date;
+  sent_at?: Date;
+}
+
+export class NotificationDeliveryModel {
+  // Claim a notification before sending it
+  // Returns null if it was already claimed (sent, skipped or in flight)
+  static async claim(
+    userId: string,
+    type: NotificationDeliveryType,
+    dedupeKey: string,
+    taskId?: string
+  ): Promise<NotificationDelivery | null> {
+    return await db.oneOrNone(
+      `INSERT INTO notification_deliveries (user_id, type, dedupe_key, task_id)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, type, dedupe_key) DO NOTHING
+       RETURNING *`,
+      [userId, type, dedupeKey, taskId || null]
+    );
+  }
+
+  // Mark a claimed notification as sent or skipped
+  static async complete(id: string, status: 'sent' | 'skipped'): Promise<void> {
+    await db.none(
+      `UPDATE notification_deliveries SET status = $2, sent_at = NOW() WHERE id = $1`,
+      [id, status]
+    );
+  }
+
+  // Release a claim after a failed send so the next run retries it
+  static async release(id: string): Promise<void> {
+    await db.none(`DELETE FROM notification_deliveries WHERE id = $1 AND status = 'sending'`, [id]);
+  }
+}
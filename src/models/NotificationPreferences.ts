@@ -0,0 +1,71 @@
+import db from '../utils/database';
+
+export interface NotificationPreferences {
+  email_due_date_reminders: boolean;
+  email_daily_summary: boolean;
+  email_streak_alerts: boolean;
+  email_weekly_report: boolean;
+  email_task_suggestions: boolean;
+  email_task_assignments: boolean;
+  email_task_approvals: boolean;
+  email_mentions: boolean;
+  reminder_hours_before: number;
+}
+
+// Email notification types that can be switched on or off
+export type EmailNotificationType = Exclude<keyof NotificationPreferences, 'reminder_hours_before'>;
+
+// Used until the user saves preferences for the first time
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email_due_date_reminders: true,
+  email_daily_summary: true,
+  email_streak_alerts: true,
+  email_weekly_report: true,
+  email_task_suggestions: true,
+  email_task_assignments: true,
+  email_task_approvals: true,
+  email_mentions: true,
+  reminder_hours_before: 24
+};
+
+const PREFERENCE_COLUMNS = Object.keys(DEFAULT_NOTIFICATION_PREFERENCES) as (keyof NotificationPreferences)[];
+
+export class NotificationPreferencesModel {
+  // Get user preferences, falling back to defaults
+  static async get(userId: string): Promise<NotificationPreferences> {
+    const row = await db.oneOrNone(
+      `SELECT ${PREFERENCE_COLUMNS.join(', ')} FROM notification_preferences WHERE user_id = $1`,
+      [userId]
+    );
+
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(row || {}) };
+  }
+
+  // Update preferences (partial); only the given fields are changed
+  static async update(userId: string, data: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const columns = PREFERENCE_COLUMNS.filter(column => data[column] !== undefined);
+
+    if (columns.length === 0) {
+      return await this.get(userId);
+    }
+
+    const values: any[] = [userId, ...columns.map(column => data[column])];
+    const placeholders = columns.map((_, index) => `$${index + 2}`);
+    const updates = columns.map(column => `${column} = EXCLUDED.${column}`);
+
+    const query = `
+      INSERT INTO notification_preferences (user_id, ${columns.join(', ')})
+      VALUES ($1, ${placeholders.join(', ')})
+      ON CONFLICT (user_id) DO UPDATE SET ${updates.join(', ')}
+      RETURNING ${PREFERENCE_COLUMNS.join(', ')}
+    `;
+
+    return await db.one(query, values);
+  }
+
+  // Check whether a user wants a given type of email
+  static async isEnabled(userId: string, type: EmailNotificationType): Promise<boolean> {
+    const preferences = await this.get(userId);
+    return preferences[type];
+  }
+}
@@ -1,4 +1,6 @@
 import db from '../utils/database';
+import { buildListSql, ListingSpec, ListQuery, Page, toPage } from '../utils/listing';
+import { OPEN_STATUS_SQL, Task } from './Task';
 
 export interface Project {
   id: string;
@@ -9,6 +11,8 @@ export interface Project {
   energy_requirement?: number;
   priority: number;
   status: string;
+  deleted_at?: Date | null; // Set while the project is in the trash
+  deleted_by?: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -22,6 +26,25 @@ export interface CreateProjectData {
   priority?: number;
 }
 
+// Filters and sort keys accepted by GET /api/projects (grammar in utils/listing)
+export const PROJECT_LISTING: ListingSpec = {
+  id: 'id',
+  defaultSort: '-priority,-created_at',
+  sorts: {
+    priority: { column: 'priority', type: 'number' },
+    name: { column: 'LOWER(name)', type: 'text' },
+    created_at: { column: 'created_at', type: 'timestamp' },
+    updated_at: { column: 'updated_at', type: 'timestamp' }
+  },
+  filters: {
+    status: { type: 'text', column: 'status' },
+    priority: { type: 'number', column: 'priority' },
+    energy_requirement: { type: 'number', column: 'energy_requirement' },
+    created_at: { type: 'timestamp', column: 'created_at' }
+  },
+  search: ['name', 'description']
+};
+
 export class ProjectModel {
   // Create project
   static async create(data: CreateProjectData): Promise<Project> {
@@ -47,7 +70,7 @@ export class ProjectModel {
   static async findById(id: string, userId: string): Promise<Project | null> {
     try {
       return await db.one(
-        'SELECT * FROM projects WHERE id = $1 AND user_id = $2',
+        'SELECT * FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
         [id, userId]
       );
     } catch (error) {
@@ -55,27 +78,31 @@ export class ProjectModel {
     }
   }
 
-  // Get all user projects
-  static async getUserProjects(
-    userId: string,
-    status?: string,
-    limit = 100,
-    offset = 0
-  ): Promise<Project[]> {
-    let query = 'SELECT * FROM projects WHERE user_id = $1';
-    const params: any[] = [userId];
-
-    if (status) {
-      query += ' AND status = $2';
-      params.push(status);
-      query += ' ORDER BY priority DESC, created_at DESC LIMIT $3 OFFSET $4';
-      params.push(limit, offset);
-    } else {
-      query += ' ORDER BY priority DESC, created_at DESC LIMIT $2 OFFSET $3';
-      params.push(limit, offset);
+  // Get project by ID for any user; callers must check access with the policy layer first
+  static async findUnscoped(id: string): Promise<Project | null> {
+    try {
+      return await db.oneOrNone('SELECT * FROM projects WHERE id = $1 AND deleted_at IS NULL', [id]);
+    } catch (error) {
+      return null;
     }
+  }
+
+  // Get a project from the trash; trashed projects are invisible to every other lookup
+  static async findTrashed(id: string): Promise<Project | null> {
+    return await db.oneOrNone('SELECT * FROM projects WHERE id = $1 AND deleted_at IS NOT NULL', [id]);
+  }
+
+  // Get user projects, one page at a time
+  static async getUserProjects(userId: string, listQuery: ListQuery): Promise<Page<Project>> {
+    const params: unknown[] = [userId];
+    const list = buildListSql(PROJECT_LISTING, listQuery, params);
+
+    const rows = await db.any(
+      `SELECT *, ${list.cursorColumn} FROM projects WHERE user_id = $1 AND deleted_at IS NULL${list.where}${list.orderBy}${list.limit}`,
+      params
+    );
 
-    return await db.any(query, params);
+    return toPage<Project>(rows, listQuery);
   }
 
   // Update project
@@ -119,7 +146,7 @@ export class ProjectModel {
     const query = `
       UPDATE projects
       SET ${fields.join(', ')}
-      WHERE id = $${paramCount} AND user_id = $${paramCount + 1}
+      WHERE id = $${paramCount} AND user_id = $${paramCount + 1} AND deleted_at IS NULL
       RETURNING *
     `;
 
@@ -129,18 +156,79 @@ export class ProjectModel {
   // Archive project (soft delete)
   static async archive(id: string, userId: string): Promise<Project> {
     return await db.one(
-      `UPDATE projects SET status = 'archived' WHERE id = $1 AND user_id = $2 RETURNING *`,
+      `UPDATE projects SET status = 'archived' WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL RETURNING *`,
       [id, userId]
     );
   }
 
-  // Delete project
-  static async delete(id: string, userId: string): Promise<boolean> {
-    const result = await db.result(
-      'DELETE FROM projects WHERE id = $1 AND user_id = $2',
-      [id, userId]
+  // Move a project and its live tasks to the trash; returns null if it is already gone
+  static async trash(id: string, deletedBy: string): Promise<{ project: Project; tasks: Task[] } | null> {
+    return await db.tx(async t => {
+      const project: Project | null = await t.oneOrNone(
+        `UPDATE projects SET deleted_at = NOW(), deleted_by = $2
+         WHERE id = $1 AND deleted_at IS NULL
+         RETURNING *`,
+        [id, deletedBy]
+      );
+      if (!project) {
+        return null;
+      }
+
+      const tasks: Task[] = await t.any(
+        `UPDATE tasks SET deleted_at = $2, deleted_by = $3, deleted_with_project = true
+         WHERE project_id = $1 AND deleted_at IS NULL
+         RETURNING *`,
+        [id, project.deleted_at, deletedBy]
+      );
+
+      return { project, tasks };
+    });
+  }
+
+  // Restore a project along with the tasks that were trashed with it
+  // Tasks trashed on their own before the project stay in the trash
+  static async restore(id: string): Promise<{ project: Project; tasks: Task[] } | null> {
+    return await db.tx(async t => {
+      const project: Project | null = await t.oneOrNone(
+        `UPDATE projects SET deleted_at = NULL, deleted_by = NULL
+         WHERE id = $1 AND deleted_at IS NOT NULL
+         RETURNING *`,
+        [id]
+      );
+      if (!project) {
+        return null;
+      }
+
+      const tasks: Task[] = await t.any(
+        `UPDATE tasks SET deleted_at = NULL, deleted_by = NULL, deleted_with_project = false
+         WHERE project_id = $1 AND deleted_with_project
+         RETURNING *`,
+        [id]
+      );
+
+      return { project, tasks };
+    });
+  }
+
+  // The user's trashed projects, with how many tasks went with each
+  static async getTrash(userId: string): Promise<(Project & { task_count: number })[]> {
+    return await db.any(
+      `SELECT p.*,
+         (SELECT COUNT(*) FROM tasks t WHERE t.project_id = p.id AND t.deleted_with_project)::integer as task_count
+       FROM projects p
+       WHERE p.user_id = $1 AND p.deleted_at IS NOT NULL
+       ORDER BY p.deleted_at DESC, p.id`,
+      [userId]
     );
-    return result.rowCount > 0;
+  }
+
+  // Permanently delete a trashed project and the tasks trashed with it
+  static async purge(id: string): Promise<boolean> {
+    return await db.tx(async t => {
+      await t.none('DELETE FROM tasks WHERE project_id = $1 AND deleted_with_project', [id]);
+      const result = await t.result('DELETE FROM projects WHERE id = $1 AND deleted_at IS NOT NULL', [id]);
+      return result.rowCount > 0;
+    });
   }
 
   // Get project with task count
@@ -148,12 +236,12 @@ export class ProjectModel {
     const query = `
       SELECT 
         p.*,
-        COUNT(t.id) FILTER (WHERE t.status = 'pending') as pending_tasks,
+        COUNT(t.id) FILTER (WHERE t.status IN ${OPEN_STATUS_SQL}) as pending_tasks,
         COUNT(t.id) FILTER (WHERE t.status = 'completed') as completed_tasks,
-        SUM(t.points) FILTER (WHERE t.status = 'completed') as total_points
+        SUM(t.points_awarded) FILTER (WHERE t.status = 'completed') as total_points
       FROM projects p
-      LEFT JOIN tasks t ON t.project_id = p.id
-      WHERE p.id = $1 AND p.user_id = $2
+      LEFT JOIN tasks t ON t.project_id = p.id AND t.deleted_at IS NULL
+      WHERE p.id = $1 AND p.user_id = $2 AND p.deleted_at IS NULL
       GROUP BY p.id
     `;
 
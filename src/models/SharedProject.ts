@@ -0,0 +1,165 @@
+import db from '../utils/database';
+import { TeamRole, TeamSettings, parseTeamSettings } from './Team';
+import { OPEN_STATUS_SQL } from './Task';
+
+export interface SharedProjectSettings {
+  allowMemberTaskCreation: boolean;
+  allowMemberTaskAssignment: boolean;
+  requireApprovalForTasks: boolean;
+  showEnergyLevels: boolean;
+  autoAssignByEnergy: boolean;
+}
+
+export interface SharedProject {
+  id: string;
+  project_id: string;
+  team_id: string;
+  settings: SharedProjectSettings;
+  created_at: Date;
+}
+
+export interface SharedProjectDetails extends SharedProject {
+  name: string;
+  description?: string;
+  color: string;
+  priority: number;
+  status: string;
+  owner_id: string;
+  owner_name: string;
+  pending_tasks: number;
+  completed_tasks: number;
+}
+
+// Access to a shared project through one team the user actively belongs to
+export interface ProjectGrant {
+  share: SharedProject;
+  role: TeamRole;
+  teamSettings: TeamSettings;
+}
+
+// Mirrors the column default in migration 007
+export const DEFAULT_SHARED_PROJECT_SETTINGS: SharedProjectSettings = {
+  allowMemberTaskCreation: true,
+  allowMemberTaskAssignment: true,
+  requireApprovalForTasks: false,
+  showEnergyLevels: true,
+  autoAssignByEnergy: false
+};
+
+// Members' energy is shown in a shared project only when both the share and the team allow it
+export function showsMemberEnergy(settings: SharedProjectSettings, teamSettings: TeamSettings): boolean {
+  return settings.showEnergyLevels && teamSettings.energyInsightsVisible;
+}
+
+export function parseSharedProjectSettings(settings: any): SharedProjectSettings {
+  const parsed = typeof settings === 'string' ? JSON.parse(settings) : settings;
+  return { ...DEFAULT_SHARED_PROJECT_SETTINGS, ...(parsed || {}) };
+}
+
+const DETAILS_QUERY = `
+  SELECT sp.*, p.name, p.description, p.color, p.priority, p.status,
+    p.user_id as owner_id, u.name as owner_name,
+    COUNT(t.id) FILTER (WHERE t.status IN ${OPEN_STATUS_SQL})::integer as pending_tasks,
+    COUNT(t.id) FILTER (WHERE t.status = 'completed')::integer as completed_tasks
+  FROM shared_projects sp
+  JOIN projects p ON p.id = sp.project_id AND p.deleted_at IS NULL
+  JOIN users u ON u.id = p.user_id
+  LEFT JOIN tasks t ON t.project_id = p.id AND t.deleted_at IS NULL
+`;
+
+const withSettings = <T extends { settings: any }>(row: T): T => ({
+  ...row,
+  settings: parseSharedProjectSettings(row.settings)
+});
+
+export class SharedProjectModel {
+  // Share a project with a team
+  static async share(
+    projectId: string,
+    teamId: string,
+    settings: Partial<SharedProjectSettings> = {}
+  ): Promise<SharedProject> {
+    const share = await db.one(
+      `INSERT INTO shared_projects (project_id, team_id, settings, created_at)
+       VALUES ($1, $2, $3, NOW())
+       RETURNING *`,
+      [projectId, teamId, JSON.stringify({ ...DEFAULT_SHARED_PROJECT_SETTINGS, ...settings })]
+    );
+    return withSettings(share);
+  }
+
+  // Get the share of a project with a team
+  static async find(projectId: string, teamId: string): Promise<SharedProject | null> {
+    const share = await db.oneOrNone(
+      'SELECT * FROM shared_projects WHERE project_id = $1 AND team_id = $2',
+      [projectId, teamId]
+    );
+    return share ? withSettings(share) : null;
+  }
+
+  // Get a shared project with project details and task counts
+  static async findDetails(projectId: string, teamId: string): Promise<SharedProjectDetails | null> {
+    const share = await db.oneOrNone(
+      `${DETAILS_QUERY}
+       WHERE sp.project_id = $1 AND sp.team_id = $2
+       GROUP BY sp.id, p.id, u.name`,
+      [projectId, teamId]
+    );
+    return share ? withSettings(share) : null;
+  }
+
+  // List projects shared with a team
+  static async listForTeam(teamId: string): Promise<SharedProjectDetails[]> {
+    const shares = await db.any(
+      `${DETAILS_QUERY}
+       WHERE sp.team_id = $1
+       GROUP BY sp.id, p.id, u.name
+       ORDER BY p.priority DESC, sp.created_at DESC`,
+      [teamId]
+    );
+    return shares.map(withSettings);
+  }
+
+  // Merge new settings into a share
+  static async updateSettings(
+    projectId: string,
+    teamId: string,
+    settings: Partial<SharedProjectSettings>
+  ): Promise<SharedProject | null> {
+    const share = await db.oneOrNone(
+      `UPDATE shared_projects
+       SET settings = COALESCE(settings, '{}'::jsonb) || $3::jsonb
+       WHERE project_id = $1 AND team_id = $2
+       RETURNING *`,
+      [projectId, teamId, JSON.stringify(settings)]
+    );
+    return share ? withSettings(share) : null;
+  }
+
+  // Stop sharing a project with a team
+  static async unshare(projectId: string, teamId: string): Promise<boolean> {
+    const result = await db.result(
+      'DELETE FROM shared_projects WHERE project_id = $1 AND team_id = $2',
+      [projectId, teamId]
+    );
+    return result.rowCount > 0;
+  }
+
+  // A user's grants on a project: one per team the project is shared with and the user actively belongs to
+  static async getGrants(projectId: string, userId: string, teamId?: string): Promise<ProjectGrant[]> {
+    const rows = await db.any(
+      `SELECT sp.*, tm.role as member_role, t.settings as team_settings
+       FROM shared_projects sp
+       JOIN teams t ON t.id = sp.team_id
+       JOIN team_members tm ON tm.team_id = sp.team_id AND tm.user_id = $2 AND tm.status = 'active'
+       WHERE sp.project_id = $1 AND ($3::uuid IS NULL OR sp.team_id = $3)`,
+      [projectId, userId, teamId || null]
+    );
+
+    return rows.map(({ member_role, team_settings, ...share }) => ({
+      share: withSettings(share),
+      role: member_role,
+      teamSettings: parseTeamSettings(team_settings)
+    }));
+  }
+}
@@ -0,0 +1,169 @@
+import db from '../utils/database';
+import { Tag } from './Task';
+
+// A catalog entry; tasks hold copies of { id, label, color }
+export interface UserTag extends Tag {
+  user_id: string;
+  usage_count?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateTagData {
+  user_id: string;
+  label: string;
+  color?: string;
+}
+
+export const DEFAULT_TAG_COLOR = '#6366f1';
+
+// Tasks (owned by $1) carrying the tag id in $2
+const TASKS_WITH_TAG = `user_id = $1 AND tags @> jsonb_build_array(jsonb_build_object('id', $2::text))`;
+
+const toTaskTag = ({ id, label, color }: Tag): Tag => ({ id, label, color });
+
+export class TagModel {
+  // The user's catalog with the number of their tasks using each tag
+  static async list(userId: string): Promise<UserTag[]> {
+    return await db.any(
+      `SELECT c.*,
+         (SELECT COUNT(*) FROM tasks t
+          WHERE t.user_id = c.user_id AND t.deleted_at IS NULL
+            AND t.tags @> jsonb_build_array(jsonb_build_object('id', c.id)))::integer as usage_count
+       FROM tags c
+       WHERE c.user_id = $1
+       ORDER BY LOWER(c.label)`,
+      [userId]
+    );
+  }
+
+  static async findById(userId: string, id: string): Promise<UserTag | null> {
+    return await db.oneOrNone(
+      `SELECT c.*,
+         (SELECT COUNT(*) FROM tasks t
+          WHERE t.user_id = c.user_id AND t.deleted_at IS NULL
+            AND t.tags @> jsonb_build_array(jsonb_build_object('id', c.id)))::integer as usage_count
+       FROM tags c
+       WHERE c.user_id = $1 AND c.id = $2`,
+      [userId, id]
+    );
+  }
+
+  static async findByLabel(userId: string, label: string): Promise<UserTag | null> {
+    return await db.oneOrNone(
+      'SELECT * FROM tags WHERE user_id = $1 AND LOWER(label) = LOWER($2)',
+      [userId, label]
+    );
+  }
+
+  // Look up tag ids in the user's catalog, keeping the order given; unknown ids are returned separately
+  static async resolve(userId: string, ids: string[]): Promise<{ tags: Tag[]; missing: string[] }> {
+    const unique = Array.from(new Set(ids));
+    if (unique.length === 0) {
+      return { tags: [], missing: [] };
+    }
+
+    const rows: Tag[] = await db.any(
+      'SELECT id, label, color FROM tags WHERE user_id = $1 AND id = ANY($2::text[])',
+      [userId, unique]
+    );
+    const byId = new Map(rows.map(row => [row.id, row]));
+
+    return {
+      tags: unique.filter(id => byId.has(id)).map(id => toTaskTag(byId.get(id)!)),
+      missing: unique.filter(id => !byId.has(id))
+    };
+  }
+
+  static async create(data: CreateTagData): Promise<UserTag> {
+    return await db.one(
+      `INSERT INTO tags (user_id, label, color) VALUES ($1, $2, $3) RETURNING *`,
+      [data.user_id, data.label, data.color || DEFAULT_TAG_COLOR]
+    );
+  }
+
+  // Rename or recolor a tag and write the change through to every task carrying it
+  static async update(userId: string, id: string, data: { label?: string; color?: string }): Promise<UserTag | null> {
+    return await db.tx(async t => {
+      const tag: UserTag | null = await t.oneOrNone(
+        `UPDATE tags
+         SET label = COALESCE($3, label), color = COALESCE($4, color), updated_at = NOW()
+         WHERE user_id = $1 AND id = $2
+         RETURNING *`,
+        [userId, id, data.label ?? null, data.color ?? null]
+      );
+      if (!tag) {
+        return null;
+      }
+
+      await t.none(
+        `UPDATE tasks
+         SET tags = (
+           SELECT jsonb_agg(CASE WHEN tag->>'id' = $2 THEN $3::jsonb ELSE tag END ORDER BY pos)
+           FROM jsonb_array_elements(tags) WITH ORDINALITY e(tag, pos)
+         )
+         WHERE ${TASKS_WITH_TAG}`,
+        [userId, id, JSON.stringify(toTaskTag(tag))]
+      );
+
+      return tag;
+    });
+  }
+
+  // Fold the source tags into the target: tasks carrying any of them end up with the target once
+  static async merge(userId: string, targetId: string, sourceIds: string[]): Promise<UserTag | null> {
+    return await db.tx(async t => {
+      const target: UserTag | null = await t.oneOrNone(
+        'SELECT * FROM tags WHERE user_id = $1 AND id = $2 FOR UPDATE',
+        [userId, targetId]
+      );
+      if (!target) {
+        return null;
+      }
+
+      await t.none(
+        `UPDATE tasks
+         SET tags = (
+           SELECT jsonb_agg(tag ORDER BY pos)
+           FROM (
+             SELECT DISTINCT ON (tag->>'id') tag, pos
+             FROM (
+               SELECT CASE WHEN e.tag->>'id' = ANY($2::text[]) THEN $3::jsonb ELSE e.tag END as tag, e.pos
+               FROM jsonb_array_elements(tasks.tags) WITH ORDINALITY e(tag, pos)
+             ) mapped
+             ORDER BY tag->>'id', pos
+           ) deduped
+         )
+         WHERE user_id = $1
+           AND EXISTS (SELECT 1 FROM jsonb_array_elements(tasks.tags) tag WHERE tag->>'id' = ANY($2::text[]))`,
+        [userId, sourceIds, JSON.stringify(toTaskTag(target))]
+      );
+
+      await t.none('DELETE FROM tags WHERE user_id = $1 AND id = ANY($2::text[])', [userId, sourceIds]);
+
+      return target;
+    });
+  }
+
+  // Delete a tag and remove it from every task carrying it
+  static async delete(userId: string, id: string): Promise<boolean> {
+    return await db.tx(async t => {
+      const result = await t.result('DELETE FROM tags WHERE user_id = $1 AND id = $2', [userId, id]);
+      if (result.rowCount === 0) {
+        return false;
+      }
+
+      await t.none(
+        `UPDATE tasks
+         SET tags = COALESCE(
+           (SELECT jsonb_agg(tag ORDER BY pos) FROM jsonb_array_elements(tags) WITH ORDINALITY e(tag, pos) WHERE tag->>'id' <> $2),
+           '[]'::jsonb
+         )
+         WHERE ${TASKS_WITH_TAG}`,
+        [userId, id]
+      );
+
+      return true;
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import db from '../utils/database';
+import { buildListSql, ListingSpec, ListQuery, Page, toPage } from '../utils/listing';
 
 export interface Tag {
   id: string;
@@ -13,12 +14,6 @@ export interface Subtask {
   created_at: string;
 }
 
-export interface TaskNote {
-  id: string;
-  text: string;
-  created_at: string;
-}
-
 export type RecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'monthly';
 
 export interface RecurrenceConfig {
@@ -30,6 +25,26 @@ export interface RecurrenceConfig {
   is_active: boolean;
 }
 
+// awaiting_approval and rejected belong to the team approval flow; moves between the rest
+// are validated by TaskStatusService
+export const TASK_STATUSES = [
+  'backlog',
+  'pending',
+  'in_progress',
+  'blocked',
+  'completed',
+  'cancelled',
+  'awaiting_approval',
+  'rejected'
+] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+// Statuses of tasks still to be done, for reminders, queues, overdue checks and open counts
+export const OPEN_STATUSES: TaskStatus[] = ['backlog', 'pending', 'in_progress', 'blocked'];
+
+export const OPEN_STATUS_SQL = `(${OPEN_STATUSES.map(status => `'${status}'`).join(', ')})`;
+
 export interface Task {
   id: string;
   user_id: string;
@@ -38,16 +53,30 @@ export interface Task {
   description?: string;
   energy_requirement: number;
   priority: number;
-  status: string;
+  status: TaskStatus;
   due_date?: Date;
+  started_at?: Date | null; // First move to in_progress
   completed_at?: Date;
   estimated_duration?: number;
   actual_duration?: number;
   points: number;
+  points_awarded?: number | null; // What the completion earned, bonus included; null unless completed
   tags?: Tag[];
   subtasks?: Subtask[];
-  notes?: TaskNote[];
   recurrence?: RecurrenceConfig;
+  progress: number | null; // Percentage of subtasks completed; null without subtasks
+  complete_with_subtasks: boolean;
+  series_id?: string;
+  recurrence_parent_id?: string;
+  assignee_id?: string | null;
+  assigned_by?: string | null;
+  assigned_at?: Date | null;
+  reviewed_by?: string | null;
+  reviewed_at?: Date | null;
+  rejection_reason?: string | null;
+  deleted_at?: Date | null; // Set while the task is in the trash
+  deleted_by?: string | null;
+  deleted_with_project?: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -63,8 +92,18 @@ export interface CreateTaskData {
   estimated_duration?: number;
   tags?: Tag[];
   subtasks?: Subtask[];
-  notes?: TaskNote[];
   recurrence?: RecurrenceConfig;
+  complete_with_subtasks?: boolean;
+  // Team tasks needing approval start as 'awaiting_approval', which keeps them out of 'pending' queries
+  status?: 'pending' | 'awaiting_approval';
+}
+
+export interface TaskStatusTransition {
+  id: string;
+  task_id: string;
+  from_status: TaskStatus | null; // Null when the task was created
+  to_status: TaskStatus;
+  created_at: Date;
 }
 
 export interface TaskWithEnergyMatch extends Task {
@@ -73,15 +112,65 @@ export interface TaskWithEnergyMatch extends Task {
   bonus_points: number;
 }
 
+// Filters and sort keys accepted by GET /api/tasks (grammar in utils/listing)
+export const TASK_LISTING: ListingSpec = {
+  id: 't.id',
+  defaultSort: '-priority,due_date',
+  sorts: {
+    priority: { column: 't.priority', type: 'number' },
+    due_date: { column: 't.due_date', type: 'timestamp', nullable: true },
+    energy_requirement: { column: 't.energy_requirement', type: 'number' },
+    points: { column: 't.points', type: 'number' },
+    title: { column: 'LOWER(t.title)', type: 'text' },
+    created_at: { column: 't.created_at', type: 'timestamp' },
+    updated_at: { column: 't.updated_at', type: 'timestamp' },
+    completed_at: { column: 't.completed_at', type: 'timestamp', nullable: true }
+  },
+  filters: {
+    status: { type: 'text', column: 't.status' },
+    project_id: { type: 'uuid', column: 't.project_id' },
+    priority: { type: 'number', column: 't.priority' },
+    energy_requirement: { type: 'number', column: 't.energy_requirement' },
+    due_date: { type: 'timestamp', column: 't.due_date' },
+    created_at: { type: 'timestamp', column: 't.created_at' },
+    completed_at: { type: 'timestamp', column: 't.completed_at' },
+    started_at: { type: 'timestamp', column: 't.started_at' },
+    overdue: {
+      type: 'flag',
+      sql: overdue => overdue
+        ? `(t.due_date < NOW() AND t.status IN ${OPEN_STATUS_SQL})`
+        : `(t.due_date IS NULL OR t.due_date >= NOW() OR t.status NOT IN ${OPEN_STATUS_SQL})`
+    },
+    // Tag ids, matched against the tags JSON array
+    tags: {
+      type: 'set',
+      any: ids => `EXISTS (SELECT 1 FROM jsonb_array_elements(COALESCE(t.tags, '[]'::jsonb)) tag WHERE tag->>'id' = ANY(${ids}::text[]))`,
+      all: ids => `t.tags @> (SELECT jsonb_agg(jsonb_build_object('id', tag_id)) FROM unnest(${ids}::text[]) tag_id)`
+    },
+    has_open_subtasks: {
+      type: 'flag',
+      sql: open => `${open ? '' : 'NOT '}EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(t.subtasks, '[]'::jsonb)) subtask
+        WHERE COALESCE((subtask->>'completed')::boolean, false) = false)`
+    },
+    recurring: {
+      type: 'flag',
+      sql: recurring => `${recurring ? '' : 'NOT '}COALESCE(t.recurrence->>'frequency' <> 'none', false)`
+    }
+  },
+  search: ['t.title', 't.description']
+};
+
 export class TaskModel {
   // Create task
   static async create(data: CreateTaskData): Promise<Task> {
     const query = `
       INSERT INTO tasks (
         user_id, project_id, title, description,
-        energy_requirement, priority, due_date, estimated_duration, points, tags, subtasks, notes, recurrence
+        energy_requirement, priority, due_date, estimated_duration, points, tags, subtasks, recurrence, status,
+        complete_with_subtasks
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       RETURNING *
     `;
     
@@ -103,8 +192,9 @@ export class TaskModel {
       basePoints,
       JSON.stringify(data.tags || []),
       JSON.stringify(data.subtasks || []),
-      JSON.stringify(data.notes || []),
-      data.recurrence ? JSON.stringify(data.recurrence) : null
+      data.recurrence ? JSON.stringify(data.recurrence) : null,
+      data.status || 'pending',
+      data.complete_with_subtasks || false
     ]);
   }
 
@@ -161,7 +251,7 @@ export class TaskModel {
         END as project
       FROM tasks t
       LEFT JOIN projects p ON t.project_id = p.id
-      WHERE t.user_id = $1 AND t.status = 'pending'
+      WHERE t.user_id = $1 AND t.status IN ('pending', 'in_progress') AND t.deleted_at IS NULL
     `;
 
     const params: any[] = [userId, currentEnergyLevel];
@@ -194,7 +284,7 @@ export class TaskModel {
   static async findById(id: string, userId: string): Promise<Task | null> {
     try {
       return await db.one(
-        'SELECT * FROM tasks WHERE id = $1 AND user_id = $2',
+        'SELECT * FROM tasks WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
         [id, userId]
       );
     } catch (error) {
@@ -202,33 +292,78 @@ export class TaskModel {
     }
   }
 
-  // Get all user tasks
-  static async getUserTasks(
-    userId: string,
+  // Get task by ID for any user; callers must check access with the policy layer first
+  static async findUnscoped(id: string): Promise<Task | null> {
+    try {
+      return await db.oneOrNone('SELECT * FROM tasks WHERE id = $1 AND deleted_at IS NULL', [id]);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Get a task from the trash; trashed tasks are invisible to every other lookup
+  static async findTrashed(id: string): Promise<Task | null> {
+    return await db.oneOrNone('SELECT * FROM tasks WHERE id = $1 AND deleted_at IS NOT NULL', [id]);
+  }
+
+  // Get user tasks, one page at a time
+  static async getUserTasks(userId: string, listQuery: ListQuery): Promise<Page<Task>> {
+    const params: unknown[] = [userId];
+    const list = buildListSql(TASK_LISTING, listQuery, params);
+
+    const rows = await db.any(
+      `SELECT
+        t.*,
+        CASE
+          WHEN p.id IS NOT NULL THEN json_build_object(
+            'id', p.id,
+            'name', p.name,
+            'color', p.color
+          )
+          ELSE NULL
+        END as project,
+        ${list.cursorColumn}
+      FROM tasks t
+      LEFT JOIN projects p ON t.project_id = p.id
+      WHERE t.user_id = $1 AND t.deleted_at IS NULL${list.where}${list.orderBy}${list.limit}`,
+      params
+    );
+
+    return toPage<Task>(rows, listQuery);
+  }
+
+  // Get all tasks in a project regardless of who created them (shared projects)
+  static async getProjectTasks(
+    projectId: string,
     filters?: {
       status?: string;
-      project_id?: string;
       priority?: number;
     },
     limit = 100,
     offset = 0
   ): Promise<Task[]> {
     let query = `
-      SELECT 
+      SELECT
         t.*,
-        CASE 
-          WHEN p.id IS NOT NULL THEN json_build_object(
-            'id', p.id,
-            'name', p.name,
-            'color', p.color
+        json_build_object(
+          'id', u.id,
+          'name', u.name,
+          'avatar_url', u.avatar_url
+        ) as creator,
+        CASE
+          WHEN a.id IS NOT NULL THEN json_build_object(
+            'id', a.id,
+            'name', a.name,
+            'avatar_url', a.avatar_url
           )
           ELSE NULL
-        END as project
+        END as assignee
       FROM tasks t
-      LEFT JOIN projects p ON t.project_id = p.id
-      WHERE t.user_id = $1
+      JOIN users u ON t.user_id = u.id
+      LEFT JOIN users a ON t.assignee_id = a.id
+      WHERE t.project_id = $1 AND t.deleted_at IS NULL
     `;
-    const params: any[] = [userId];
+    const params: any[] = [projectId];
     let paramCount = 2;
 
     if (filters?.status) {
@@ -237,12 +372,6 @@ export class TaskModel {
       paramCount++;
     }
 
-    if (filters?.project_id) {
-      query += ` AND t.project_id = $${paramCount}`;
-      params.push(filters.project_id);
-      paramCount++;
-    }
-
     if (filters?.priority) {
       query += ` AND t.priority = $${paramCount}`;
       params.push(filters.priority);
@@ -255,6 +384,106 @@ export class TaskModel {
     return await db.any(query, params);
   }
 
+  // Get a task by ID within a project (any creator)
+  static async findInProject(id: string, projectId: string): Promise<Task | null> {
+    return await db.oneOrNone(
+      'SELECT * FROM tasks WHERE id = $1 AND project_id = $2 AND deleted_at IS NULL',
+      [id, projectId]
+    );
+  }
+
+  // Get open tasks assigned to a user
+  static async getAssignedTasks(assigneeId: string, limit = 100, offset = 0): Promise<Task[]> {
+    return await db.any(
+      `SELECT
+         t.*,
+         json_build_object(
+           'id', p.id,
+           'name', p.name,
+           'color', p.color
+         ) as project
+       FROM tasks t
+       JOIN projects p ON t.project_id = p.id
+       WHERE t.assignee_id = $1 AND t.status IN ${OPEN_STATUS_SQL} AND t.deleted_at IS NULL
+       ORDER BY t.priority DESC, t.due_date ASC NULLS LAST
+       LIMIT $2 OFFSET $3`,
+      [assigneeId, limit, offset]
+    );
+  }
+
+  // Assign (or unassign with null) a task
+  static async assign(id: string, assigneeId: string | null, assignedBy: string): Promise<Task> {
+    return await db.one(
+      `UPDATE tasks
+       SET assignee_id = $2,
+           assigned_by = CASE WHEN $2::varchar IS NULL THEN NULL ELSE $3 END,
+           assigned_at = CASE WHEN $2::varchar IS NULL THEN NULL ELSE NOW() END
+       WHERE id = $1
+       RETURNING *`,
+      [id, assigneeId, assignedBy]
+    );
+  }
+
+  // Get tasks awaiting approval in a team's shared projects, oldest first
+  // Pass projectOwnerId to limit the queue to that user's projects
+  static async getApprovalQueue(teamId: string, projectOwnerId?: string): Promise<Task[]> {
+    return await db.any(
+      `SELECT
+         t.*,
+         json_build_object(
+           'id', p.id,
+           'name', p.name,
+           'color', p.color
+         ) as project,
+         json_build_object(
+           'id', u.id,
+           'name', u.name,
+           'avatar_url', u.avatar_url
+         ) as creator
+       FROM tasks t
+       JOIN shared_projects sp ON sp.project_id = t.project_id AND sp.team_id = $1
+       JOIN projects p ON p.id = t.project_id
+       JOIN users u ON u.id = t.user_id
+       WHERE t.status = 'awaiting_approval' AND t.deleted_at IS NULL
+         AND ($2::varchar IS NULL OR p.user_id = $2)
+       ORDER BY t.created_at ASC`,
+      [teamId, projectOwnerId || null]
+    );
+  }
+
+  // Approve a task awaiting approval; returns null if it was already reviewed
+  static async approve(id: string, reviewerId: string): Promise<Task | null> {
+    return await db.oneOrNone(
+      `UPDATE tasks
+       SET status = 'pending', reviewed_by = $2, reviewed_at = NOW(), rejection_reason = NULL
+       WHERE id = $1 AND status = 'awaiting_approval'
+       RETURNING *`,
+      [id, reviewerId]
+    );
+  }
+
+  // Reject a task awaiting approval; returns null if it was already reviewed
+  static async reject(id: string, reviewerId: string, reason: string): Promise<Task | null> {
+    return await db.oneOrNone(
+      `UPDATE tasks
+       SET status = 'rejected', reviewed_by = $2, reviewed_at = NOW(), rejection_reason = $3
+       WHERE id = $1 AND status = 'awaiting_approval'
+       RETURNING *`,
+      [id, reviewerId, reason]
+    );
+  }
+
+  // Send a rejected task back for approval (creator only)
+  static async resubmit(id: string, userId: string): Promise<Task | null> {
+    return await db.oneOrNone(
+      `UPDATE tasks
+       SET status = 'awaiting_approval', reviewed_by = NULL, reviewed_at = NULL, rejection_reason = NULL
+       WHERE id = $1 AND user_id = $2 AND status = 'rejected'
+       RETURNING *`,
+      [id, userId]
+    );
+  }
+
   // Update task
   static async update(id: string, userId: string, data: Partial<CreateTaskData>): Promise<Task> {
     const fields: string[] = [];
@@ -322,43 +551,107 @@ export class TaskModel {
       paramCount++;
     }
 
-    if (data.notes !== undefined) {
-      fields.push(`notes = $${paramCount}`);
-      values.push(JSON.stringify(data.notes));
-      paramCount++;
-    }
-
     if (data.recurrence !== undefined) {
       fields.push(`recurrence = $${paramCount}`);
       values.push(data.recurrence ? JSON.stringify(data.recurrence) : null);
       paramCount++;
     }
 
+    if (data.complete_with_subtasks !== undefined) {
+      fields.push(`complete_with_subtasks = $${paramCount}`);
+      values.push(data.complete_with_subtasks);
+      paramCount++;
+    }
+
     values.push(id, userId);
 
     const query = `
       UPDATE tasks
       SET ${fields.join(', ')}
-      WHERE id = $${paramCount} AND user_id = $${paramCount + 1}
+      WHERE id = $${paramCount} AND user_id = $${paramCount + 1} AND deleted_at IS NULL
       RETURNING *
     `;
 
     return await db.one(query, values);
   }
 
-  // Complete task
-  static async complete(
+  // Rewrite a task's subtasks under a row lock so concurrent edits can't overwrite each other
+  // change may throw to abort; returns null if the task doesn't exist
+  static async updateSubtasks(id: string, change: (subtasks: Subtask[]) => Subtask[]): Promise<Task | null> {
+    return await db.tx(async t => {
+      const row = await t.oneOrNone('SELECT subtasks FROM tasks WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', [id]);
+      if (!row) {
+        return null;
+      }
+
+      return await t.one(
+        'UPDATE tasks SET subtasks = $2 WHERE id = $1 RETURNING *',
+        [id, JSON.stringify(change(row.subtasks || []))]
+      );
+    });
+  }
+
+  // Turn a subtask into a task of its own that the parent then requires (a task dependency)
+  // The new task copies the parent's owner, project, priority, energy, due date and tags
+  static async promoteSubtask(
     id: string,
-    userId: string,
+    subtaskId: string,
+    check: (subtask: Subtask, parent: Task) => void
+  ): Promise<{ parent: Task; task: Task; dependency_id: string } | null> {
+    return await db.tx(async t => {
+      const parent: Task | null = await t.oneOrNone(
+        'SELECT * FROM tasks WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [id]
+      );
+      const subtask = parent?.subtasks?.find(item => item.id === subtaskId);
+      if (!parent || !subtask) {
+        return null;
+      }
+      check(subtask, parent);
+
+      const task: Task = await t.one(
+        `INSERT INTO tasks (
+           user_id, project_id, title, energy_requirement, priority, due_date, points, tags, status
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          parent.user_id,
+          parent.project_id || null,
+          subtask.text,
+          parent.energy_requirement,
+          parent.priority,
+          parent.due_date || null,
+          this.calculateBasePoints(parent.priority, parent.energy_requirement),
+          JSON.stringify(parent.tags || []),
+          // Still needs approval if the parent does
+          parent.status === 'awaiting_approval' ? 'awaiting_approval' : 'pending'
+        ]
+      );
+
+      const updatedParent: Task = await t.one(
+        'UPDATE tasks SET subtasks = $2 WHERE id = $1 RETURNING *',
+        [id, JSON.stringify(parent.subtasks!.filter(item => item.id !== subtaskId))]
+      );
+
+      const dependency = await t.one(
+        `INSERT INTO task_dependencies (task_id, depends_on_task_id, type, created_at)
+         VALUES ($1, $2, 'requires', NOW())
+         RETURNING id`,
+        [id, task.id]
+      );
+
+      return { parent: updatedParent, task, dependency_id: dependency.id };
+    });
+  }
+
+  // Complete a task, keeping the points it earned so a reopen can take them back;
+  // returns null if its status changed since it was loaded
+  static async complete(
+    task: Task,
     actualDuration?: number,
     currentEnergyLevel?: number
-  ): Promise<{ task: Task; points_earned: number; bonus_points: number }> {
-    const task = await this.findById(id, userId);
-    
-    if (!task) {
-      throw new Error('Task not found');
-    }
-
+  ): Promise<{ task: Task; points_earned: number; bonus_points: number } | null> {
     // Calculate bonus points for energy match
     let bonusPoints = 0;
     if (currentEnergyLevel && task.energy_requirement === currentEnergyLevel) {
@@ -371,12 +664,16 @@ export class TaskModel {
       UPDATE tasks
       SET status = 'completed',
           completed_at = NOW(),
-          actual_duration = $1
-      WHERE id = $2 AND user_id = $3
+          actual_duration = $1,
+          points_awarded = $2
+      WHERE id = $3 AND status = $4 AND deleted_at IS NULL
       RETURNING *
     `;
 
-    const completedTask = await db.one(query, [actualDuration || null, id, userId]);
+    const completedTask = await db.oneOrNone(query, [actualDuration || null, totalPoints, task.id, task.status]);
+    if (!completedTask) {
+      return null;
+    }
 
     return {
       task: completedTask,
@@ -385,26 +682,232 @@ export class TaskModel {
     };
   }
 
-  // Delete task
-  static async delete(id: string, userId: string): Promise<boolean> {
-    const result = await db.result(
-      'DELETE FROM tasks WHERE id = $1 AND user_id = $2',
-      [id, userId]
+  // Move a task from `from` to any status but completed; leaving completed clears the completion
+  // and its points. Returns null if the status changed in the meantime
+  static async setStatus(id: string, from: TaskStatus, to: Exclude<TaskStatus, 'completed'>): Promise<Task | null> {
+    return await db.oneOrNone(
+      `UPDATE tasks
+       SET status = $3,
+           started_at = CASE WHEN $3 = 'in_progress' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+           completed_at = CASE WHEN status = 'completed' THEN NULL ELSE completed_at END,
+           actual_duration = CASE WHEN status = 'completed' THEN NULL ELSE actual_duration END,
+           points_awarded = CASE WHEN status = 'completed' THEN NULL ELSE points_awarded END
+       WHERE id = $1 AND status = $2 AND deleted_at IS NULL
+       RETURNING *`,
+      [id, from, to]
+    );
+  }
+
+  // Every status the task has been in, oldest first
+  static async getStatusTransitions(id: string): Promise<TaskStatusTransition[]> {
+    return await db.any(
+      'SELECT * FROM task_status_transitions WHERE task_id = $1 ORDER BY created_at ASC, id',
+      [id]
+    );
+  }
+
+  // Move a task to the trash; its dependencies, comments and history stay in place
+  static async trash(id: string, deletedBy: string): Promise<Task | null> {
+    return await db.oneOrNone(
+      `UPDATE tasks SET deleted_at = NOW(), deleted_by = $2, deleted_with_project = false
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [id, deletedBy]
+    );
+  }
+
+  // Take a task out of the trash; returns null if it isn't there
+  static async restore(id: string): Promise<Task | null> {
+    return await db.oneOrNone(
+      `UPDATE tasks SET deleted_at = NULL, deleted_by = NULL, deleted_with_project = false
+       WHERE id = $1 AND deleted_at IS NOT NULL
+       RETURNING *`,
+      [id]
     );
+  }
+
+  // Trashed tasks the user owns or deleted, leaving out those that went with a trashed project
+  static async getTrash(userId: string): Promise<Task[]> {
+    return await db.any(
+      `SELECT * FROM tasks
+       WHERE deleted_at IS NOT NULL AND NOT deleted_with_project
+         AND (user_id = $1 OR deleted_by = $1)
+       ORDER BY deleted_at DESC, id`,
+      [userId]
+    );
+  }
+
+  // Permanently delete a trashed task
+  static async purge(id: string): Promise<boolean> {
+    const result = await db.result('DELETE FROM tasks WHERE id = $1 AND deleted_at IS NOT NULL', [id]);
     return result.rowCount > 0;
   }
 
+  // Create the next instance of a recurring task series
+  // Returns null if the parent already generated its successor
+  // An instance of a task still awaiting approval awaits approval too; rejected and cancelled tasks have none
+  static async createRecurrenceInstance(parentId: string, dueDate: Date): Promise<Task | null> {
+    const query = `
+      INSERT INTO tasks (
+        user_id, project_id, title, description,
+        energy_requirement, priority, due_date, estimated_duration, points, tags, subtasks, recurrence,
+        complete_with_subtasks, series_id, recurrence_parent_id, status
+      )
+      SELECT
+        user_id, project_id, title, description,
+        energy_requirement, priority, $2, estimated_duration, points, tags,
+        COALESCE(
+          (SELECT jsonb_agg(s || '{"completed": false}'::jsonb) FROM jsonb_array_elements(subtasks) s),
+          '[]'::jsonb
+        ),
+        recurrence,
+        complete_with_subtasks,
+        COALESCE(series_id, id),
+        id,
+        CASE WHEN status = 'awaiting_approval' THEN 'awaiting_approval' ELSE 'pending' END
+      FROM tasks
+      WHERE id = $1 AND deleted_at IS NULL AND status NOT IN ('rejected', 'cancelled')
+      ON CONFLICT (recurrence_parent_id) WHERE recurrence_parent_id IS NOT NULL DO NOTHING
+      RETURNING *
+    `;
+
+    return await db.oneOrNone(query, [parentId, dueDate]);
+  }
+
+  // Get recurring tasks that are completed or overdue but have not generated their next instance;
+  // rejected and cancelled tasks end their series
+  static async getRecurringTasksDue(now: Date, limit = 500): Promise<Task[]> {
+    const query = `
+      SELECT t.*
+      FROM tasks t
+      WHERE t.recurrence IS NOT NULL
+        AND t.deleted_at IS NULL
+        AND (t.recurrence->>'is_active')::boolean = true
+        AND t.recurrence->>'frequency' <> 'none'
+        AND t.status NOT IN ('rejected', 'cancelled')
+        AND (t.status = 'completed' OR t.due_date < $1)
+        AND NOT EXISTS (SELECT 1 FROM tasks c WHERE c.recurrence_parent_id = t.id)
+      ORDER BY t.due_date ASC NULLS LAST
+      LIMIT $2
+    `;
+
+    return await db.any(query, [now, limit]);
+  }
+
+  // Due date of any task, trashed or not; recurring series read their first task's date through this
+  static async getDueDate(id: string): Promise<Date | null> {
+    const row = await db.oneOrNone('SELECT due_date FROM tasks WHERE id = $1', [id]);
+    return row ? row.due_date : null;
+  }
+
+  // Mark a task's recurrence as finished
+  static async deactivateRecurrence(id: string): Promise<void> {
+    await db.none(
+      `UPDATE tasks SET recurrence = jsonb_set(recurrence, '{is_active}', 'false'::jsonb) WHERE id = $1 AND recurrence IS NOT NULL`,
+      [id]
+    );
+  }
+
+  // Get every instance in a recurring task series
+  static async getSeriesTasks(seriesId: string, userId: string): Promise<Task[]> {
+    return await db.any(
+      `SELECT * FROM tasks
+       WHERE user_id = $2 AND (id = $1 OR series_id = $1) AND deleted_at IS NULL
+       ORDER BY due_date ASC NULLS LAST, created_at ASC`,
+      [seriesId, userId]
+    );
+  }
+
+  // Get open tasks due within each active owner's reminder window that haven't had a reminder yet
+  static async getTasksDueForReminder(
+    now: Date,
+    limit = 500
+  ): Promise<(Task & { user_email: string; user_timezone: string; user_locale: string })[]> {
+    const query = `
+      SELECT t.*, u.email as user_email, u.timezone as user_timezone, u.locale as user_locale
+      FROM tasks t
+      JOIN users u ON u.id = t.user_id
+      LEFT JOIN notification_preferences np ON np.user_id = t.user_id
+      WHERE t.status IN ${OPEN_STATUS_SQL}
+        AND t.deleted_at IS NULL
+        AND t.due_date > $1
+        AND t.due_date <= $1::timestamp + (COALESCE(np.reminder_hours_before, 24) * INTERVAL '1 hour')
+        AND COALESCE(np.email_due_date_reminders, true)
+        AND u.disabled_at IS NULL
+        AND u.deletion_scheduled_for IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM notification_deliveries nd
+          WHERE nd.task_id = t.id AND nd.type = 'due_date_reminder'
+        )
+      ORDER BY t.due_date ASC
+      LIMIT $2
+    `;
+
+    return await db.any(query, [now, limit]);
+  }
+
+  // Get completed task count and points since a point in time
+  static async getCompletionSummary(userId: string, since: Date): Promise<{ completed: number; points: number }> {
+    const result = await db.one(
+      `SELECT COUNT(*) as completed, COALESCE(SUM(points_awarded), 0) as points
+       FROM tasks
+       WHERE user_id = $1 AND status = 'completed' AND completed_at >= $2 AND deleted_at IS NULL`,
+      [userId, since]
+    );
+
+    return {
+      completed: parseInt(result.completed),
+      points: parseInt(result.points)
+    };
+  }
+
+  // Count consecutive days (ending today or yesterday) with at least one completed task
+  static async getCompletionStreak(userId: string, now: Date): Promise<number> {
+    const rows = await db.any(
+      `SELECT DISTINCT completed_at::date as day
+       FROM tasks
+       WHERE user_id = $1 AND status = 'completed' AND completed_at >= $2::timestamp - INTERVAL '365 days'
+         AND deleted_at IS NULL
+       ORDER BY day DESC`,
+      [userId, now]
+    );
+
+    const days = new Set(rows.map((row: any) => new Date(row.day).toISOString().slice(0, 10)));
+    const dayMs = 24 * 60 * 60 * 1000;
+    let cursor = now.getTime();
+
+    // Today doesn't break the streak until it's over
+    if (!days.has(new Date(cursor).toISOString().slice(0, 10))) {
+      cursor -= dayMs;
+    }
+
+    let streak = 0;
+    while (days.has(new Date(cursor).toISOString().slice(0, 10))) {
+      streak++;
+      cursor -= dayMs;
+    }
+
+    return streak;
+  }
+
   // Get task statistics
   static async getTaskStats(userId: string): Promise<any> {
     const query = `
       SELECT
+        COUNT(*) FILTER (WHERE status = 'backlog') as backlog_count,
         COUNT(*) FILTER (WHERE status = 'pending') as pending_count,
+        COUNT(*) FILTER (WHERE status = 'in_progress') as in_progress_count,
+        COUNT(*) FILTER (WHERE status = 'blocked') as blocked_count,
         COUNT(*) FILTER (WHERE status = 'completed') as completed_count,
+        COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled_count,
         COUNT(*) FILTER (WHERE status = 'completed' AND completed_at > NOW() - INTERVAL '7 days') as completed_this_week,
-        SUM(points) FILTER (WHERE status = 'completed') as total_points,
-        AVG(actual_duration) FILTER (WHERE status = 'completed' AND actual_duration IS NOT NULL) as avg_duration
+        SUM(points_awarded) FILTER (WHERE status = 'completed') as total_points,
+        AVG(actual_duration) FILTER (WHERE status = 'completed' AND actual_duration IS NOT NULL) as avg_duration,
+        -- Cycle time runs from the first move to in_progress (or creation, if it never got one) to completion
+        AVG(EXTRACT(EPOCH FROM completed_at - COALESCE(started_at, created_at)) / 3600)
+          FILTER (WHERE status = 'completed' AND completed_at IS NOT NULL) as avg_cycle_time_hours
       FROM tasks
-      WHERE user_id = $1
+      WHERE user_id = $1 AND deleted_at IS NULL
     `;
 
     return await db.one(query, [userId]);
@@ -0,0 +1,117 @@
+import db from '../utils/database';
+import { ListingSpec, ListQuery, Page, buildListSql, toPage } from '../utils/listing';
+import { Task } from './Task';
+
+export type TaskActivityAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'assigned'
+  | 'completed'
+  | 'dependency_added'
+  | 'dependency_removed'
+  | 'deleted'
+  | 'restored';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface TaskActivity {
+  id: string;
+  task_id: string;
+  task_title: string;
+  owner_id: string;
+  assignee_id: string | null;
+  project_id: string | null;
+  actor_id: string | null; // Null for system changes
+  actor?: { id: string; name: string; avatar_url?: string | null } | null;
+  action: TaskActivityAction;
+  changes: Record<string, FieldChange>;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+}
+
+export interface CreateTaskActivityData {
+  task: Task; // Snapshot taken after the change
+  actor_id: string | null;
+  action: TaskActivityAction;
+  changes?: Record<string, FieldChange>;
+  metadata?: Record<string, unknown>;
+}
+
+// Feeds read newest first
+export const ACTIVITY_LISTING: ListingSpec = {
+  id: 'a.id',
+  defaultSort: '-created_at',
+  sorts: {
+    created_at: { column: 'a.created_at', type: 'timestamp' }
+  },
+  filters: {
+    action: { type: 'text', column: 'a.action' },
+    actor_id: { type: 'text', column: 'a.actor_id' },
+    task_id: { type: 'uuid', column: 'a.task_id' },
+    project_id: { type: 'uuid', column: 'a.project_id' },
+    created_at: { type: 'timestamp', column: 'a.created_at' }
+  }
+};
+
+const ACTOR = `CASE WHEN u.id IS NOT NULL
+  THEN json_build_object('id', u.id, 'name', u.name, 'avatar_url', u.avatar_url)
+  ELSE NULL END as actor`;
+
+export class TaskActivityModel {
+  static async create(data: CreateTaskActivityData): Promise<TaskActivity> {
+    const { task } = data;
+    return await db.one(
+      `INSERT INTO task_activity
+         (task_id, task_title, owner_id, assignee_id, project_id, actor_id, action, changes, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        task.id,
+        task.title,
+        task.user_id,
+        task.assignee_id || null,
+        task.project_id || null,
+        data.actor_id,
+        data.action,
+        JSON.stringify(data.changes || {}),
+        JSON.stringify(data.metadata || {})
+      ]
+    );
+  }
+
+  static async listForTask(taskId: string, listQuery: ListQuery): Promise<Page<TaskActivity>> {
+    return await this.list('a.task_id = $1', [taskId], listQuery);
+  }
+
+  // Changes to tasks the user owns or is assigned, and everything the user did
+  static async listForUser(userId: string, listQuery: ListQuery): Promise<Page<TaskActivity>> {
+    return await this.list('(a.owner_id = $1 OR a.assignee_id = $1 OR a.actor_id = $1)', [userId], listQuery);
+  }
+
+  // Changes to tasks in projects currently shared with the team
+  static async listForTeam(teamId: string, listQuery: ListQuery): Promise<Page<TaskActivity>> {
+    return await this.list(
+      'a.project_id IN (SELECT project_id FROM shared_projects WHERE team_id = $1)',
+      [teamId],
+      listQuery
+    );
+  }
+
+  private static async list(scope: string, params: unknown[], listQuery: ListQuery): Promise<Page<TaskActivity>> {
+    const list = buildListSql(ACTIVITY_LISTING, listQuery, params);
+
+    const rows = await db.any(
+      `SELECT a.*, ${ACTOR}, ${list.cursorColumn}
+       FROM task_activity a
+       LEFT JOIN users u ON u.id = a.actor_id
+       WHERE ${scope}${list.where}${list.orderBy}${list.limit}`,
+      params
+    );
+
+    return toPage<TaskActivity>(rows, listQuery);
+  }
+}
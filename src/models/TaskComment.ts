@@ -0,0 +1,142 @@
+import db from '../utils/database';
+import { ListingSpec, ListQuery, Page, buildListSql, toPage } from '../utils/listing';
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  avatar_url?: string | null;
+}
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  author_id: string;
+  author?: CommentAuthor | null;
+  body: string;
+  mentions: string[]; // Users who could read the task when they were mentioned
+  created_at: Date;
+  edited_at: Date | null;
+  deleted_at: Date | null;
+  deleted_by: string | null;
+}
+
+export interface TaskCommentRevision {
+  id: string;
+  comment_id: string;
+  body: string;
+  created_at: Date; // When this version was written
+  replaced_at: Date;
+}
+
+export interface CreateTaskCommentData {
+  task_id: string;
+  author_id: string;
+  body: string;
+  mentions: string[];
+}
+
+// Threads read oldest first; ?sort=-created_at for newest first
+export const COMMENT_LISTING: ListingSpec = {
+  id: 'c.id',
+  defaultSort: 'created_at',
+  sorts: {
+    created_at: { column: 'c.created_at', type: 'timestamp' }
+  },
+  filters: {
+    author_id: { type: 'text', column: 'c.author_id' },
+    created_at: { type: 'timestamp', column: 'c.created_at' }
+  }
+};
+
+const AUTHOR = `CASE WHEN u.id IS NOT NULL
+  THEN json_build_object('id', u.id, 'name', u.name, 'avatar_url', u.avatar_url)
+  ELSE NULL END as author`;
+
+export class TaskCommentModel {
+  static async create(data: CreateTaskCommentData): Promise<TaskComment> {
+    return await db.one(
+      `WITH c AS (
+         INSERT INTO task_comments (task_id, author_id, body, mentions)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *
+       )
+       SELECT c.*, ${AUTHOR} FROM c LEFT JOIN users u ON u.id = c.author_id`,
+      [data.task_id, data.author_id, data.body, data.mentions]
+    );
+  }
+
+  static async findById(taskId: string, id: string): Promise<TaskComment | null> {
+    return await db.oneOrNone(
+      `SELECT c.*, ${AUTHOR}
+       FROM task_comments c
+       LEFT JOIN users u ON u.id = c.author_id
+       WHERE c.task_id = $1 AND c.id = $2`,
+      [taskId, id]
+    );
+  }
+
+  // A page of the task's thread; deleted comments stay in place so replies keep their context
+  static async listForTask(taskId: string, listQuery: ListQuery): Promise<Page<TaskComment>> {
+    const params: unknown[] = [taskId];
+    const list = buildListSql(COMMENT_LISTING, listQuery, params);
+
+    const rows = await db.any(
+      `SELECT c.*, ${AUTHOR}, ${list.cursorColumn}
+       FROM task_comments c
+       LEFT JOIN users u ON u.id = c.author_id
+       WHERE c.task_id = $1${list.where}${list.orderBy}${list.limit}`,
+      params
+    );
+
+    return toPage<TaskComment>(rows, listQuery);
+  }
+
+  // Replace the body, keeping the previous version as a revision; null when the comment is gone or deleted
+  static async update(id: string, body: string, mentions: string[]): Promise<TaskComment | null> {
+    return await db.tx(async t => {
+      const current: TaskComment | null = await t.oneOrNone(
+        'SELECT * FROM task_comments WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [id]
+      );
+      if (!current) {
+        return null;
+      }
+
+      await t.none(
+        'INSERT INTO task_comment_revisions (comment_id, body, created_at) VALUES ($1, $2, $3)',
+        [id, current.body, current.edited_at || current.created_at]
+      );
+
+      return await t.one(
+        `WITH c AS (
+           UPDATE task_comments SET body = $2, mentions = $3, edited_at = NOW()
+           WHERE id = $1
+           RETURNING *
+         )
+         SELECT c.*, ${AUTHOR} FROM c LEFT JOIN users u ON u.id = c.author_id`,
+        [id, body, mentions]
+      );
+    });
+  }
+
+  // The row and its history are kept; readers only see that a comment was removed
+  static async softDelete(id: string, deletedBy: string): Promise<TaskComment | null> {
+    return await db.oneOrNone(
+      `WITH c AS (
+         UPDATE task_comments SET deleted_at = NOW(), deleted_by = $2
+         WHERE id = $1 AND deleted_at IS NULL
+         RETURNING *
+       )
+       SELECT c.*, ${AUTHOR} FROM c LEFT JOIN users u ON u.id = c.author_id`,
+      [id, deletedBy]
+    );
+  }
+
+  // Earlier versions, oldest first
+  static async listRevisions(id: string): Promise<TaskCommentRevision[]> {
+    return await db.any(
+      'SELECT * FROM task_comment_revisions WHERE comment_id = $1 ORDER BY replaced_at, id',
+      [id]
+    );
+  }
+}
@@ -0,0 +1,282 @@
+import db from '../utils/database';
+import { OPEN_STATUS_SQL } from './Task';
+
+export type TeamRole = 'owner' | 'admin' | 'member' | 'viewer';
+export type TeamMemberStatus = 'active' | 'pending' | 'suspended';
+
+export interface TeamSettings {
+  allowMemberInvites: boolean;
+  defaultMemberRole: TeamRole;
+  requireApprovalForTasks: boolean;
+  energyInsightsVisible: boolean;
+  maxMembers: number;
+  timezone: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description?: string;
+  owner_id: string;
+  settings: TeamSettings;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TeamMember {
+  id: string;
+  team_id: string;
+  user_id: string;
+  role: TeamRole;
+  joined_at: Date;
+  last_active_at?: Date;
+  status: TeamMemberStatus;
+}
+
+// Active member with the signals used for auto-assignment
+export interface AssignmentCandidate {
+  user_id: string;
+  name: string;
+  role: TeamRole;
+  avg_energy: number | null;
+  latest_energy: number | null;
+  latest_energy_at: Date | null;
+  open_tasks: number;
+  open_minutes: number;
+}
+
+export interface OwnedTeam {
+  id: string;
+  name: string;
+  successor_id: string | null; // Null when nobody else is active on the team
+  successor_name: string | null;
+  other_members: number;
+}
+
+export const DEFAULT_TEAM_SETTINGS: TeamSettings = {
+  allowMemberInvites: true,
+  defaultMemberRole: 'member',
+  requireApprovalForTasks: false,
+  energyInsightsVisible: true,
+  maxMembers: 50,
+  timezone: 'UTC'
+};
+
+// Role hierarchy: owner > admin > member > viewer
+export const TEAM_ROLE_RANK: Record<TeamRole, number> = {
+  owner: 4,
+  admin: 3,
+  member: 2,
+  viewer: 1
+};
+
+// Check that a role is at least `minimum` in the hierarchy
+export function hasTeamRole(role: TeamRole, minimum: TeamRole): boolean {
+  return TEAM_ROLE_RANK[role] >= TEAM_ROLE_RANK[minimum];
+}
+
+// JSONB comes back parsed from pg, but older rows may hold a JSON string
+export function parseTeamSettings(settings: any): TeamSettings {
+  const parsed = typeof settings === 'string' ? JSON.parse(settings) : settings;
+  return { ...DEFAULT_TEAM_SETTINGS, ...(parsed || {}) };
+}
+
+export class TeamModel {
+  // Get team by ID
+  static async findById(id: string): Promise<Team | null> {
+    const team = await db.oneOrNone('SELECT * FROM teams WHERE id = $1', [id]);
+    return team ? { ...team, settings: parseTeamSettings(team.settings) } : null;
+  }
+
+  // Get a user's active membership in a team
+  static async getActiveMembership(teamId: string, userId: string): Promise<TeamMember | null> {
+    return await db.oneOrNone(
+      `SELECT * FROM team_members WHERE team_id = $1 AND user_id = $2 AND status = 'active'`,
+      [teamId, userId]
+    );
+  }
+
+  // Get a user's membership in any status
+  static async getMember(teamId: string, userId: string): Promise<TeamMember | null> {
+    return await db.oneOrNone(
+      `SELECT * FROM team_members WHERE team_id = $1 AND user_id = $2`,
+      [teamId, userId]
+    );
+  }
+
+  // Record that an active member was just seen
+  static async touchLastActive(teamId: string, userId: string): Promise<void> {
+    await db.none(
+      `UPDATE team_members SET last_active_at = NOW()
+       WHERE team_id = $1 AND user_id = $2 AND status = 'active'`,
+      [teamId, userId]
+    );
+  }
+
+  // Update team name, description and settings (settings are merged)
+  static async update(
+    id: string,
+    data: { name?: string; description?: string | null; settings?: Partial<TeamSettings> }
+  ): Promise<Team> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined) {
+      fields.push(`name = $${paramCount}`);
+      values.push(data.name);
+      paramCount++;
+    }
+
+    if (data.description !== undefined) {
+      fields.push(`description = $${paramCount}`);
+      values.push(data.description);
+      paramCount++;
+    }
+
+    if (data.settings !== undefined) {
+      fields.push(`settings = COALESCE(settings, '{}'::jsonb) || $${paramCount}::jsonb`);
+      values.push(JSON.stringify(data.settings));
+      paramCount++;
+    }
+
+    fields.push('updated_at = NOW()');
+    values.push(id);
+
+    const team = await db.one(
+      `UPDATE teams SET ${fields.join(', ')} WHERE id = $${paramCount} RETURNING *`,
+      values
+    );
+    return { ...team, settings: parseTeamSettings(team.settings) };
+  }
+
+  // Delete team (members, invites and shares cascade)
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.result('DELETE FROM teams WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+
+  // Change a member's role (never to or from owner; see transferOwnership)
+  static async updateMemberRole(teamId: string, userId: string, role: Exclude<TeamRole, 'owner'>): Promise<TeamMember | null> {
+    return await db.oneOrNone(
+      `UPDATE team_members SET role = $3
+       WHERE team_id = $1 AND user_id = $2 AND role <> 'owner'
+       RETURNING *`,
+      [teamId, userId, role]
+    );
+  }
+
+  // Suspend or reactivate a member (the owner can't be suspended)
+  static async updateMemberStatus(teamId: string, userId: string, status: TeamMemberStatus): Promise<TeamMember | null> {
+    return await db.oneOrNone(
+      `UPDATE team_members SET status = $3
+       WHERE team_id = $1 AND user_id = $2 AND role <> 'owner'
+       RETURNING *`,
+      [teamId, userId, status]
+    );
+  }
+
+  // Remove a member (the owner can't be removed)
+  static async removeMember(teamId: string, userId: string): Promise<boolean> {
+    const result = await db.result(
+      `DELETE FROM team_members WHERE team_id = $1 AND user_id = $2 AND role <> 'owner'`,
+      [teamId, userId]
+    );
+    return result.rowCount > 0;
+  }
+
+  // Hand ownership to another active member; the previous owner becomes an admin
+  // Runs in one transaction so the team always has exactly one owner
+  static async transferOwnership(teamId: string, fromUserId: string, toUserId: string): Promise<Team> {
+    return await db.tx(async t => {
+      await t.one(
+        `UPDATE teams SET owner_id = $3, updated_at = NOW() WHERE id = $1 AND owner_id = $2 RETURNING id`,
+        [teamId, fromUserId, toUserId]
+      );
+      await t.one(
+        `UPDATE team_members SET role = 'owner'
+         WHERE team_id = $1 AND user_id = $2 AND status = 'active'
+         RETURNING id`,
+        [teamId, toUserId]
+      );
+      await t.none(
+        `UPDATE team_members SET role = 'admin' WHERE team_id = $1 AND user_id = $2`,
+        [teamId, fromUserId]
+      );
+
+      const team = await t.one('SELECT * FROM teams WHERE id = $1', [teamId]);
+      return { ...team, settings: parseTeamSettings(team.settings) };
+    });
+  }
+
+  // Active members with their energy since `since`, latest energy log and open workload
+  // Workload counts open tasks assigned to them plus their own unassigned ones
+  static async getAssignmentCandidates(teamId: string, since: Date): Promise<AssignmentCandidate[]> {
+    return await db.any(
+      `SELECT tm.user_id, u.name, tm.role,
+         recent.avg_energy, latest.energy_level as latest_energy, latest.logged_at as latest_energy_at,
+         load.open_tasks, load.open_minutes
+       FROM team_members tm
+       JOIN users u ON u.id = tm.user_id
+       LEFT JOIN LATERAL (
+         SELECT AVG(energy_level)::float as avg_energy
+         FROM energy_logs WHERE user_id = tm.user_id AND logged_at >= $2
+       ) recent ON true
+       LEFT JOIN LATERAL (
+         SELECT energy_level, logged_at
+         FROM energy_logs WHERE user_id = tm.user_id
+         ORDER BY logged_at DESC LIMIT 1
+       ) latest ON true
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*)::integer as open_tasks,
+           COALESCE(SUM(COALESCE(estimated_duration, 30)), 0)::integer as open_minutes
+         FROM tasks
+         WHERE status IN ${OPEN_STATUS_SQL} AND deleted_at IS NULL
+           AND (assignee_id = tm.user_id OR (assignee_id IS NULL AND user_id = tm.user_id))
+       ) load ON true
+       WHERE tm.team_id = $1 AND tm.status = 'active'`,
+      [teamId, since]
+    );
+  }
+
+  // Teams a user owns, each with the member who would take over (highest role, longest tenure)
+  static async getOwnedTeams(userId: string): Promise<OwnedTeam[]> {
+    return await db.any(
+      `SELECT t.id, t.name,
+         successor.user_id as successor_id,
+         successor.name as successor_name,
+         (SELECT COUNT(*) FROM team_members m
+          WHERE m.team_id = t.id AND m.status = 'active' AND m.user_id <> $1)::integer as other_members
+       FROM teams t
+       LEFT JOIN LATERAL (
+         SELECT tm.user_id, u.name
+         FROM team_members tm
+         JOIN users u ON u.id = tm.user_id
+         WHERE tm.team_id = t.id AND tm.status = 'active' AND tm.user_id <> $1
+         ORDER BY CASE tm.role WHEN 'admin' THEN 0 WHEN 'member' THEN 1 ELSE 2 END, tm.joined_at
+         LIMIT 1
+       ) successor ON true
+       WHERE t.owner_id = $1
+       ORDER BY t.name`,
+      [userId]
+    );
+  }
+
+  // Count active members
+  static async countActiveMembers(teamId: string): Promise<number> {
+    const result = await db.one(
+      `SELECT COUNT(*) as count FROM team_members WHERE team_id = $1 AND status = 'active'`,
+      [teamId]
+    );
+    return parseInt(result.count);
+  }
+
+  // IDs of everyone currently active on the team
+  static async getActiveMemberIds(teamId: string): Promise<string[]> {
+    const rows = await db.any(
+      `SELECT user_id FROM team_members WHERE team_id = $1 AND status = 'active'`,
+      [teamId]
+    );
+    return rows.map((row: { user_id: string }) => row.user_id);
+  }
+}
@@ -0,0 +1,188 @@
+import { randomBytes } from 'crypto';
+import db from '../utils/database';
+import { TeamRole } from './Team';
+
+export type TeamInviteStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+export interface TeamInvite {
+  id: string;
+  team_id: string;
+  email: string;
+  invited_by: string;
+  role: TeamRole;
+  token: string;
+  expires_at: Date;
+  created_at: Date;
+  status: TeamInviteStatus;
+  responded_at?: Date;
+  last_sent_at?: Date;
+  send_count: number;
+}
+
+export interface TeamInviteDetails extends TeamInvite {
+  team_name: string;
+  inviter_name: string;
+}
+
+export type AcceptInviteOutcome = 'accepted' | 'not_pending' | 'expired' | 'team_full' | 'already_member';
+
+// Invites are valid for a week after they are (re)sent
+const INVITE_TTL = `INTERVAL '7 days'`;
+
+const DETAILS_QUERY = `
+  SELECT ti.*, t.name as team_name, u.name as inviter_name
+  FROM team_invites ti
+  JOIN teams t ON t.id = ti.team_id
+  JOIN users u ON u.id = ti.invited_by
+`;
+
+export class TeamInviteModel {
+  static generateToken(): string {
+    return randomBytes(24).toString('hex');
+  }
+
+  // Create a pending invite
+  static async create(teamId: string, email: string, invitedBy: string, role: TeamRole): Promise<TeamInvite> {
+    return await db.one(
+      `INSERT INTO team_invites (team_id, email, invited_by, role, token, expires_at, created_at, status)
+       VALUES ($1, $2, $3, $4, $5, NOW() + ${INVITE_TTL}, NOW(), 'pending')
+       RETURNING *`,
+      [teamId, email.toLowerCase(), invitedBy, role, this.generateToken()]
+    );
+  }
+
+  // Get invite (with team and inviter names) by token
+  static async findByToken(token: string): Promise<TeamInviteDetails | null> {
+    return await db.oneOrNone(`${DETAILS_QUERY} WHERE ti.token = $1`, [token]);
+  }
+
+  // Get invite (with team and inviter names) by ID within a team
+  static async findById(id: string, teamId: string): Promise<TeamInviteDetails | null> {
+    return await db.oneOrNone(`${DETAILS_QUERY} WHERE ti.id = $1 AND ti.team_id = $2`, [id, teamId]);
+  }
+
+  // Get the pending invite for an email in a team, if any
+  static async findPending(teamId: string, email: string): Promise<TeamInvite | null> {
+    return await db.oneOrNone(
+      `SELECT * FROM team_invites
+       WHERE team_id = $1 AND LOWER(email) = LOWER($2) AND status = 'pending' AND expires_at > NOW()
+       LIMIT 1`,
+      [teamId, email]
+    );
+  }
+
+  // List a team's pending invites
+  static async listPendingForTeam(teamId: string): Promise<TeamInviteDetails[]> {
+    return await db.any(
+      `${DETAILS_QUERY}
+       WHERE ti.team_id = $1 AND ti.status = 'pending' AND ti.expires_at > NOW()
+       ORDER BY ti.created_at DESC`,
+      [teamId]
+    );
+  }
+
+  // List pending invites addressed to an email
+  static async listPendingForEmail(email: string): Promise<TeamInviteDetails[]> {
+    return await db.any(
+      `${DETAILS_QUERY}
+       WHERE LOWER(ti.email) = LOWER($1) AND ti.status = 'pending' AND ti.expires_at > NOW()
+       ORDER BY ti.created_at DESC`,
+      [email]
+    );
+  }
+
+  // Count pending invites (they reserve seats against maxMembers)
+  static async countPendingForTeam(teamId: string): Promise<number> {
+    const result = await db.one(
+      `SELECT COUNT(*) as count FROM team_invites
+       WHERE team_id = $1 AND status = 'pending' AND expires_at > NOW()`,
+      [teamId]
+    );
+    return parseInt(result.count);
+  }
+
+  // Record that the invite email went out
+  static async markSent(id: string): Promise<void> {
+    await db.none(
+      `UPDATE team_invites SET last_sent_at = NOW(), send_count = send_count + 1 WHERE id = $1`,
+      [id]
+    );
+  }
+
+  // Issue a fresh token and expiry for a pending or expired invite
+  static async renew(id: string): Promise<TeamInvite | null> {
+    return await db.oneOrNone(
+      `UPDATE team_invites
+       SET token = $2, expires_at = NOW() + ${INVITE_TTL}, status = 'pending'
+       WHERE id = $1 AND status IN ('pending', 'expired')
+       RETURNING *`,
+      [id, this.generateToken()]
+    );
+  }
+
+  // Move a pending invite to a final status
+  static async respond(id: string, status: 'declined' | 'cancelled'): Promise<TeamInvite | null> {
+    return await db.oneOrNone(
+      `UPDATE team_invites SET status = $2, responded_at = NOW()
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [id, status]
+    );
+  }
+
+  // Accept an invite: add the membership with the invited role and close the invite
+  // Re-checks status, expiry and capacity under a row lock so concurrent accepts can't overfill the team
+  static async accept(id: string, userId: string, maxMembers: number): Promise<AcceptInviteOutcome> {
+    return await db.tx(async t => {
+      const invite = await t.oneOrNone('SELECT * FROM team_invites WHERE id = $1 FOR UPDATE', [id]);
+
+      if (!invite || invite.status !== 'pending') {
+        return 'not_pending';
+      }
+
+      if (new Date(invite.expires_at) <= new Date()) {
+        await t.none(`UPDATE team_invites SET status = 'expired' WHERE id = $1`, [id]);
+        return 'expired';
+      }
+
+      // Lock the team row to serialise joins
+      await t.one('SELECT id FROM teams WHERE id = $1 FOR UPDATE', [invite.team_id]);
+
+      const existing = await t.oneOrNone(
+        'SELECT status FROM team_members WHERE team_id = $1 AND user_id = $2',
+        [invite.team_id, userId]
+      );
+      if (existing) {
+        return 'already_member';
+      }
+
+      const { count } = await t.one(
+        `SELECT COUNT(*) as count FROM team_members WHERE team_id = $1 AND status = 'active'`,
+        [invite.team_id]
+      );
+      if (parseInt(count) >= maxMembers) {
+        return 'team_full';
+      }
+
+      await t.none(
+        `INSERT INTO team_members (team_id, user_id, role, joined_at, status)
+         VALUES ($1, $2, $3, NOW(), 'active')`,
+        [invite.team_id, userId, invite.role]
+      );
+      await t.none(
+        `UPDATE team_invites SET status = 'accepted', responded_at = NOW() WHERE id = $1`,
+        [id]
+      );
+
+      return 'accepted';
+    });
+  }
+
+  // Expire pending invites past their expiry date
+  static async expireStale(): Promise<number> {
+    const result = await db.result(
+      `UPDATE team_invites SET status = 'expired' WHERE status = 'pending' AND expires_at <= NOW()`
+    );
+    return result.rowCount;
+  }
+}
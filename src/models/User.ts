@@ -1,13 +1,21 @@
 import db from '../utils/database';
 
+export type UserRole = 'user' | 'admin';
+
 export interface User {
   id: string;
   email: string;
   name: string;
   avatar_url?: string;
   timezone: string;
+  locale: string;
   energy_pattern: any;
   preferences: any;
+  role: UserRole;
+  disabled_at?: Date | null;
+  disabled_reason?: string | null;
+  deletion_requested_at?: Date | null;
+  deletion_scheduled_for?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -17,14 +25,31 @@ export interface CreateUserData {
   name: string;
   avatar_url?: string;
   timezone?: string;
+  locale?: string;
+}
+
+export interface UserSearchFilters {
+  search?: string; // Matches email or name
+  role?: UserRole;
+  status?: 'active' | 'disabled';
+}
+
+export interface UserUsageStats {
+  total_tasks: number;
+  completed_tasks: number;
+  total_projects: number;
+  energy_logs: number;
+  teams: number;
+  last_task_at: Date | null;
+  last_energy_log_at: Date | null;
 }
 
 export class UserModel {
   // Create a new user
   static async create(data: CreateUserData): Promise<User> {
     const query = `
-      INSERT INTO users (email, name, avatar_url, timezone)
-      VALUES ($1, $2, $3, $4)
+      INSERT INTO users (email, name, avatar_url, timezone, locale)
+      VALUES ($1, $2, $3, $4, $5)
       RETURNING *
     `;
     
@@ -32,7 +57,8 @@ export class UserModel {
       data.email,
       data.name,
       data.avatar_url || null,
-      data.timezone || 'UTC'
+      data.timezone || 'UTC',
+      data.locale || 'en-US'
     ]);
   }
 
@@ -78,6 +104,12 @@ export class UserModel {
       paramCount++;
     }
 
+    if (data.locale !== undefined) {
+      fields.push(`locale = $${paramCount}`);
+      values.push(data.locale);
+      paramCount++;
+    }
+
     values.push(id);
 
     const query = `
@@ -98,9 +130,133 @@ export class UserModel {
     );
   }
 
-  // Delete user
-  static async delete(id: string): Promise<boolean> {
-    const result = await db.result('DELETE FROM users WHERE id = $1', [id]);
-    return result.rowCount > 0;
+  // Search users by email or name, role and status (admin)
+  static async search(filters: UserSearchFilters, limit = 100, offset = 0): Promise<{ users: User[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.search) {
+      values.push(`%${filters.search}%`);
+      conditions.push(`(email ILIKE $${values.length} OR name ILIKE $${values.length})`);
+    }
+
+    if (filters.role) {
+      values.push(filters.role);
+      conditions.push(`role = $${values.length}`);
+    }
+
+    if (filters.status === 'active') {
+      conditions.push('disabled_at IS NULL');
+    } else if (filters.status === 'disabled') {
+      conditions.push('disabled_at IS NOT NULL');
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [users, count] = await Promise.all([
+      db.any(
+        `SELECT * FROM users ${where} ORDER BY created_at DESC LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+        [...values, limit, offset]
+      ),
+      db.one(`SELECT COUNT(*) as total FROM users ${where}`, values)
+    ]);
+
+    return { users, total: parseInt(count.total) };
+  }
+
+  // Disable an account (reason required) or re-enable it (null)
+  static async setDisabled(id: string, reason: string | null): Promise<User | null> {
+    return await db.oneOrNone(
+      `UPDATE users
+       SET disabled_at = CASE WHEN $2::text IS NULL THEN NULL ELSE NOW() END,
+           disabled_reason = $2,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, reason]
+    );
+  }
+
+  // Change a user's platform role
+  static async setRole(id: string, role: UserRole): Promise<User | null> {
+    return await db.oneOrNone(
+      'UPDATE users SET role = $2, updated_at = NOW() WHERE id = $1 RETURNING *',
+      [id, role]
+    );
+  }
+
+  // Count active admins (so the last one can't be demoted or disabled)
+  static async countActiveAdmins(): Promise<number> {
+    const result = await db.one(
+      `SELECT COUNT(*) as count FROM users WHERE role = 'admin' AND disabled_at IS NULL`
+    );
+    return parseInt(result.count);
+  }
+
+  // Usage totals for one user (admin)
+  static async getUsageStats(id: string): Promise<UserUsageStats> {
+    const stats = await db.one(
+      `SELECT
+         (SELECT COUNT(*) FROM tasks WHERE user_id = $1 AND deleted_at IS NULL)::integer as total_tasks,
+         (SELECT COUNT(*) FROM tasks WHERE user_id = $1 AND status = 'completed' AND deleted_at IS NULL)::integer as completed_tasks,
+         (SELECT COUNT(*) FROM projects WHERE user_id = $1 AND deleted_at IS NULL)::integer as total_projects,
+         (SELECT COUNT(*) FROM energy_logs WHERE user_id = $1)::integer as energy_logs,
+         (SELECT COUNT(*) FROM team_members WHERE user_id = $1 AND status = 'active')::integer as teams,
+         (SELECT MAX(created_at) FROM tasks WHERE user_id = $1) as last_task_at,
+         (SELECT MAX(logged_at) FROM energy_logs WHERE user_id = $1) as last_energy_log_at`,
+      [id]
+    );
+    return stats;
+  }
+
+  // Schedule the account for purging
+  static async requestDeletion(id: string, scheduledFor: Date): Promise<User> {
+    return await db.one(
+      `UPDATE users
+       SET deletion_requested_at = NOW(), deletion_scheduled_for = $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, scheduledFor]
+    );
+  }
+
+  // Cancel a scheduled deletion; returns null if none was pending
+  static async cancelDeletion(id: string): Promise<User | null> {
+    return await db.oneOrNone(
+      `UPDATE users
+       SET deletion_requested_at = NULL, deletion_scheduled_for = NULL, updated_at = NOW()
+       WHERE id = $1 AND deletion_scheduled_for IS NOT NULL
+       RETURNING *`,
+      [id]
+    );
+  }
+
+  // IDs of accounts whose grace period is over
+  static async getDueForPurge(now: Date, limit = 50): Promise<string[]> {
+    const rows = await db.any(
+      `SELECT id FROM users WHERE deletion_scheduled_for <= $1 ORDER BY deletion_scheduled_for LIMIT $2`,
+      [now, limit]
+    );
+    return rows.map((row: { id: string }) => row.id);
+  }
+
+  // Get active users with the daily summary enabled who haven't had one in the last 20 hours;
+  // disabled accounts and accounts waiting to be purged get none
+  static async getDailySummaryRecipients(now: Date): Promise<Pick<User, 'id' | 'email' | 'timezone' | 'locale'>[]> {
+    return await db.any(
+      `SELECT u.id, u.email, u.timezone, u.locale
+       FROM users u
+       LEFT JOIN notification_preferences np ON np.user_id = u.id
+       WHERE COALESCE(np.email_daily_summary, true)
+         AND u.disabled_at IS NULL
+         AND u.deletion_scheduled_for IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM notification_deliveries nd
+           WHERE nd.user_id = u.id
+             AND nd.type = 'daily_summary'
+             AND nd.created_at > $1::timestamp - INTERVAL '20 hours'
+         )`,
+      [now]
+    );
   }
 }
@@ -0,0 +1,178 @@
+import { TeamModel } from '../models/Team';
+import { ProjectModel, Project } from '../models/Project';
+import { TaskModel, Task } from '../models/Task';
+import { SharedProjectModel, SharedProject } from '../models/SharedProject';
+import {
+  TeamAction,
+  ProjectAction,
+  TaskAction,
+  TeamSubject,
+  ProjectSubject,
+  TaskSubject,
+  canOnTeam,
+  canOnProject,
+  canOnTask
+} from './rules';
+
+export * from './rules';
+
+// Either the loaded resource, or the status and message to respond with
+// Resources the user can't see at all are reported as missing rather than forbidden
+export type PolicyDecision<T> =
+  | { allowed: true; resource: T }
+  | { allowed: false; status: 403 | 404; error: string };
+
+export interface ProjectResource {
+  project: Project;
+  subject: ProjectSubject;
+  share?: SharedProject; // Set when checked through a team (Policy.sharedProject)
+}
+
+export interface TaskResource {
+  task: Task;
+  subject: TaskSubject;
+}
+
+const TEAM_DENIED: Record<TeamAction, string> = {
+  read: 'Not a member of this team',
+  update: 'Only owners and admins can update the team',
+  delete: 'Only the team owner can delete the team',
+  transfer_ownership: 'Only the team owner can transfer ownership',
+  invite: 'Insufficient permissions to invite members',
+  manage_invites: 'Insufficient permissions to manage invitations',
+  manage_members: 'Insufficient permissions to manage members',
+  share_project: 'Insufficient permissions to share projects with this team'
+};
+
+const PROJECT_DENIED: Record<ProjectAction, string> = {
+  read: 'Project not found',
+  update: 'Only the project owner can change this project',
+  delete: 'Only the project owner can delete this project',
+  share: 'Only the project owner can share this project',
+  add_task: 'Insufficient permissions to add tasks to this project',
+  create_task: 'Insufficient permissions to create tasks in this project',
+  manage_share: 'Only the project owner or team admins can change sharing settings',
+  review_tasks: 'Only the project owner or team admins can review tasks'
+};
+
+const TASK_DENIED: Record<TaskAction, string> = {
+  read: 'Task not found',
+  update: 'Insufficient permissions to update this task',
+  complete: 'Insufficient permissions to complete this task',
+  delete: 'Insufficient permissions to delete this task',
+  comment: 'Insufficient permissions to comment on this task',
+  moderate_comments: 'Insufficient permissions to moderate comments on this task'
+};
+
+const deny = <T>(status: 403 | 404, error: string): PolicyDecision<T> => ({ allowed: false, status, error });
+
+export class Policy {
+  // Load what the rules need to know about a project for a user (optionally through one team only)
+  static async loadProjectSubject(project: Project, userId: string, teamId?: string): Promise<ProjectSubject> {
+    return {
+      ownerId: project.user_id,
+      grants: await SharedProjectModel.getGrants(project.id, userId, teamId)
+    };
+  }
+
+  // Can the user perform a team action?
+  static async team(userId: string, action: TeamAction, teamId: string): Promise<PolicyDecision<TeamSubject>> {
+    const team = await TeamModel.findById(teamId);
+    if (!team) {
+      return deny(404, 'Team not found');
+    }
+
+    const subject: TeamSubject = {
+      team,
+      membership: await TeamModel.getActiveMembership(teamId, userId)
+    };
+
+    if (!canOnTeam(userId, 'read', subject)) {
+      return deny(403, TEAM_DENIED.read);
+    }
+    if (!canOnTeam(userId, action, subject)) {
+      return deny(403, TEAM_DENIED[action]);
+    }
+
+    return { allowed: true, resource: subject };
+  }
+
+  // Can the user perform a project action (through any team)?
+  static async project(userId: string, action: ProjectAction, projectId: string): Promise<PolicyDecision<ProjectResource>> {
+    const project = await ProjectModel.findUnscoped(projectId);
+    if (!project) {
+      return deny(404, 'Project not found');
+    }
+
+    return this.decideProject(userId, action, project, await this.loadProjectSubject(project, userId));
+  }
+
+  // Can the user perform a project action through one team the project is shared with?
+  static async sharedProject(
+    userId: string,
+    action: ProjectAction,
+    projectId: string,
+    teamId: string
+  ): Promise<PolicyDecision<ProjectResource>> {
+    const [project, share] = await Promise.all([
+      ProjectModel.findUnscoped(projectId),
+      SharedProjectModel.find(projectId, teamId)
+    ]);
+    if (!project || !share) {
+      return deny(404, 'Shared project not found');
+    }
+
+    const decision = this.decideProject(userId, action, project, await this.loadProjectSubject(project, userId, teamId));
+    if (!decision.allowed) {
+      return decision.status === 404 ? deny(404, 'Shared project not found') : decision;
+    }
+
+    return { allowed: true, resource: { ...decision.resource, share } };
+  }
+
+  // Can the user perform a task action?
+  static async task(userId: string, action: TaskAction, taskId: string): Promise<PolicyDecision<TaskResource>> {
+    const task = await TaskModel.findUnscoped(taskId);
+    if (!task) {
+      return deny(404, 'Task not found');
+    }
+
+    // Personal tasks never need the project lookup unless someone else is asking
+    let project: ProjectSubject | null = null;
+    if (task.project_id && task.user_id !== userId) {
+      const owningProject = await ProjectModel.findUnscoped(task.project_id);
+      project = owningProject ? await this.loadProjectSubject(owningProject, userId) : null;
+    }
+
+    const subject: TaskSubject = {
+      creatorId: task.user_id,
+      assigneeId: task.assignee_id,
+      project
+    };
+
+    if (!canOnTask(userId, 'read', subject)) {
+      return deny(404, TASK_DENIED.read);
+    }
+    if (!canOnTask(userId, action, subject)) {
+      return deny(403, TASK_DENIED[action]);
+    }
+
+    return { allowed: true, resource: { task, subject } };
+  }
+
+  private static decideProject(
+    userId: string,
+    action: ProjectAction,
+    project: Project,
+    subject: ProjectSubject
+  ): PolicyDecision<ProjectResource> {
+    if (!canOnProject(userId, 'read', subject)) {
+      return deny(404, PROJECT_DENIED.read);
+    }
+    if (!canOnProject(userId, action, subject)) {
+      return deny(403, PROJECT_DENIED[action]);
+    }
+
+    return { allowed: true, resource: { project, subject } };
+  }
+}
@@ -0,0 +1,180 @@
+import { Team, TeamMember, TeamRole, TEAM_ROLE_RANK, hasTeamRole } from '../models/Team';
+import { ProjectGrant } from '../models/SharedProject';
+
+// Pure authorization rules: given who is asking and what we know about the resource,
+// decide whether an action is allowed. Loading the facts is done in ./index.ts
+
+export type TeamAction =
+  | 'read'
+  | 'update'
+  | 'delete'
+  | 'transfer_ownership'
+  | 'invite'
+  | 'manage_invites'
+  | 'manage_members'
+  | 'share_project';
+
+export type ProjectAction =
+  | 'read'
+  | 'update'
+  | 'delete'
+  | 'share'
+  | 'add_task'
+  | 'create_task'
+  | 'manage_share'
+  | 'review_tasks';
+
+export type TaskAction = 'read' | 'update' | 'complete' | 'delete' | 'comment' | 'moderate_comments';
+
+export interface TeamSubject {
+  team: Team;
+  membership: TeamMember | null; // The actor's active membership
+}
+
+export interface ProjectSubject {
+  ownerId: string;
+  grants: ProjectGrant[];
+}
+
+export interface TaskSubject {
+  creatorId: string;
+  assigneeId?: string | null;
+  project: ProjectSubject | null;
+}
+
+// Teams
+
+export function canOnTeam(userId: string, action: TeamAction, subject: TeamSubject): boolean {
+  const membership = subject.membership;
+  if (!membership || membership.user_id !== userId) {
+    return false;
+  }
+
+  switch (action) {
+    case 'read':
+      return true;
+    case 'update':
+    case 'manage_members':
+    case 'manage_invites':
+      return hasTeamRole(membership.role, 'admin');
+    case 'delete':
+    case 'transfer_ownership':
+      return membership.role === 'owner';
+    case 'invite':
+      // Members can invite (and see or resend invitations) only when the team allows it
+      return hasTeamRole(membership.role, 'admin')
+        || (membership.role === 'member' && subject.team.settings.allowMemberInvites);
+    case 'share_project':
+      return hasTeamRole(membership.role, 'member');
+  }
+}
+
+// Admins and owners can manage members ranked strictly below them
+export function canManageMember(actorRole: TeamRole, targetRole: TeamRole): boolean {
+  return hasTeamRole(actorRole, 'admin') && TEAM_ROLE_RANK[actorRole] > TEAM_ROLE_RANK[targetRole];
+}
+
+// Admins and owners can grant roles up to their own rank; ownership only moves by transfer
+export function canAssignRole(actorRole: TeamRole, newRole: TeamRole): boolean {
+  return newRole !== 'owner' && hasTeamRole(actorRole, 'admin') && hasTeamRole(actorRole, newRole);
+}
+
+// Inviters can't hand out a role above their own
+export function canInviteWithRole(actorRole: TeamRole, role: TeamRole): boolean {
+  return role !== 'owner' && hasTeamRole(actorRole, role);
+}
+
+// Owners and admins can cancel any invitation; everyone else only the ones they sent
+export function canCancelInvite(userId: string, subject: TeamSubject, invite: { invited_by: string }): boolean {
+  return canOnTeam(userId, 'manage_invites', subject) || invite.invited_by === userId;
+}
+
+// Viewers can see shared work but can't be given any
+export function canTakeTasks(role: TeamRole): boolean {
+  return hasTeamRole(role, 'member');
+}
+
+// Invitations are answered by whoever signs in with the invited email
+export function canRespondToInvite(userEmail: string | undefined, invite: { email: string }): boolean {
+  return !!userEmail && invite.email.toLowerCase() === userEmail.toLowerCase();
+}
+
+// Projects
+
+// Admins can always add tasks through a grant; members only when the share allows it
+function grantAllowsTaskCreation(grant: ProjectGrant): boolean {
+  return hasTeamRole(grant.role, 'admin')
+    || (hasTeamRole(grant.role, 'member') && grant.share.settings.allowMemberTaskCreation);
+}
+
+function grantRequiresApproval(grant: ProjectGrant): boolean {
+  return grant.teamSettings.requireApprovalForTasks || grant.share.settings.requireApprovalForTasks;
+}
+
+export function canOnProject(userId: string, action: ProjectAction, subject: ProjectSubject): boolean {
+  const isOwner = subject.ownerId === userId;
+
+  switch (action) {
+    case 'read':
+      return isOwner || subject.grants.length > 0;
+    case 'update':
+    case 'delete':
+    case 'share':
+      return isOwner;
+    case 'create_task':
+      return isOwner || subject.grants.some(grantAllowsTaskCreation);
+    case 'add_task':
+      // Personal task endpoints have no approval queue, so they only accept projects
+      // the user can add to without approval
+      return isOwner || subject.grants.some(grant => grantAllowsTaskCreation(grant) && !grantRequiresApproval(grant));
+    case 'manage_share':
+    case 'review_tasks':
+      return isOwner || subject.grants.some(grant => hasTeamRole(grant.role, 'admin'));
+  }
+}
+
+// Anyone who can add tasks may take one themselves; assigning others follows allowMemberTaskAssignment
+// Pass assigneeId null to ask whether the user may assign to anyone
+export function canAssignProjectTasks(userId: string, subject: ProjectSubject, assigneeId: string | null): boolean {
+  if (canOnProject(userId, 'manage_share', subject)) {
+    return true;
+  }
+
+  return subject.grants.some(grant =>
+    hasTeamRole(grant.role, 'member')
+      && (assigneeId === userId || grant.share.settings.allowMemberTaskAssignment)
+  );
+}
+
+// Tasks from anyone who can't review them need approval when a team or share asks for it
+export function taskNeedsApproval(userId: string, subject: ProjectSubject): boolean {
+  if (canOnProject(userId, 'review_tasks', subject)) {
+    return false;
+  }
+  return subject.grants.some(grantRequiresApproval);
+}
+
+// Tasks
+
+export function canOnTask(userId: string, action: TaskAction, subject: TaskSubject): boolean {
+  const isCreator = subject.creatorId === userId;
+  const isAssignee = !!subject.assigneeId && subject.assigneeId === userId;
+  const managesProject = !!subject.project && canOnProject(userId, 'manage_share', subject.project);
+
+  switch (action) {
+    case 'read':
+      return isCreator || isAssignee || (!!subject.project && canOnProject(userId, 'read', subject.project));
+    case 'complete':
+      return isCreator || isAssignee || managesProject;
+    case 'update':
+    case 'delete':
+    case 'moderate_comments':
+      return isCreator || managesProject;
+    case 'comment':
+      // Viewers can read a shared project's tasks but not join the discussion
+      return isCreator
+        || isAssignee
+        || (!!subject.project && (subject.project.ownerId === userId
+          || subject.project.grants.some(grant => hasTeamRole(grant.role, 'member'))));
+  }
+}
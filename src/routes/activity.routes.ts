@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { ActivityController } from '../controllers/activity.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.get('/activity', requireAuth, ActivityController.getMyActivity);
+router.get('/tasks/:id/activity', requireAuth, ActivityController.getTaskActivity);
+router.get('/teams/:teamId/activity', requireAuth, ActivityController.getTeamActivity);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { requireAdmin } from '../middleware/admin.middleware';
+
+const router = Router();
+
+// All admin routes require a platform admin
+router.get('/admin/users', requireAdmin, AdminController.listUsers);
+router.get('/admin/users/:id', requireAdmin, AdminController.getUser);
+router.get('/admin/users/:id/stats', requireAdmin, AdminController.getUserStats);
+router.post('/admin/users/:id/disable', requireAdmin, AdminController.disableUser);
+router.post('/admin/users/:id/enable', requireAdmin, AdminController.enableUser);
+router.put('/admin/users/:id/role', requireAdmin, AdminController.setRole);
+router.post('/admin/maintenance/energy-logs/cleanup', requireAdmin, AdminController.cleanupEnergyLogs);
+
+export default router;
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth.middleware';
 import db from '../utils/database';
 import { z } from 'zod';
+import { Policy } from '../policies';
+import { ActivityService } from '../services/activity.service';
 
 const router = Router();
 
@@ -17,7 +19,7 @@ const createDependencySchema = z.object({
  */
 router.post('/:taskId/dependencies', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -26,25 +28,16 @@ router.post('/:taskId/dependencies', requireAuth, async (req: Request, res: Resp
     const taskId = req.params.taskId;
     const validatedData = createDependencySchema.parse(req.body);
 
-    // Check if user owns the task
-    const task = await db.oneOrNone(
-      `SELECT * FROM tasks WHERE id = $1 AND user_id = $2`,
-      [taskId, userId]
-    );
-
-    if (!task) {
-      res.status(404).json({ error: 'Task not found or access denied' });
+    const access = await Policy.task(userId, 'update', taskId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
       return;
     }
 
-    // Check if dependency task exists and user has access
-    const dependencyTask = await db.oneOrNone(
-      `SELECT * FROM tasks WHERE id = $1 AND user_id = $2`,
-      [validatedData.dependsOnTaskId, userId]
-    );
-
-    if (!dependencyTask) {
-      res.status(404).json({ error: 'Dependency task not found or access denied' });
+    // The task it depends on only has to be visible to the user
+    const dependencyAccess = await Policy.task(userId, 'read', validatedData.dependsOnTaskId);
+    if (!dependencyAccess.allowed) {
+      res.status(404).json({ error: 'Dependency task not found' });
       return;
     }
 
@@ -66,6 +59,10 @@ router.post('/:taskId/dependencies', requireAuth, async (req: Request, res: Resp
       [taskId, validatedData.dependsOnTaskId, validatedData.type]
     );
 
+    await ActivityService.record('dependency_added', userId, access.resource.task, {
+      metadata: { dependency_id: dependency.id, depends_on_task_id: dependency.depends_on_task_id, type: dependency.type }
+    });
+
     res.status(201).json({
       success: true,
       data: dependency
@@ -91,7 +88,7 @@ router.post('/:taskId/dependencies', requireAuth, async (req: Request, res: Resp
  */
 router.get('/:taskId/dependencies', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -99,14 +96,9 @@ router.get('/:taskId/dependencies', requireAuth, async (req: Request, res: Respo
 
     const taskId = req.params.taskId;
 
-    // Check if user owns the task
-    const task = await db.oneOrNone(
-      `SELECT * FROM tasks WHERE id = $1 AND user_id = $2`,
-      [taskId, userId]
-    );
-
-    if (!task) {
-      res.status(404).json({ error: 'Task not found or access denied' });
+    const access = await Policy.task(userId, 'read', taskId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
       return;
     }
 
@@ -115,10 +107,10 @@ router.get('/:taskId/dependencies', requireAuth, async (req: Request, res: Respo
       `SELECT 
          td.*,
          t.title as depends_on_title,
-         t.completed as depends_on_completed,
+         (t.status = 'completed') as depends_on_completed,
          t.priority as depends_on_priority
        FROM task_dependencies td
-       JOIN tasks t ON td.depends_on_task_id = t.id
+       JOIN tasks t ON td.depends_on_task_id = t.id AND t.deleted_at IS NULL
        WHERE td.task_id = $1
        ORDER BY td.created_at DESC`,
       [taskId]
@@ -129,9 +121,9 @@ router.get('/:taskId/dependencies', requireAuth, async (req: Request, res: Respo
       `SELECT 
          td.*,
          t.title as task_title,
-         t.completed as task_completed
+         (t.status = 'completed') as task_completed
        FROM task_dependencies td
-       JOIN tasks t ON td.task_id = t.id
+       JOIN tasks t ON td.task_id = t.id AND t.deleted_at IS NULL
        WHERE td.depends_on_task_id = $1
        ORDER BY td.created_at DESC`,
       [taskId]
@@ -158,7 +150,7 @@ router.get('/:taskId/dependencies', requireAuth, async (req: Request, res: Respo
  */
 router.delete('/:taskId/dependencies/:dependencyId', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -166,28 +158,27 @@ router.delete('/:taskId/dependencies/:dependencyId', requireAuth, async (req: Re
 
     const { taskId, dependencyId } = req.params;
 
-    // Check if user owns the task
-    const task = await db.oneOrNone(
-      `SELECT * FROM tasks WHERE id = $1 AND user_id = $2`,
-      [taskId, userId]
-    );
-
-    if (!task) {
-      res.status(404).json({ error: 'Task not found or access denied' });
+    const access = await Policy.task(userId, 'update', taskId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
       return;
     }
 
     // Delete dependency
-    const result = await db.result(
-      `DELETE FROM task_dependencies WHERE id = $1 AND task_id = $2`,
+    const dependency = await db.oneOrNone(
+      `DELETE FROM task_dependencies WHERE id = $1 AND task_id = $2 RETURNING *`,
       [dependencyId, taskId]
     );
 
-    if (result.rowCount === 0) {
+    if (!dependency) {
       res.status(404).json({ error: 'Dependency not found' });
       return;
     }
 
+    await ActivityService.record('dependency_removed', userId, access.resource.task, {
+      metadata: { dependency_id: dependency.id, depends_on_task_id: dependency.depends_on_task_id, type: dependency.type }
+    });
+
     res.json({
       success: true,
       message: 'Dependency removed successfully'
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { ExportController } from '../controllers/export.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.get('/users/me/export', requireAuth, ExportController.requestExport);
+router.get('/users/me/exports', requireAuth, ExportController.listExports);
+router.get('/users/me/exports/:id', requireAuth, ExportController.getExport);
+
+// Public: the signed link is the credential
+router.get('/exports/:id/download', ExportController.download);
+
+export default router;
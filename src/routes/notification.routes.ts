@@ -6,7 +6,10 @@ const router = Router();
 
 // All notification routes require authentication
 router.post('/notifications/preferences', requireAuth, NotificationController.updatePreferences);
+router.patch('/notifications/preferences', requireAuth, NotificationController.updatePreferences);
 router.get('/notifications/preferences', requireAuth, NotificationController.getPreferences);
 router.post('/notifications/send-test', requireAuth, NotificationController.sendTestEmail);
+router.get('/notifications/templates', requireAuth, NotificationController.listTemplates);
+router.get('/notifications/templates/:name/preview', requireAuth, NotificationController.previewTemplate);
 
 export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { SearchController } from '../controllers/search.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.get('/search', requireAuth, SearchController.search);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { SharedProjectController } from '../controllers/shared-project.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.post('/teams/:teamId/projects', requireAuth, SharedProjectController.share);
+router.get('/teams/:teamId/projects', requireAuth, SharedProjectController.getTeamProjects);
+router.get('/teams/:teamId/projects/:projectId', requireAuth, SharedProjectController.getById);
+router.patch('/teams/:teamId/projects/:projectId', requireAuth, SharedProjectController.update);
+router.delete('/teams/:teamId/projects/:projectId', requireAuth, SharedProjectController.unshare);
+router.get('/teams/:teamId/projects/:projectId/tasks', requireAuth, SharedProjectController.getTasks);
+router.post('/teams/:teamId/projects/:projectId/tasks', requireAuth, SharedProjectController.createTask);
+router.put('/teams/:teamId/projects/:projectId/tasks/:taskId/assignee', requireAuth, SharedProjectController.assignTask);
+router.post('/teams/:teamId/projects/:projectId/tasks/:taskId/auto-assign', requireAuth, SharedProjectController.autoAssignTask);
+router.post('/teams/:teamId/projects/:projectId/tasks/:taskId/approve', requireAuth, SharedProjectController.approveTask);
+router.post('/teams/:teamId/projects/:projectId/tasks/:taskId/reject', requireAuth, SharedProjectController.rejectTask);
+router.post('/teams/:teamId/projects/:projectId/tasks/:taskId/resubmit', requireAuth, SharedProjectController.resubmitTask);
+router.get('/teams/:teamId/approvals', requireAuth, SharedProjectController.getApprovalQueue);
+
+export default router;
@@ -80,6 +80,7 @@ router.get('/', requireAuth, async (req: Request, res: Response): Promise<void>
       LEFT JOIN projects p ON t.project_id = p.id
       WHERE t.user_id = $1 
         AND t.completed = false
+        AND t.deleted_at IS NULL
       ORDER BY t.due_date ASC NULLS LAST, t.priority DESC
     `, [userId]);
 
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { TagController } from '../controllers/tag.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Each user's tag catalog; changes are written through to their tasks
+router.get('/tags', requireAuth, TagController.list);
+router.post('/tags', requireAuth, TagController.create);
+router.get('/tags/:id', requireAuth, TagController.getById);
+router.put('/tags/:id', requireAuth, TagController.update);
+router.post('/tags/:id/merge', requireAuth, TagController.merge);
+router.delete('/tags/:id', requireAuth, TagController.delete);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { TaskController } from '../controllers/task.controller';
+import { TaskCommentController } from '../controllers/task-comment.controller';
 import { requireAuth } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -8,9 +9,29 @@ const router = Router();
 router.post('/tasks', requireAuth, TaskController.create);
 router.get('/tasks', requireAuth, TaskController.getTasks);
 router.get('/tasks/stats', requireAuth, TaskController.getStats);
+router.get('/tasks/assigned', requireAuth, TaskController.getAssigned);
 router.get('/tasks/:id', requireAuth, TaskController.getById);
+router.get('/tasks/:id/series', requireAuth, TaskController.getSeries);
 router.put('/tasks/:id', requireAuth, TaskController.update);
 router.post('/tasks/:id/complete', requireAuth, TaskController.complete);
+router.post('/tasks/:id/status', requireAuth, TaskController.setStatus);
+router.post('/tasks/:id/reopen', requireAuth, TaskController.reopen);
+router.get('/tasks/:id/status-history', requireAuth, TaskController.getStatusHistory);
 router.delete('/tasks/:id', requireAuth, TaskController.delete);
 
+// Individual subtask edits, so clients don't overwrite each other's changes to the whole list
+router.post('/tasks/:id/subtasks', requireAuth, TaskController.addSubtask);
+router.put('/tasks/:id/subtasks/order', requireAuth, TaskController.reorderSubtasks);
+router.patch('/tasks/:id/subtasks/:subtaskId', requireAuth, TaskController.updateSubtask);
+router.post('/tasks/:id/subtasks/:subtaskId/toggle', requireAuth, TaskController.toggleSubtask);
+router.post('/tasks/:id/subtasks/:subtaskId/promote', requireAuth, TaskController.promoteSubtask);
+router.delete('/tasks/:id/subtasks/:subtaskId', requireAuth, TaskController.deleteSubtask);
+
+// Comment threads
+router.get('/tasks/:id/comments', requireAuth, TaskCommentController.list);
+router.post('/tasks/:id/comments', requireAuth, TaskCommentController.create);
+router.patch('/tasks/:id/comments/:commentId', requireAuth, TaskCommentController.update);
+router.delete('/tasks/:id/comments/:commentId', requireAuth, TaskCommentController.delete);
+router.get('/tasks/:id/comments/:commentId/revisions', requireAuth, TaskCommentController.getRevisions);
+
 export default router;
@@ -0,0 +1,210 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth.middleware';
+import { TeamModel } from '../models/Team';
+import { TeamInviteModel, TeamInviteDetails } from '../models/TeamInvite';
+import { canRespondToInvite } from '../policies';
+import { RealtimeService } from '../services/realtime.service';
+
+const router = Router();
+
+/**
+ * GET /api/invites
+ * List pending team invitations for the signed-in user's email
+ */
+router.get('/', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const userEmail = req.userEmail;
+    if (!userId || !userEmail) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const invites = await TeamInviteModel.listPendingForEmail(userEmail);
+
+    res.json({
+      success: true,
+      data: invites.map(toPublicInvite)
+    });
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ error: 'Failed to fetch invitations' });
+  }
+});
+
+/**
+ * GET /api/invites/:token
+ * Get invitation details for the accept page
+ */
+router.get('/:token', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const invite = await TeamInviteModel.findByToken(req.params.token);
+
+    if (!invite) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...toPublicInvite(invite),
+        status: isExpired(invite) ? 'expired' : invite.status,
+        emailMatches: canRespondToInvite(req.userEmail, invite)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching invitation:', error);
+    res.status(500).json({ error: 'Failed to fetch invitation' });
+  }
+});
+
+/**
+ * POST /api/invites/:token/accept
+ * Accept an invitation and join the team with the invited role
+ */
+router.post('/:token/accept', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const invite = await TeamInviteModel.findByToken(req.params.token);
+
+    if (!invite) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    if (!canRespondToInvite(req.userEmail, invite)) {
+      res.status(403).json({
+        error: 'Invitation email mismatch',
+        message: 'This invitation was sent to a different email address'
+      });
+      return;
+    }
+
+    const team = await TeamModel.findById(invite.team_id);
+    if (!team) {
+      res.status(404).json({ error: 'Team not found' });
+      return;
+    }
+
+    const outcome = await TeamInviteModel.accept(invite.id, userId, team.settings.maxMembers);
+
+    switch (outcome) {
+      case 'accepted':
+        await RealtimeService.emitMembershipChanged(team.id, userId, 'joined');
+        res.json({
+          success: true,
+          data: {
+            teamId: team.id,
+            teamName: team.name,
+            role: invite.role
+          },
+          message: `You joined ${team.name}`
+        });
+        return;
+      case 'expired':
+        res.status(410).json({ error: 'Invitation has expired' });
+        return;
+      case 'not_pending':
+        res.status(409).json({ error: `Invitation is already ${invite.status}` });
+        return;
+      case 'already_member':
+        res.status(409).json({ error: 'You are already a member of this team' });
+        return;
+      case 'team_full':
+        res.status(409).json({
+          error: 'Team is full',
+          message: `This team is limited to ${team.settings.maxMembers} members`
+        });
+        return;
+    }
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+});
+
+/**
+ * POST /api/invites/:token/decline
+ * Decline an invitation
+ */
+router.post('/:token/decline', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const invite = await TeamInviteModel.findByToken(req.params.token);
+
+    if (!invite) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    if (!canRespondToInvite(req.userEmail, invite)) {
+      res.status(403).json({
+        error: 'Invitation email mismatch',
+        message: 'This invitation was sent to a different email address'
+      });
+      return;
+    }
+
+    if (isExpired(invite)) {
+      res.status(410).json({ error: 'Invitation has expired' });
+      return;
+    }
+
+    const declined = await TeamInviteModel.respond(invite.id, 'declined');
+    if (!declined) {
+      res.status(409).json({ error: `Invitation is already ${invite.status}` });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Invitation declined'
+    });
+  } catch (error) {
+    console.error('Error declining invitation:', error);
+    res.status(500).json({ error: 'Failed to decline invitation' });
+  }
+});
+
+/**
+ * Helper: pending invites past their expiry are treated as expired before the sweep marks them
+ */
+function isExpired(invite: TeamInviteDetails): boolean {
+  return invite.status === 'pending' && new Date(invite.expires_at) <= new Date();
+}
+
+/**
+ * Helper: fields an invitee can see
+ */
+function toPublicInvite(invite: TeamInviteDetails) {
+  return {
+    id: invite.id,
+    teamId: invite.team_id,
+    teamName: invite.team_name,
+    invitedBy: invite.inviter_name,
+    email: invite.email,
+    role: invite.role,
+    status: invite.status,
+    expiresAt: invite.expires_at,
+    createdAt: invite.created_at
+  };
+}
+
+export default router;
@@ -2,26 +2,62 @@ import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth.middleware';
 import db from '../utils/database';
 import { z } from 'zod';
+import { TeamModel, TeamSettings, parseTeamSettings, hasTeamRole } from '../models/Team';
+import { TeamInviteModel, TeamInvite } from '../models/TeamInvite';
+import { NotificationController } from '../controllers/notification.controller';
+import { isValidTimeZone } from '../utils/timezone';
+import { RealtimeService } from '../services/realtime.service';
+import { Policy, canManageMember, canAssignRole, canInviteWithRole, canCancelInvite } from '../policies';
 
 const router = Router();
 
+// Ownership can't be granted by invitation, role change or team defaults, only by transfer
+const assignableRoleSchema = z.enum(['admin', 'member', 'viewer']);
+
+const timezoneSchema = z.string().refine(isValidTimeZone, 'Invalid IANA time zone');
+
 // Validation schemas
 const createTeamSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
   settings: z.object({
     allowMemberInvites: z.boolean().default(true),
-    defaultMemberRole: z.enum(['owner', 'admin', 'member', 'viewer']).default('member'),
+    defaultMemberRole: assignableRoleSchema.default('member'),
     requireApprovalForTasks: z.boolean().default(false),
     energyInsightsVisible: z.boolean().default(true),
     maxMembers: z.number().int().min(1).max(100).default(50),
-    timezone: z.string().default('UTC')
+    timezone: timezoneSchema.default('UTC')
   }).optional()
 });
 
+const updateTeamSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  settings: z.object({
+    allowMemberInvites: z.boolean(),
+    defaultMemberRole: assignableRoleSchema,
+    requireApprovalForTasks: z.boolean(),
+    energyInsightsVisible: z.boolean(),
+    maxMembers: z.number().int().min(1).max(100),
+    timezone: timezoneSchema
+  }).partial().optional()
+});
+
 const inviteMemberSchema = z.object({
   email: z.string().email(),
-  role: z.enum(['owner', 'admin', 'member', 'viewer']).default('member')
+  role: assignableRoleSchema.optional()
+});
+
+const updateMemberRoleSchema = z.object({
+  role: assignableRoleSchema
+});
+
+const updateMemberStatusSchema = z.object({
+  status: z.enum(['active', 'suspended'])
+});
+
+const transferOwnershipSchema = z.object({
+  userId: z.string().uuid()
 });
 
 /**
@@ -30,7 +66,7 @@ const inviteMemberSchema = z.object({
  */
 router.post('/', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -68,7 +104,7 @@ router.post('/', requireAuth, async (req: Request, res: Response): Promise<void>
       success: true,
       data: {
         ...team,
-        settings: JSON.parse(team.settings),
+        settings: parseTeamSettings(team.settings),
         memberCount: 1
       }
     });
@@ -88,7 +124,7 @@ router.post('/', requireAuth, async (req: Request, res: Response): Promise<void>
  */
 router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -96,14 +132,9 @@ router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<voi
 
     const teamId = req.params.id;
 
-    // Check if user is a member
-    const membership = await db.oneOrNone(
-      `SELECT * FROM team_members WHERE team_id = $1 AND user_id = $2`,
-      [teamId, userId]
-    );
-
-    if (!membership) {
-      res.status(403).json({ error: 'Not a member of this team' });
+    const access = await Policy.team(userId, 'read', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
       return;
     }
 
@@ -121,7 +152,7 @@ router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<voi
       success: true,
       data: {
         ...team,
-        settings: JSON.parse(team.settings),
+        settings: parseTeamSettings(team.settings),
         memberCount: parseInt(team.member_count)
       }
     });
@@ -131,13 +162,94 @@ router.get('/:id', requireAuth, async (req: Request, res: Response): Promise<voi
   }
 });
 
+/**
+ * PATCH /api/teams/:id
+ * Update team name, description or settings (owners and admins)
+ */
+router.patch('/:id', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const teamId = req.params.id;
+    const validatedData = updateTeamSchema.parse(req.body);
+
+    const access = await Policy.team(userId, 'update', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+
+    const maxMembers = validatedData.settings?.maxMembers;
+    if (maxMembers !== undefined) {
+      const memberCount = await TeamModel.countActiveMembers(teamId);
+      if (maxMembers < memberCount) {
+        res.status(409).json({
+          error: 'Member limit too low',
+          message: `This team already has ${memberCount} active members`
+        });
+        return;
+      }
+    }
+
+    const updated = await TeamModel.update(teamId, validatedData);
+
+    res.json({
+      success: true,
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error updating team:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to update team' });
+  }
+});
+
+/**
+ * DELETE /api/teams/:id
+ * Delete a team (owner only)
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const teamId = req.params.id;
+
+    const access = await Policy.team(userId, 'delete', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+
+    await TeamModel.delete(teamId);
+
+    res.json({
+      success: true,
+      message: 'Team deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting team:', error);
+    res.status(500).json({ error: 'Failed to delete team' });
+  }
+});
+
 /**
  * GET /api/teams/:id/members
  * Get team members
  */
 router.get('/:id/members', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -145,25 +257,21 @@ router.get('/:id/members', requireAuth, async (req: Request, res: Response): Pro
 
     const teamId = req.params.id;
 
-    // Check if user is a member
-    const membership = await db.oneOrNone(
-      `SELECT * FROM team_members WHERE team_id = $1 AND user_id = $2`,
-      [teamId, userId]
-    );
-
-    if (!membership) {
-      res.status(403).json({ error: 'Not a member of this team' });
+    const access = await Policy.team(userId, 'read', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
       return;
     }
+    const { membership } = access.resource;
 
-    // Get all team members
+    // Suspended and pending members are only visible to owners and admins
     const members = await db.any(
-      `SELECT tm.*, u.email, u.name, u.avatar
+      `SELECT tm.*, u.email, u.name, u.avatar_url
        FROM team_members tm
        JOIN users u ON tm.user_id = u.id
-       WHERE tm.team_id = $1
+       WHERE tm.team_id = $1 AND (tm.status = 'active' OR $2)
        ORDER BY tm.joined_at DESC`,
-      [teamId]
+      [teamId, hasTeamRole(membership!.role, 'admin')]
     );
 
     res.json({
@@ -176,13 +284,327 @@ router.get('/:id/members', requireAuth, async (req: Request, res: Response): Pro
   }
 });
 
+/**
+ * GET /api/teams/:id/presence
+ * Get the members currently online in the team
+ */
+router.get('/:id/presence', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const teamId = req.params.id;
+
+    const access = await Policy.team(userId, 'read', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        online: RealtimeService.getOnlineMembers(teamId)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching team presence:', error);
+    res.status(500).json({ error: 'Failed to fetch team presence' });
+  }
+});
+
+/**
+ * PUT /api/teams/:id/members/:userId/role
+ * Change a member's role (actor must outrank the member's current role)
+ */
+router.put('/:id/members/:userId/role', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const { id: teamId, userId: targetUserId } = req.params;
+    const { role } = updateMemberRoleSchema.parse(req.body);
+
+    const access = await Policy.team(userId, 'manage_members', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+    const { membership } = access.resource;
+
+    const target = await TeamModel.getMember(teamId, targetUserId);
+    if (!target) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    if (target.role === 'owner') {
+      res.status(409).json({
+        error: 'Cannot change the owner\'s role',
+        message: 'Transfer ownership to another member instead'
+      });
+      return;
+    }
+
+    if (!canManageMember(membership!.role, target.role) || !canAssignRole(membership!.role, role)) {
+      res.status(403).json({ error: 'Insufficient permissions to change this member\'s role' });
+      return;
+    }
+
+    const updated = await TeamModel.updateMemberRole(teamId, targetUserId, role);
+    if (!updated) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    await RealtimeService.emitMembershipChanged(teamId, targetUserId, 'role_changed', updated);
+
+    res.json({
+      success: true,
+      data: updated
+    });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to update member role' });
+  }
+});
+
+/**
+ * PUT /api/teams/:id/members/:userId/status
+ * Suspend or reactivate a member
+ */
+router.put('/:id/members/:userId/status', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const { id: teamId, userId: targetUserId } = req.params;
+    const { status } = updateMemberStatusSchema.parse(req.body);
+
+    const access = await Policy.team(userId, 'manage_members', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+    const { team, membership } = access.resource;
+
+    const target = await TeamModel.getMember(teamId, targetUserId);
+    if (!target) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    if (!canManageMember(membership!.role, target.role)) {
+      res.status(403).json({ error: 'Insufficient permissions to change this member\'s status' });
+      return;
+    }
+
+    if (target.status === status) {
+      res.status(409).json({ error: `Member is already ${status}` });
+      return;
+    }
+
+    // Reactivating takes a seat again
+    if (status === 'active') {
+      const memberCount = await TeamModel.countActiveMembers(teamId);
+      if (memberCount >= team.settings.maxMembers) {
+        res.status(409).json({
+          error: 'Team is full',
+          message: `This team is limited to ${team.settings.maxMembers} members`
+        });
+        return;
+      }
+    }
+
+    const updated = await TeamModel.updateMemberStatus(teamId, targetUserId, status);
+    if (!updated) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    await RealtimeService.emitMembershipChanged(teamId, targetUserId, 'status_changed', updated);
+
+    res.json({
+      success: true,
+      data: updated,
+      message: status === 'suspended' ? 'Member suspended' : 'Member reactivated'
+    });
+  } catch (error) {
+    console.error('Error updating member status:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to update member status' });
+  }
+});
+
+/**
+ * DELETE /api/teams/:id/members/:userId
+ * Remove a member from the team
+ */
+router.delete('/:id/members/:userId', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const { id: teamId, userId: targetUserId } = req.params;
+
+    const access = await Policy.team(userId, 'manage_members', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+    const { membership } = access.resource;
+
+    const target = await TeamModel.getMember(teamId, targetUserId);
+    if (!target) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    if (!canManageMember(membership!.role, target.role)) {
+      res.status(403).json({ error: 'Insufficient permissions to remove this member' });
+      return;
+    }
+
+    const removed = await TeamModel.removeMember(teamId, targetUserId);
+    if (!removed) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    await RealtimeService.emitMembershipChanged(teamId, targetUserId, 'removed');
+
+    res.json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+/**
+ * POST /api/teams/:id/leave
+ * Leave a team (owners must transfer ownership first)
+ */
+router.post('/:id/leave', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const teamId = req.params.id;
+
+    // Suspended members may still leave
+    const membership = await TeamModel.getMember(teamId, userId);
+
+    if (!membership) {
+      res.status(404).json({ error: 'Not a member of this team' });
+      return;
+    }
+
+    if (membership.role === 'owner') {
+      res.status(409).json({
+        error: 'Owner cannot leave the team',
+        message: 'Transfer ownership to another member or delete the team'
+      });
+      return;
+    }
+
+    await TeamModel.removeMember(teamId, userId);
+    await RealtimeService.emitMembershipChanged(teamId, userId, 'left');
+
+    res.json({
+      success: true,
+      message: 'You left the team'
+    });
+  } catch (error) {
+    console.error('Error leaving team:', error);
+    res.status(500).json({ error: 'Failed to leave team' });
+  }
+});
+
+/**
+ * POST /api/teams/:id/transfer-ownership
+ * Make another active member the owner; the current owner becomes an admin
+ */
+router.post('/:id/transfer-ownership', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const teamId = req.params.id;
+    const { userId: newOwnerId } = transferOwnershipSchema.parse(req.body);
+
+    const access = await Policy.team(userId, 'transfer_ownership', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+
+    if (newOwnerId === userId) {
+      res.status(400).json({ error: 'You already own this team' });
+      return;
+    }
+
+    const target = await TeamModel.getActiveMembership(teamId, newOwnerId);
+    if (!target) {
+      res.status(404).json({
+        error: 'Member not found',
+        message: 'Ownership can only be transferred to an active member'
+      });
+      return;
+    }
+
+    const team = await TeamModel.transferOwnership(teamId, userId, newOwnerId);
+    await RealtimeService.emitMembershipChanged(teamId, newOwnerId, 'ownership_transferred');
+
+    res.json({
+      success: true,
+      data: team,
+      message: 'Ownership transferred successfully'
+    });
+  } catch (error) {
+    console.error('Error transferring ownership:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to transfer ownership' });
+  }
+});
+
 /**
  * POST /api/teams/:id/invite
  * Send team invitation
  */
 router.post('/:id/invite', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -191,43 +613,63 @@ router.post('/:id/invite', requireAuth, async (req: Request, res: Response): Pro
     const teamId = req.params.id;
     const validatedData = inviteMemberSchema.parse(req.body);
 
-    // Check if user has permission to invite
-    const membership = await db.oneOrNone(
-      `SELECT * FROM team_members WHERE team_id = $1 AND user_id = $2`,
-      [teamId, userId]
-    );
+    const access = await Policy.team(userId, 'invite', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+    const { team, membership } = access.resource;
 
-    if (!membership) {
-      res.status(403).json({ error: 'Not a member of this team' });
+    const role = validatedData.role
+      || (team.settings.defaultMemberRole === 'owner' ? 'member' : team.settings.defaultMemberRole);
+
+    if (!canInviteWithRole(membership!.role, role)) {
+      res.status(403).json({ error: 'You cannot invite someone with a higher role than your own' });
       return;
     }
 
-    if (!['owner', 'admin'].includes(membership.role)) {
-      res.status(403).json({ error: 'Insufficient permissions to invite members' });
+    const existingMember = await db.oneOrNone(
+      `SELECT tm.id FROM team_members tm
+       JOIN users u ON u.id = tm.user_id
+       WHERE tm.team_id = $1 AND LOWER(u.email) = LOWER($2)`,
+      [teamId, validatedData.email]
+    );
+
+    if (existingMember) {
+      res.status(409).json({ error: 'User is already a member of this team' });
       return;
     }
 
-    // Generate invite token
-    const token = Array.from({ length: 32 }, () => 
-      'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
-        .charAt(Math.floor(Math.random() * 62))
-    ).join('');
+    if (await TeamInviteModel.findPending(teamId, validatedData.email)) {
+      res.status(409).json({ 
+        error: 'Invitation already pending',
+        message: 'Resend the existing invitation instead'
+      });
+      return;
+    }
 
-    // Create invitation
-    const invitation = await db.one(
-      `INSERT INTO team_invites (team_id, email, invited_by, role, token, expires_at, created_at, status)
-       VALUES ($1, $2, $3, $4, $5, NOW() + INTERVAL '7 days', NOW(), 'pending')
-       RETURNING *`,
-      [teamId, validatedData.email, userId, validatedData.role, token]
-    );
+    // Pending invites reserve a seat so the team can't be oversubscribed
+    const [memberCount, pendingCount] = await Promise.all([
+      TeamModel.countActiveMembers(teamId),
+      TeamInviteModel.countPendingForTeam(teamId)
+    ]);
+
+    if (memberCount + pendingCount >= team.settings.maxMembers) {
+      res.status(409).json({ 
+        error: 'Team is full',
+        message: `This team is limited to ${team.settings.maxMembers} members (including pending invitations)`
+      });
+      return;
+    }
 
-    // TODO: Send email with invitation link
-    // const inviteLink = `${process.env.FRONTEND_URL}/join-team?token=${token}`;
+    const invitation = await TeamInviteModel.create(teamId, validatedData.email, userId, role);
+    const emailSent = await deliverInvite(invitation, team.name, team.settings, (req as any).userName);
 
     res.status(201).json({
       success: true,
-      data: invitation,
-      message: 'Invitation sent successfully'
+      data: withoutToken(invitation),
+      emailSent,
+      message: emailSent ? 'Invitation sent successfully' : 'Invitation created, but the email could not be sent'
     });
   } catch (error) {
     console.error('Error sending invitation:', error);
@@ -239,13 +681,158 @@ router.post('/:id/invite', requireAuth, async (req: Request, res: Response): Pro
   }
 });
 
+/**
+ * GET /api/teams/:id/invites
+ * List pending invitations
+ */
+router.get('/:id/invites', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const teamId = req.params.id;
+
+    const access = await Policy.team(userId, 'invite', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+
+    const invites = await TeamInviteModel.listPendingForTeam(teamId);
+
+    res.json({
+      success: true,
+      data: invites.map(withoutToken)
+    });
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ error: 'Failed to fetch invitations' });
+  }
+});
+
+/**
+ * POST /api/teams/:id/invites/:inviteId/resend
+ * Resend an invitation with a fresh token and expiry (also revives expired invitations)
+ */
+router.post('/:id/invites/:inviteId/resend', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const { id: teamId, inviteId } = req.params;
+
+    const access = await Policy.team(userId, 'invite', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+    const { team } = access.resource;
+
+    const invite = await TeamInviteModel.findById(inviteId, teamId);
+    if (!invite) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    if (!['pending', 'expired'].includes(invite.status)) {
+      res.status(409).json({ error: `Invitation is already ${invite.status}` });
+      return;
+    }
+
+    // A revived invite needs a free seat again
+    if (invite.status === 'expired') {
+      const [memberCount, pendingCount] = await Promise.all([
+        TeamModel.countActiveMembers(teamId),
+        TeamInviteModel.countPendingForTeam(teamId)
+      ]);
+
+      if (memberCount + pendingCount >= team.settings.maxMembers) {
+        res.status(409).json({ error: 'Team is full' });
+        return;
+      }
+    }
+
+    const renewed = await TeamInviteModel.renew(invite.id);
+    if (!renewed) {
+      res.status(409).json({ error: 'Invitation can no longer be resent' });
+      return;
+    }
+
+    const emailSent = await deliverInvite(renewed, team.name, team.settings, invite.inviter_name);
+
+    res.json({
+      success: true,
+      data: withoutToken(renewed),
+      emailSent,
+      message: emailSent ? 'Invitation resent successfully' : 'Invitation renewed, but the email could not be sent'
+    });
+  } catch (error) {
+    console.error('Error resending invitation:', error);
+    res.status(500).json({ error: 'Failed to resend invitation' });
+  }
+});
+
+/**
+ * DELETE /api/teams/:id/invites/:inviteId
+ * Cancel a pending invitation
+ */
+router.delete('/:id/invites/:inviteId', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'User ID not found in token' });
+      return;
+    }
+
+    const { id: teamId, inviteId } = req.params;
+
+    const access = await Policy.team(userId, 'read', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
+      return;
+    }
+
+    const invite = await TeamInviteModel.findById(inviteId, teamId);
+    if (!invite) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    if (!canCancelInvite(userId, access.resource, invite)) {
+      res.status(403).json({ error: 'Insufficient permissions to cancel this invitation' });
+      return;
+    }
+
+    const cancelled = await TeamInviteModel.respond(invite.id, 'cancelled');
+    if (!cancelled) {
+      res.status(409).json({ error: `Invitation is already ${invite.status}` });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: withoutToken(cancelled),
+      message: 'Invitation cancelled'
+    });
+  } catch (error) {
+    console.error('Error cancelling invitation:', error);
+    res.status(500).json({ error: 'Failed to cancel invitation' });
+  }
+});
+
 /**
  * GET /api/teams/:id/analytics
  * Get team analytics
  */
 router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.auth?.userId;
+    const userId = req.userId;
     if (!userId) {
       res.status(401).json({ error: 'User ID not found in token' });
       return;
@@ -254,17 +841,15 @@ router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): P
     const teamId = req.params.id;
     const period = req.query.period || 'week';
 
-    // Check if user is a member
-    const membership = await db.oneOrNone(
-      `SELECT * FROM team_members WHERE team_id = $1 AND user_id = $2`,
-      [teamId, userId]
-    );
-
-    if (!membership) {
-      res.status(403).json({ error: 'Not a member of this team' });
+    const access = await Policy.team(userId, 'read', teamId);
+    if (!access.allowed) {
+      res.status(access.status).json({ error: access.error });
       return;
     }
 
+    // Members' energy is left out entirely when the team has turned energy insights off
+    const showEnergy = access.resource.team.settings.energyInsightsVisible;
+
     // Calculate date range based on period
     let dateFilter = '';
     if (period === 'week') {
@@ -282,7 +867,7 @@ router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): P
          COUNT(*) FILTER (WHERE completed = true) as completed_tasks
        FROM tasks t
        JOIN team_members tm ON t.user_id = tm.user_id
-       WHERE tm.team_id = $1 ${dateFilter}`,
+       WHERE tm.team_id = $1 AND tm.status = 'active' AND t.deleted_at IS NULL ${dateFilter}`,
       [teamId]
     );
 
@@ -291,7 +876,7 @@ router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): P
       `SELECT AVG(energy_level) as average_energy
        FROM energy_logs e
        JOIN team_members tm ON e.user_id = tm.user_id
-       WHERE tm.team_id = $1 ${dateFilter}`,
+       WHERE tm.team_id = $1 AND tm.status = 'active' ${dateFilter}`,
       [teamId]
     );
 
@@ -304,7 +889,7 @@ router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): P
          COALESCE(AVG(e.energy_level), 0) as energy_level
        FROM team_members tm
        JOIN users u ON tm.user_id = u.id
-       LEFT JOIN tasks t ON t.user_id = u.id ${dateFilter.replace('t.created_at', 't.created_at')}
+       LEFT JOIN tasks t ON t.user_id = u.id AND t.deleted_at IS NULL ${dateFilter.replace('t.created_at', 't.created_at')}
        LEFT JOIN energy_logs e ON e.user_id = u.id ${dateFilter.replace('t.created_at', 'e.created_at')}
        WHERE tm.team_id = $1 AND tm.status = 'active'
        GROUP BY u.id, u.name
@@ -321,9 +906,9 @@ router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): P
          COUNT(DISTINCT t.id) as task_count
        FROM energy_logs e
        JOIN team_members tm ON e.user_id = tm.user_id
-       LEFT JOIN tasks t ON t.user_id = tm.user_id 
+       LEFT JOIN tasks t ON t.user_id = tm.user_id AND t.deleted_at IS NULL
          AND DATE_TRUNC('hour', t.created_at) = DATE_TRUNC('hour', e.created_at)
-       WHERE tm.team_id = $1 ${dateFilter.replace('t.created_at', 'e.created_at')}
+       WHERE tm.team_id = $1 AND tm.status = 'active' ${dateFilter.replace('t.created_at', 'e.created_at')}
        GROUP BY hour
        ORDER BY hour`,
       [teamId]
@@ -346,19 +931,21 @@ router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): P
         period,
         totalTasks,
         completedTasks,
-        averageEnergy: Math.round(averageEnergy),
+        averageEnergy: showEnergy ? Math.round(averageEnergy) : null,
         productivityScore,
         topPerformers: topPerformers.map(p => ({
           userId: p.user_id,
           name: p.name,
           completedTasks: parseInt(p.completed_tasks),
-          energyLevel: Math.round(p.energy_level)
+          ...(showEnergy ? { energyLevel: Math.round(p.energy_level) } : {})
         })),
-        energyPatterns: energyPatterns.map(p => ({
-          hour: p.hour,
-          averageEnergy: Math.round(p.average_energy),
-          taskCount: parseInt(p.task_count)
-        }))
+        energyPatterns: showEnergy
+          ? energyPatterns.map(p => ({
+            hour: p.hour,
+            averageEnergy: Math.round(p.average_energy),
+            taskCount: parseInt(p.task_count)
+          }))
+          : []
       }
     });
   } catch (error) {
@@ -367,4 +954,37 @@ router.get('/:id/analytics', requireAuth, async (req: Request, res: Response): P
   }
 });
 
+/**
+ * Helper: email an invitation; returns false (and logs) if delivery failed
+ */
+async function deliverInvite(
+  invite: TeamInvite,
+  teamName: string,
+  settings: TeamSettings,
+  inviterName?: string
+): Promise<boolean> {
+  try {
+    await NotificationController.sendTeamInvite(invite.email, {
+      teamName,
+      inviterName: inviterName || 'A teammate',
+      role: invite.role,
+      token: invite.token,
+      expiresAt: invite.expires_at
+    }, settings.timezone);
+    await TeamInviteModel.markSent(invite.id);
+    return true;
+  } catch (error) {
+    console.error(`Error emailing invitation ${invite.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Helper: invite tokens are only ever sent to the invitee
+ */
+function withoutToken<T extends TeamInvite>(invite: T): Omit<T, 'token'> {
+  const { token, ...rest } = invite;
+  return rest;
+}
+
 export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { TrashController } from '../controllers/trash.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.get('/trash', requireAuth, TrashController.list);
+router.delete('/trash', requireAuth, TrashController.empty);
+router.post('/trash/tasks/:id/restore', requireAuth, TrashController.restoreTask);
+router.delete('/trash/tasks/:id', requireAuth, TrashController.purgeTask);
+router.post('/trash/projects/:id/restore', requireAuth, TrashController.restoreProject);
+router.delete('/trash/projects/:id', requireAuth, TrashController.purgeProject);
+
+export default router;
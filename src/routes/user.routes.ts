@@ -1,17 +1,17 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/user.controller';
-import { requireAuth, optionalAuthMiddleware } from '../middleware/auth.middleware';
+import { requireAuth } from '../middleware/auth.middleware';
 
 const router = Router();
 
-// Public routes (no authentication required)
-// None for now - all user routes should be protected
+// Users are created on first sign-in (syncUser) and can only read or change themselves
+// Listing and managing other accounts lives under /api/admin
+router.get('/users/me', requireAuth, UserController.getMe);
+router.put('/users/me', requireAuth, UserController.updateMe);
 
-// Protected routes (authentication required)
-router.post('/users', UserController.create); // Will be protected after we verify auth works
-router.get('/users', requireAuth, UserController.getAll);
-router.get('/users/:id', requireAuth, UserController.getById);
-router.put('/users/:id', requireAuth, UserController.update);
-router.delete('/users/:id', requireAuth, UserController.delete);
+// Deletion is scheduled, not immediate: it can be cancelled until the grace period ends
+router.delete('/users/me', requireAuth, UserController.deleteMe);
+router.get('/users/me/deletion', requireAuth, UserController.getDeletion);
+router.post('/users/me/deletion/cancel', requireAuth, UserController.cancelDeletion);
 
 export default router;
@@ -0,0 +1,189 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import db from '../utils/database';
+import { User, UserModel } from '../models/User';
+import { OwnedTeam, TeamModel } from '../models/Team';
+import { RealtimeService } from './realtime.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a deletion request can still be cancelled before the account is purged
+const GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '', 10) || 14;
+
+export interface PurgeResult {
+  userId: string;
+  teamsTransferred: { team_id: string; to_user_id: string }[];
+  teamsDeleted: string[];
+  rowsDeleted: Record<string, number>;
+}
+
+// Tables cleared on purge, in order; each query takes (userId, email)
+// Tasks in other people's projects are handed to the project owner before this runs
+const PURGE_STEPS: [string, string][] = [
+  ['notification_deliveries', 'DELETE FROM notification_deliveries WHERE user_id = $1'],
+  ['notification_preferences', 'DELETE FROM notification_preferences WHERE user_id = $1'],
+  ['data_exports', 'DELETE FROM data_exports WHERE user_id = $1'],
+  ['energy_logs', 'DELETE FROM energy_logs WHERE user_id = $1'],
+  ['task_comments', 'DELETE FROM task_comments WHERE author_id = $1'],
+  ['tasks', 'DELETE FROM tasks WHERE user_id = $1'],
+  // Only the history of tasks that went with the user; reassigned tasks keep theirs
+  [
+    'task_activity',
+    `DELETE FROM task_activity a
+     WHERE a.owner_id = $1 AND NOT EXISTS (SELECT 1 FROM tasks t WHERE t.id = a.task_id)`
+  ],
+  ['projects', 'DELETE FROM projects WHERE user_id = $1'],
+  ['tags', 'DELETE FROM tags WHERE user_id = $1'],
+  ['user_emblems', 'DELETE FROM user_emblems WHERE user_id = $1'],
+  ['context_connections', 'DELETE FROM context_connections WHERE user_id = $1'],
+  ['ai_insights', 'DELETE FROM ai_insights WHERE user_id = $1'],
+  ['daily_challenges', 'DELETE FROM daily_challenges WHERE user_id = $1'],
+  ['user_sessions', 'DELETE FROM user_sessions WHERE user_id = $1'],
+  ['team_members', 'DELETE FROM team_members WHERE user_id = $1'],
+  ['team_invites', 'DELETE FROM team_invites WHERE invited_by = $1 OR LOWER(email) = LOWER($2)'],
+  ['mail_outbox', 'DELETE FROM mail_outbox WHERE LOWER(to_address) = LOWER($2)']
+];
+
+const hashEmail = (email: string) => crypto.createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+
+export class AccountDeletionService {
+  // Owned teams that someone else would inherit; deletion needs the owner's consent to hand these over
+  static async getTeamsToTransfer(userId: string): Promise<OwnedTeam[]> {
+    const teams = await TeamModel.getOwnedTeams(userId);
+    return teams.filter(team => team.other_members > 0);
+  }
+
+  // Schedule the purge; the user keeps full access until then and can cancel
+  static async request(userId: string, now = new Date()): Promise<User> {
+    return await UserModel.requestDeletion(userId, new Date(now.getTime() + GRACE_DAYS * DAY_MS));
+  }
+
+  // Permanently delete one account whose grace period is over; returns null if it isn't due
+  // (cancelled, already purged or not yet scheduled)
+  static async purge(userId: string, now = new Date()): Promise<PurgeResult | null> {
+    const exportFiles: string[] = [];
+
+    const result = await db.tx(async t => {
+      const user = await t.oneOrNone(
+        `SELECT id, email, deletion_requested_at FROM users
+         WHERE id = $1 AND deletion_scheduled_for <= $2
+         FOR UPDATE`,
+        [userId, now]
+      );
+      if (!user) {
+        return null;
+      }
+
+      const teamsTransferred: PurgeResult['teamsTransferred'] = [];
+      const teamsDeleted: string[] = [];
+
+      // Teams go to their longest-serving senior member; teams with nobody left are deleted
+      const owned = await t.any(
+        `SELECT t.id,
+           (SELECT tm.user_id FROM team_members tm
+            WHERE tm.team_id = t.id AND tm.status = 'active' AND tm.user_id <> $1
+            ORDER BY CASE tm.role WHEN 'admin' THEN 0 WHEN 'member' THEN 1 ELSE 2 END, tm.joined_at
+            LIMIT 1) as successor_id
+         FROM teams t
+         WHERE t.owner_id = $1
+         FOR UPDATE OF t`,
+        [userId]
+      );
+
+      for (const team of owned) {
+        if (team.successor_id) {
+          await t.none(`UPDATE teams SET owner_id = $2, updated_at = NOW() WHERE id = $1`, [team.id, team.successor_id]);
+          await t.none(
+            `UPDATE team_members SET role = 'owner' WHERE team_id = $1 AND user_id = $2`,
+            [team.id, team.successor_id]
+          );
+          teamsTransferred.push({ team_id: team.id, to_user_id: team.successor_id });
+        } else {
+          await t.none('DELETE FROM teams WHERE id = $1', [team.id]);
+          teamsDeleted.push(team.id);
+        }
+      }
+
+      // Work done in someone else's (shared) project stays with that project
+      const reassigned = await t.result(
+        `UPDATE tasks SET user_id = p.user_id, updated_at = NOW()
+         FROM projects p
+         WHERE tasks.project_id = p.id AND tasks.user_id = $1 AND p.user_id <> $1`,
+        [userId]
+      );
+
+      // Their history moves with them
+      await t.none(
+        `UPDATE task_activity a SET owner_id = t.user_id
+         FROM tasks t
+         WHERE a.task_id = t.id AND a.owner_id = $1 AND t.user_id <> $1`,
+        [userId]
+      );
+
+      const files = await t.any(
+        'SELECT file_path FROM data_exports WHERE user_id = $1 AND file_path IS NOT NULL',
+        [userId]
+      );
+      exportFiles.push(...files.map((row: { file_path: string }) => row.file_path));
+
+      const rowsDeleted: Record<string, number> = {};
+      for (const [table, query] of PURGE_STEPS) {
+        rowsDeleted[table] = (await t.result(query, [userId, user.email])).rowCount;
+      }
+      rowsDeleted.users = (await t.result('DELETE FROM users WHERE id = $1', [userId])).rowCount;
+
+      await t.none(
+        `INSERT INTO account_deletion_audit
+           (user_id, email_hash, requested_at, purged_at, teams_transferred, teams_deleted, rows_deleted)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          userId,
+          hashEmail(user.email),
+          user.deletion_requested_at,
+          now,
+          JSON.stringify(teamsTransferred),
+          JSON.stringify(teamsDeleted),
+          JSON.stringify({ ...rowsDeleted, tasks_reassigned: reassigned.rowCount })
+        ]
+      );
+
+      return { userId, teamsTransferred, teamsDeleted, rowsDeleted };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    // Files are only removed once the rows referencing them are gone for good
+    for (const filePath of exportFiles) {
+      await fs.promises.rm(filePath, { force: true }).catch(error => {
+        console.error(`[account-deletion] Error removing export file ${filePath}:`, error);
+      });
+    }
+
+    RealtimeService.disconnectUser(userId);
+    for (const { team_id, to_user_id } of result.teamsTransferred) {
+      await RealtimeService.emitMembershipChanged(team_id, to_user_id, 'ownership_transferred');
+    }
+
+    return result;
+  }
+
+  // Purge every account whose grace period has ended
+  static async purgeDue(now = new Date()): Promise<number> {
+    const ids = await UserModel.getDueForPurge(now);
+    let purged = 0;
+
+    for (const id of ids) {
+      try {
+        if (await this.purge(id, now)) {
+          purged++;
+        }
+      } catch (error) {
+        console.error(`[account-deletion] Error purging user ${id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+}
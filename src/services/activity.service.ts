@@ -0,0 +1,80 @@
+import { Task } from '../models/Task';
+import { FieldChange, TaskActivityAction, TaskActivityModel } from '../models/TaskActivity';
+
+const isoDate = (value?: Date | string | null) => (value ? new Date(value).toISOString() : null);
+
+// Fields whose edits are logged as 'updated', and the value recorded for each;
+// status and assignee changes get entries of their own
+const TRACKED_FIELDS: Record<string, (task: Task) => unknown> = {
+  title: task => task.title,
+  description: task => task.description ?? null,
+  priority: task => task.priority,
+  energy_requirement: task => task.energy_requirement,
+  due_date: task => isoDate(task.due_date),
+  estimated_duration: task => task.estimated_duration ?? null,
+  project_id: task => task.project_id ?? null,
+  tags: task => (task.tags || []).map(tag => tag.label),
+  subtasks: task => ({
+    total: task.subtasks?.length || 0,
+    completed: task.subtasks?.filter(subtask => subtask.completed).length || 0
+  }),
+  recurrence: task => task.recurrence ?? null,
+  complete_with_subtasks: task => task.complete_with_subtasks
+};
+
+// Field-level differences between two versions of a task
+export function diffTask(before: Task, after: Task): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const [field, value] of Object.entries(TRACKED_FIELDS)) {
+    const from = value(before);
+    const to = value(after);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Writes to the task activity log. Logging happens after the change is saved and failures
+// are only reported, so a broken log never undoes or blocks the change itself.
+export class ActivityService {
+  static async record(
+    action: TaskActivityAction,
+    actorId: string | null,
+    task: Task,
+    details: { changes?: Record<string, FieldChange>; metadata?: Record<string, unknown> } = {}
+  ): Promise<void> {
+    try {
+      await TaskActivityModel.create({ task, actor_id: actorId, action, ...details });
+    } catch (error) {
+      console.error(`[activity] Failed to record ${action} for task ${task.id}:`, error);
+    }
+  }
+
+  // Log an edit, split into status, assignment and field entries
+  static async recordChanges(
+    actorId: string | null,
+    before: Task,
+    after: Task,
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    if (before.status !== after.status) {
+      await this.record('status_changed', actorId, after, {
+        changes: { status: { from: before.status, to: after.status } },
+        metadata
+      });
+    }
+
+    if ((before.assignee_id || null) !== (after.assignee_id || null)) {
+      await this.record('assigned', actorId, after, {
+        changes: { assignee_id: { from: before.assignee_id || null, to: after.assignee_id || null } },
+        metadata
+      });
+    }
+
+    const changes = diffTask(before, after);
+    if (Object.keys(changes).length > 0) {
+      await this.record('updated', actorId, after, { changes, metadata });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { TeamModel, AssignmentCandidate } from '../models/Team';
+import { canTakeTasks } from '../policies';
+import { Task } from '../models/Task';
+
+// Energy is averaged over the last week; a log from the last few hours counts for more
+const ENERGY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const RECENT_LOG_MS = 6 * 60 * 60 * 1000;
+
+// Open work beyond two working days scores zero for load
+const LOAD_CAPACITY_MINUTES = 2 * 8 * 60;
+const DEFAULT_TASK_MINUTES = 30;
+
+const ENERGY_WEIGHT = 0.6;
+const LOAD_WEIGHT = 0.4;
+
+export interface AssignmentScore {
+  user_id: string;
+  name: string;
+  score: number;
+  energy: number | null;
+  energy_fit: number;
+  open_tasks: number;
+  open_minutes: number;
+  load_fit: number;
+}
+
+// Expected energy: the latest log if it is recent, blended with the weekly average
+function expectedEnergy(candidate: AssignmentCandidate, now: Date): number | null {
+  const recent = candidate.latest_energy !== null && candidate.latest_energy_at !== null
+    && now.getTime() - new Date(candidate.latest_energy_at).getTime() <= RECENT_LOG_MS;
+
+  if (recent && candidate.avg_energy !== null) {
+    return 0.6 * candidate.latest_energy! + 0.4 * candidate.avg_energy;
+  }
+  if (recent) {
+    return candidate.latest_energy;
+  }
+  return candidate.avg_energy;
+}
+
+// Score a candidate between 0 and 1 for a task
+// Members without energy logs get a neutral energy fit rather than being excluded
+export function scoreCandidate(
+  candidate: AssignmentCandidate,
+  task: Pick<Task, 'energy_requirement' | 'estimated_duration'>,
+  now = new Date()
+): AssignmentScore {
+  const energy = expectedEnergy(candidate, now);
+  const energyFit = energy === null ? 0.5 : 1 - Math.abs(energy - task.energy_requirement) / 4;
+
+  const taskMinutes = task.estimated_duration || DEFAULT_TASK_MINUTES;
+  const loadFit = 1 - Math.min(candidate.open_minutes + taskMinutes, LOAD_CAPACITY_MINUTES) / LOAD_CAPACITY_MINUTES;
+
+  return {
+    user_id: candidate.user_id,
+    name: candidate.name,
+    score: Math.round((ENERGY_WEIGHT * energyFit + LOAD_WEIGHT * loadFit) * 1000) / 1000,
+    energy: energy === null ? null : Math.round(energy * 10) / 10,
+    energy_fit: Math.round(energyFit * 1000) / 1000,
+    open_tasks: candidate.open_tasks,
+    open_minutes: candidate.open_minutes,
+    load_fit: Math.round(loadFit * 1000) / 1000
+  };
+}
+
+export class AssignmentService {
+  // Rank the team's active members (viewers excluded) for a task, best first
+  // Ties go to whoever has fewer open tasks
+  static async rankCandidates(
+    teamId: string,
+    task: Pick<Task, 'energy_requirement' | 'estimated_duration'>,
+    now = new Date()
+  ): Promise<AssignmentScore[]> {
+    const candidates = await TeamModel.getAssignmentCandidates(teamId, new Date(now.getTime() - ENERGY_WINDOW_MS));
+
+    return candidates
+      .filter(candidate => canTakeTasks(candidate.role))
+      .map(candidate => scoreCandidate(candidate, task, now))
+      .sort((a, b) => b.score - a.score || a.open_tasks - b.open_tasks || a.user_id.localeCompare(b.user_id));
+  }
+
+  // Pick the best-fitting member for a task, or null if nobody can take it
+  static async pickAssignee(
+    teamId: string,
+    task: Pick<Task, 'energy_requirement' | 'estimated_duration'>,
+    now = new Date()
+  ): Promise<AssignmentScore | null> {
+    const [best] = await this.rankCandidates(teamId, task, now);
+    return best || null;
+  }
+}
@@ -0,0 +1,248 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import db from '../utils/database';
+import { createZip } from '../utils/zip';
+import { DataExport, DataExportFormat, DataExportModel } from '../models/DataExport';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXPORT_DIR = process.env.DATA_EXPORT_DIR || path.join(process.cwd(), 'tmp', 'exports');
+
+// How long a finished archive is kept, and how long each download link works
+const RETENTION_MS = (parseInt(process.env.DATA_EXPORT_RETENTION_HOURS || '', 10) || 72) * HOUR_MS;
+const LINK_TTL_MS = (parseInt(process.env.DATA_EXPORT_LINK_TTL_MINUTES || '', 10) || 15) * 60 * 1000;
+
+// A build still 'processing' after this long is assumed to have died with its worker
+const STALE_AFTER_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+
+export type ExportArchive = Record<string, any>;
+
+export interface SignedDownload {
+  url: string;
+  expires_at: Date;
+}
+
+function signingSecret(): string {
+  const secret = process.env.DATA_EXPORT_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('DATA_EXPORT_SECRET is not configured');
+  }
+  return secret;
+}
+
+const sign = (id: string, expires: number) =>
+  crypto.createHmac('sha256', signingSecret()).update(`${id}.${expires}`).digest('hex');
+
+// Nested values (tags, subtasks, recurrence...) are written as JSON inside the cell. Text that a
+// spreadsheet would read as a formula gets a leading ' so it opens as plain text
+function csvCell(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Record<string, any>[]): string {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export class DataExportService {
+  // Everything the user owns, keyed by section
+  static async collect(userId: string): Promise<ExportArchive> {
+    const [
+      profile,
+      notificationPreferences,
+      tasks,
+      projects,
+      tags,
+      energyLogs,
+      taskDependencies,
+      taskComments,
+      taskActivity,
+      taskStatusTransitions,
+      teamMemberships,
+      emblems,
+      challenges
+    ] = await Promise.all([
+      db.one(
+        `SELECT id, email, name, avatar_url, timezone, locale, energy_pattern, preferences, created_at, updated_at
+         FROM users WHERE id = $1`,
+        [userId]
+      ),
+      db.oneOrNone('SELECT * FROM notification_preferences WHERE user_id = $1', [userId]),
+      db.any('SELECT * FROM tasks WHERE user_id = $1 ORDER BY created_at', [userId]),
+      db.any('SELECT * FROM projects WHERE user_id = $1 ORDER BY created_at', [userId]),
+      db.any('SELECT id, label, color, created_at, updated_at FROM tags WHERE user_id = $1 ORDER BY LOWER(label)', [userId]),
+      db.any('SELECT * FROM energy_logs WHERE user_id = $1 ORDER BY logged_at', [userId]),
+      db.any(
+        `SELECT td.* FROM task_dependencies td
+         JOIN tasks t ON t.id = td.task_id
+         WHERE t.user_id = $1
+         ORDER BY td.created_at`,
+        [userId]
+      ),
+      // Comments the user wrote, including on other people's tasks; edit history is kept out
+      db.any(
+        `SELECT id, task_id, body, mentions, created_at, edited_at, deleted_at
+         FROM task_comments WHERE author_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      db.any('SELECT * FROM task_activity WHERE owner_id = $1 OR actor_id = $1 ORDER BY created_at', [userId]),
+      db.any(
+        `SELECT tr.* FROM task_status_transitions tr
+         JOIN tasks t ON t.id = tr.task_id
+         WHERE t.user_id = $1
+         ORDER BY tr.created_at, tr.id`,
+        [userId]
+      ),
+      db.any(
+        `SELECT tm.team_id, t.name as team_name, tm.role, tm.status, tm.joined_at, tm.last_active_at
+         FROM team_members tm
+         JOIN teams t ON t.id = tm.team_id
+         WHERE tm.user_id = $1
+         ORDER BY tm.joined_at`,
+        [userId]
+      ),
+      db.any(
+        `SELECT ue.emblem_id, e.name, e.description, e.rarity, ue.unlocked_at, ue.equipped, ue.progress
+         FROM user_emblems ue
+         JOIN emblems e ON e.id = ue.emblem_id
+         WHERE ue.user_id = $1
+         ORDER BY ue.unlocked_at`,
+        [userId]
+      ),
+      db.any('SELECT * FROM daily_challenges WHERE user_id = $1 ORDER BY created_at', [userId])
+    ]);
+
+    return {
+      exported_at: new Date().toISOString(),
+      profile,
+      notification_preferences: notificationPreferences,
+      tasks,
+      projects,
+      tags,
+      energy_logs: energyLogs,
+      task_dependencies: taskDependencies,
+      task_comments: taskComments,
+      task_activity: taskActivity,
+      task_status_transitions: taskStatusTransitions,
+      team_memberships: teamMemberships,
+      emblems,
+      challenges
+    };
+  }
+
+  // JSON is one document; ZIP holds the profile as JSON plus one CSV per list
+  static serialize(archive: ExportArchive, format: DataExportFormat): Buffer {
+    if (format === 'json') {
+      return Buffer.from(JSON.stringify(archive, null, 2), 'utf8');
+    }
+
+    const { exported_at, profile, notification_preferences, ...lists } = archive;
+    return createZip([
+      { name: 'profile.json', data: JSON.stringify({ exported_at, profile, notification_preferences }, null, 2) },
+      ...Object.entries(lists).map(([name, rows]) => ({ name: `${name}.csv`, data: toCsv(rows as Record<string, any>[]) }))
+    ]);
+  }
+
+  // Reuse a queued or still-downloadable export, or queue a new one and start building it
+  static async request(userId: string, format: DataExportFormat): Promise<DataExport> {
+    const active = await DataExportModel.findActive(userId, format);
+    if (active) {
+      return active;
+    }
+
+    const created = await DataExportModel.create(userId, format);
+
+    // Built in the background; the export job picks it up if this process stops first
+    setImmediate(() => {
+      this.process(created.id).catch(error => {
+        console.error(`[exports] Error building export ${created.id}:`, error);
+      });
+    });
+
+    return created;
+  }
+
+  // Build one export if it can be claimed; returns the finished export or null
+  static async process(id: string, now = new Date()): Promise<DataExport | null> {
+    const claimed = await DataExportModel.claim(id, STALE_AFTER_MS, MAX_ATTEMPTS);
+    if (!claimed) {
+      return null;
+    }
+
+    try {
+      const archive = await this.collect(claimed.user_id);
+      const contents = this.serialize(archive, claimed.format);
+
+      await fs.promises.mkdir(EXPORT_DIR, { recursive: true });
+      const filePath = path.join(EXPORT_DIR, `${claimed.id}.${claimed.format}`);
+      await fs.promises.writeFile(filePath, contents);
+
+      return await DataExportModel.markReady(claimed.id, filePath, contents.length, new Date(now.getTime() + RETENTION_MS));
+    } catch (error) {
+      await DataExportModel.markFailed(claimed.id, (error as Error).message, MAX_ATTEMPTS);
+      throw error;
+    }
+  }
+
+  // Build everything waiting (including retries)
+  static async processPending(now = new Date()): Promise<number> {
+    const ids = await DataExportModel.getClaimable(STALE_AFTER_MS, MAX_ATTEMPTS);
+    let built = 0;
+
+    for (const id of ids) {
+      try {
+        if (await this.process(id, now)) {
+          built++;
+        }
+      } catch (error) {
+        console.error(`[exports] Error building export ${id}:`, error);
+      }
+    }
+
+    return built;
+  }
+
+  // Delete archives past their retention
+  static async cleanupExpired(now = new Date()): Promise<number> {
+    const expired = await DataExportModel.getExpired(now);
+
+    for (const dataExport of expired) {
+      if (dataExport.file_path) {
+        await fs.promises.rm(dataExport.file_path, { force: true });
+      }
+      await DataExportModel.markExpired(dataExport.id);
+    }
+
+    return expired.length;
+  }
+
+  // A short-lived download link that works without an Authorization header
+  static signDownload(dataExport: DataExport, now = new Date()): SignedDownload {
+    const expires = Math.min(now.getTime() + LINK_TTL_MS, new Date(dataExport.expires_at!).getTime());
+    return {
+      url: `/api/exports/${dataExport.id}/download?expires=${expires}&signature=${sign(dataExport.id, expires)}`,
+      expires_at: new Date(expires)
+    };
+  }
+
+  static verifyDownload(id: string, expires: string, signature: string, now = new Date()): boolean {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt < now.getTime() || !/^[0-9a-f]{64}$/.test(signature)) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(Buffer.from(sign(id, expiresAt), 'hex'), Buffer.from(signature, 'hex'));
+  }
+}
@@ -0,0 +1,172 @@
+import { TaskModel } from '../models/Task';
+import { EnergyModel } from '../models/Energy';
+import { UserModel } from '../models/User';
+import { NotificationDeliveryModel } from '../models/NotificationDelivery';
+import { TeamInviteModel } from '../models/TeamInvite';
+import { NotificationController } from '../controllers/notification.controller';
+import { RecurrenceService } from './recurrence.service';
+import { DataExportService } from './export.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { TrashService } from './trash.service';
+import { JobScheduler, ScheduledJob, SchedulerOptions } from './scheduler';
+import { getLocalDateTime } from '../utils/timezone';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Local hour (in the user's timezone) after which the daily summary goes out
+const DAILY_SUMMARY_HOUR = parseInt(process.env.DAILY_SUMMARY_HOUR || '', 10) || 8;
+
+// Generate the next instance for recurring tasks that were completed or went overdue
+export const recurrenceSweepJob: ScheduledJob = {
+  name: 'recurrence-sweep',
+  intervalMs: 5 * MINUTE_MS,
+  async run({ now }) {
+    await RecurrenceService.sweep(now);
+  }
+};
+
+// Email a reminder once per task when it enters the owner's reminder window
+export const dueDateReminderJob: ScheduledJob = {
+  name: 'due-date-reminders',
+  intervalMs: 5 * MINUTE_MS,
+  async run({ now, mailer }) {
+    const tasks = await TaskModel.getTasksDueForReminder(now);
+
+    for (const task of tasks) {
+      const delivery = await NotificationDeliveryModel.claim(task.user_id, 'due_date_reminder', task.id, task.id);
+      if (!delivery) {
+        continue;
+      }
+
+      try {
+        const recipient = {
+          id: task.user_id,
+          email: task.user_email,
+          timezone: task.user_timezone,
+          locale: task.user_locale
+        };
+        const reminderTask = {
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          due_date: task.due_date as Date
+        };
+        const sent = await NotificationController.sendDueDateReminder(recipient, reminderTask, mailer);
+        await NotificationDeliveryModel.complete(delivery.id, sent ? 'sent' : 'skipped');
+      } catch (error) {
+        console.error(`[jobs] Failed to send due date reminder for task ${task.id}:`, error);
+        await NotificationDeliveryModel.release(delivery.id);
+      }
+    }
+  }
+};
+
+// Email the daily summary once per local day, after DAILY_SUMMARY_HOUR in the user's timezone
+export function createDailySummaryJob(summaryHour = DAILY_SUMMARY_HOUR): ScheduledJob {
+  return {
+    name: 'daily-summary',
+    intervalMs: 15 * MINUTE_MS,
+    async run({ now, mailer }) {
+      const recipients = await UserModel.getDailySummaryRecipients(now);
+      const since = new Date(now.getTime() - DAY_MS);
+
+      for (const user of recipients) {
+        const local = getLocalDateTime(now, user.timezone);
+        if (local.hour < summaryHour) {
+          continue;
+        }
+
+        // Keyed by the user's local date so a restart can't send the same day twice
+        const delivery = await NotificationDeliveryModel.claim(user.id, 'daily_summary', local.date);
+        if (!delivery) {
+          continue;
+        }
+
+        try {
+          const [completion, avgEnergy, streak] = await Promise.all([
+            TaskModel.getCompletionSummary(user.id, since),
+            EnergyModel.getAverageEnergySince(user.id, since),
+            TaskModel.getCompletionStreak(user.id, now)
+          ]);
+
+          const stats = {
+            date: now,
+            completed: completion.completed,
+            points: completion.points,
+            avgEnergy,
+            streak
+          };
+
+          const sent = await NotificationController.sendDailySummary(user, stats, mailer);
+          await NotificationDeliveryModel.complete(delivery.id, sent ? 'sent' : 'skipped');
+        } catch (error) {
+          console.error(`[jobs] Failed to send daily summary to user ${user.id}:`, error);
+          await NotificationDeliveryModel.release(delivery.id);
+        }
+      }
+    }
+  };
+}
+
+// Mark pending team invitations past their expiry as expired
+export const teamInviteExpiryJob: ScheduledJob = {
+  name: 'team-invite-expiry',
+  intervalMs: 60 * MINUTE_MS,
+  async run() {
+    const expired = await TeamInviteModel.expireStale();
+    if (expired > 0) {
+      console.log(`[jobs] Expired ${expired} team invitation(s)`);
+    }
+  }
+};
+
+// Build queued data exports (and retry failed ones), then delete archives past retention
+export const dataExportJob: ScheduledJob = {
+  name: 'data-exports',
+  intervalMs: MINUTE_MS,
+  async run({ now }) {
+    await DataExportService.processPending(now);
+
+    const removed = await DataExportService.cleanupExpired(now);
+    if (removed > 0) {
+      console.log(`[jobs] Removed ${removed} expired data export(s)`);
+    }
+  }
+};
+
+// Permanently delete accounts whose deletion grace period has ended
+export const accountPurgeJob: ScheduledJob = {
+  name: 'account-purge',
+  intervalMs: 60 * MINUTE_MS,
+  async run({ now }) {
+    const purged = await AccountDeletionService.purgeDue(now);
+    if (purged > 0) {
+      console.log(`[jobs] Purged ${purged} deleted account(s)`);
+    }
+  }
+};
+
+// Permanently delete tasks and projects that have been in the trash past the retention period
+export const trashPurgeJob: ScheduledJob = {
+  name: 'trash-purge',
+  intervalMs: 60 * MINUTE_MS,
+  async run({ now }) {
+    const purged = await TrashService.purgeExpired(now);
+    if (purged.tasks > 0 || purged.projects > 0) {
+      console.log(`[jobs] Purged ${purged.tasks} task(s) and ${purged.projects} project(s) from the trash`);
+    }
+  }
+};
+
+// Create the scheduler with every application job registered
+export function createAppScheduler(options: SchedulerOptions = {}): JobScheduler {
+  return new JobScheduler(options)
+    .register(recurrenceSweepJob)
+    .register(dueDateReminderJob)
+    .register(createDailySummaryJob())
+    .register(teamInviteExpiryJob)
+    .register(dataExportJob)
+    .register(accountPurgeJob)
+    .register(trashPurgeJob);
+}
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import { Mailer } from './mailer';
+import { SendGridTransport } from './sendgrid.transport';
+import { SmtpTransport } from './smtp.transport';
+import { FileOutboxTransport, MemoryTransport } from './outbox.transport';
+import { MailTransport } from './types';
+
+export { Mailer, MailerOptions } from './mailer';
+export { MailMessage, MailSendResult, MailTransport, MailTransportError } from './types';
+export { SendGridTransport } from './sendgrid.transport';
+export { SmtpTransport, SmtpConfig } from './smtp.transport';
+export { MemoryTransport, FileOutboxTransport, SentMail } from './outbox.transport';
+
+export type MailTransportName = 'sendgrid' | 'smtp' | 'memory' | 'file';
+
+/**
+ * Build the transport named by MAIL_TRANSPORT.
+ * Without it, SendGrid is used when SENDGRID_API_KEY is set and the file outbox otherwise.
+ */
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const name = (env.MAIL_TRANSPORT || (env.SENDGRID_API_KEY ? 'sendgrid' : 'file')) as MailTransportName;
+
+  switch (name) {
+    case 'sendgrid':
+      return new SendGridTransport(env.SENDGRID_API_KEY || '');
+    case 'smtp':
+      return new SmtpTransport({
+        host: env.SMTP_HOST || 'localhost',
+        port: parseInt(env.SMTP_PORT || '', 10) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS
+      });
+    case 'memory':
+      return new MemoryTransport();
+    case 'file':
+      return new FileOutboxTransport(env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'mail-outbox'));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+  }
+}
+
+// Application-wide mailer configured from the environment
+export const defaultMailer = new Mailer(createTransportFromEnv(), {
+  from: process.env.MAIL_FROM,
+  maxAttempts: parseInt(process.env.MAIL_MAX_ATTEMPTS || '', 10) || 3
+});
@@ -0,0 +1,87 @@
+import { MailOutboxModel } from '../../models/MailOutbox';
+import { MailMessage, MailSendResult, MailTransport, MailTransportError } from './types';
+
+export interface MailerOptions {
+  from?: string;
+  maxAttempts?: number;
+  retryDelayMs?: number; // Doubles after each failed attempt
+  recordOutbox?: boolean; // Write every send to mail_outbox (disable for database-free tests)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends mail through a transport with retries, and records each message in the outbox
+ */
+export class Mailer {
+  readonly from: string;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly recordOutbox: boolean;
+
+  constructor(readonly transport: MailTransport, options: MailerOptions = {}) {
+    this.from = options.from || 'notifications@syncscript.app';
+    this.maxAttempts = Math.max(1, options.maxAttempts || 3);
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.recordOutbox = options.recordOutbox ?? true;
+  }
+
+  // Send a message; throws the last transport error once retries are exhausted
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const outgoing = { ...message, from: message.from || this.from };
+    let lastError: unknown;
+    let attempts = 0;
+
+    while (attempts < this.maxAttempts) {
+      attempts++;
+      try {
+        const result = await this.transport.send(outgoing);
+        await this.record(outgoing, 'sent', attempts, result.messageId);
+        return result;
+      } catch (error) {
+        lastError = error;
+
+        if (error instanceof MailTransportError && !error.retryable) {
+          break;
+        }
+        if (attempts < this.maxAttempts) {
+          await sleep(this.retryDelayMs * 2 ** (attempts - 1));
+        }
+      }
+    }
+
+    const reason = lastError instanceof Error ? lastError.message : String(lastError);
+    await this.record(outgoing, 'failed', attempts, undefined, reason);
+    throw lastError;
+  }
+
+  // Outbox failures are logged, never surfaced: the email itself was already handled
+  private async record(
+    message: MailMessage & { from: string },
+    status: 'sent' | 'failed',
+    attempts: number,
+    providerMessageId?: string,
+    error?: string
+  ): Promise<void> {
+    if (!this.recordOutbox) {
+      return;
+    }
+
+    try {
+      await MailOutboxModel.record({
+        to_address: message.to,
+        from_address: message.from,
+        subject: message.subject,
+        category: message.category,
+        transport: this.transport.name,
+        status,
+        attempts,
+        provider_message_id: providerMessageId,
+        error,
+        metadata: message.metadata
+      });
+    } catch (outboxError) {
+      console.error('[mail] Failed to record outbox entry:', outboxError);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { MailMessage, MailSendResult, MailTransport } from './types';
+
+export type SentMail = MailMessage & { from: string; messageId: string; sentAt: Date };
+
+// Keeps sent messages in memory (tests)
+export class MemoryTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly sent: SentMail[] = [];
+
+  async send(message: MailMessage & { from: string }): Promise<MailSendResult> {
+    const messageId = randomUUID();
+    this.sent.push({ ...message, messageId, sentAt: new Date() });
+    return { messageId };
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+// Writes each message to a JSON file in a directory (local development)
+export class FileOutboxTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<MailSendResult> {
+    const messageId = randomUUID();
+    const sentAt = new Date();
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(this.directory, `${sentAt.toISOString().replace(/[:.]/g, '-')}-${messageId}.json`),
+      JSON.stringify({ ...message, messageId, sentAt }, null, 2)
+    );
+
+    return { messageId };
+  }
+}
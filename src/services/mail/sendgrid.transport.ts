@@ -0,0 +1,30 @@
+import sgMail from '@sendgrid/mail';
+import { MailMessage, MailSendResult, MailTransport, MailTransportError } from './types';
+
+export class SendGridTransport implements MailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<MailSendResult> {
+    try {
+      const [response] = await sgMail.send({
+        to: message.to,
+        from: message.from,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        categories: message.category ? [message.category] : undefined
+      } as sgMail.MailDataRequired);
+
+      return { messageId: response.headers['x-message-id'] };
+    } catch (error: any) {
+      // Client errors (bad address, bad payload) won't succeed on retry; rate limits will
+      const status: number | undefined = error?.code;
+      const retryable = !status || status === 429 || status >= 500;
+      throw new MailTransportError(`SendGrid send failed: ${error?.message || error}`, retryable, error);
+    }
+  }
+}
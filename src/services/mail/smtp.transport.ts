@@ -0,0 +1,43 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailMessage, MailSendResult, MailTransport, MailTransportError } from './types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<MailSendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        to: message.to,
+        from: message.from,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      });
+
+      return { messageId: info.messageId };
+    } catch (error: any) {
+      // 5xx SMTP replies are permanent failures; connection errors and 4xx are worth retrying
+      const responseCode: number | undefined = error?.responseCode;
+      const retryable = !responseCode || responseCode < 500;
+      throw new MailTransportError(`SMTP send failed: ${error?.message || error}`, retryable, error);
+    }
+  }
+}
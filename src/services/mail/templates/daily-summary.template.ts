@@ -0,0 +1,59 @@
+import { html } from './html';
+import { formatDate, formatNumber } from './format';
+import { layout, panel, textLayout } from './layout';
+import { EmailTemplate } from './types';
+
+export interface DailySummaryData {
+  date: Date | string;
+  completed: number;
+  points: number;
+  avgEnergy: number | null;
+  streak: number;
+}
+
+export const dailySummaryTemplate: EmailTemplate<DailySummaryData> = {
+  name: 'daily-summary',
+  description: "Daily productivity summary, sent in the morning of the user's timezone",
+  sampleData: {
+    date: new Date(),
+    completed: 7,
+    points: 420,
+    avgEnergy: 3.6,
+    streak: 5
+  },
+
+  subject: () => '📊 Your Daily Productivity Summary',
+
+  html: (data, context) => {
+    const stat = (value: string, label: string, color: string) => html`
+      <div style="background: #f5f5f5; padding: 15px; border-radius: 8px; text-align: center;">
+        <div style="font-size: 32px; font-weight: bold; color: ${color};">${value}</div>
+        <div style="color: #666;">${label}</div>
+      </div>`;
+
+    return layout({
+      heading: '📊 Daily Summary',
+      body: html`
+        <p style="color: #666;">${formatDate(data.date, context)}</p>
+        <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 15px; margin: 20px 0;">
+          ${stat(formatNumber(data.completed, context), 'Tasks Completed', '#48BB78')}
+          ${stat(formatNumber(data.points, context), 'Points Earned', '#667eea')}
+        </div>
+        ${panel(html`
+          <h4 style="margin: 0 0 10px 0;">⚡ Average Energy: ${data.avgEnergy !== null ? formatNumber(data.avgEnergy, context, 1) : '–'}/5</h4>
+          <h4 style="margin: 0;">🔥 Current Streak: ${formatNumber(data.streak, context)} days</h4>`)}`,
+      action: { label: 'View Full Report', path: '/dashboard' }
+    }, context);
+  },
+
+  text: (data, context) => textLayout({
+    heading: `Daily Summary - ${formatDate(data.date, context)}`,
+    body: [
+      `Tasks completed: ${formatNumber(data.completed, context)}`,
+      `Points earned: ${formatNumber(data.points, context)}`,
+      `Average energy: ${data.avgEnergy !== null ? formatNumber(data.avgEnergy, context, 1) : '–'}/5`,
+      `Current streak: ${formatNumber(data.streak, context)} days`
+    ].join('\n'),
+    action: { label: 'View Full Report', path: '/dashboard' }
+  }, context)
+};
@@ -0,0 +1,49 @@
+import { html } from './html';
+import { formatDateTime } from './format';
+import { layout, panel, textLayout } from './layout';
+import { EmailTemplate } from './types';
+
+export interface DueDateReminderData {
+  task: {
+    id: string;
+    title: string;
+    description?: string | null;
+    due_date: Date | string;
+  };
+}
+
+export const dueDateReminderTemplate: EmailTemplate<DueDateReminderData> = {
+  name: 'due-date-reminder',
+  description: 'Sent once when a pending task enters the reminder window',
+  sampleData: {
+    task: {
+      id: '00000000-0000-0000-0000-000000000000',
+      title: 'Finish the quarterly report',
+      description: 'Pull numbers from the dashboard & write the <summary> section',
+      due_date: new Date(Date.now() + 6 * 60 * 60 * 1000)
+    }
+  },
+
+  subject: ({ task }) => `⏰ Reminder: "${task.title}" is due soon`,
+
+  html: ({ task }, context) => layout({
+    heading: '⏰ Task Reminder',
+    body: panel(html`
+      <h3 style="margin: 0 0 10px 0;">${task.title}</h3>
+      ${task.description ? html`<p style="color: #666; margin: 0 0 10px 0;">${task.description}</p>` : null}
+      <p style="color: #E53E3E; font-weight: bold; margin: 0;">
+        Due: ${formatDateTime(task.due_date, context)}
+      </p>`),
+    action: { label: 'Complete Task', path: '/dashboard' }
+  }, context),
+
+  text: ({ task }, context) => textLayout({
+    heading: 'Task Reminder',
+    body: [
+      task.title,
+      task.description || '',
+      `Due: ${formatDateTime(task.due_date, context)}`
+    ].filter(Boolean).join('\n'),
+    action: { label: 'Complete Task', path: '/dashboard' }
+  }, context)
+};
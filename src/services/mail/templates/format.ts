@@ -0,0 +1,48 @@
+import { isValidLocale } from '../../../utils/locale';
+import { isValidTimeZone } from '../../../utils/timezone';
+
+export interface RenderContext {
+  timeZone: string;
+  locale: string;
+  appUrl: string;
+}
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// Build a render context for a recipient, falling back to UTC / en-US for unknown values
+export function createRenderContext(options: { timeZone?: string | null; locale?: string | null } = {}): RenderContext {
+  return {
+    timeZone: options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : 'UTC',
+    locale: options.locale && isValidLocale(options.locale) ? options.locale : DEFAULT_LOCALE,
+    appUrl: (process.env.FRONTEND_URL || 'https://www.syncscript.app').replace(/\/$/, '')
+  };
+}
+
+// e.g. "Monday, October 20, 2025"
+export function formatDate(value: Date | string, context: RenderContext): string {
+  return new Intl.DateTimeFormat(context.locale, {
+    timeZone: context.timeZone,
+    dateStyle: 'full'
+  }).format(new Date(value));
+}
+
+// e.g. "Monday, October 20, 2025 at 9:00 AM EDT"
+export function formatDateTime(value: Date | string, context: RenderContext): string {
+  return new Intl.DateTimeFormat(context.locale, {
+    timeZone: context.timeZone,
+    dateStyle: 'full',
+    timeStyle: 'short'
+  }).format(new Date(value)) + ` ${timeZoneName(value, context)}`;
+}
+
+function timeZoneName(value: Date | string, context: RenderContext): string {
+  const parts = new Intl.DateTimeFormat(context.locale, {
+    timeZone: context.timeZone,
+    timeZoneName: 'short'
+  }).formatToParts(new Date(value));
+  return parts.find(part => part.type === 'timeZoneName')?.value || context.timeZone;
+}
+
+export function formatNumber(value: number, context: RenderContext, maximumFractionDigits = 0): string {
+  return new Intl.NumberFormat(context.locale, { maximumFractionDigits }).format(value);
+}
@@ -0,0 +1,50 @@
+// Markup that has already been escaped (or is trusted) and must not be escaped again
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export function escapeHtml(value: unknown): string {
+  return String(value).replace(/[&<>"']/g, char => ESCAPES[char]);
+}
+
+// Mark a string as trusted markup
+export function raw(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+function interpolate(value: unknown): string {
+  if (value === null || value === undefined || value === false) {
+    return '';
+  }
+  if (value instanceof SafeHtml) {
+    return value.value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(interpolate).join('');
+  }
+  return escapeHtml(value);
+}
+
+/**
+ * Tagged template for HTML: every interpolated value is escaped unless it is SafeHtml
+ * (e.g. the result of another html`` call). null, undefined and false render nothing.
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  let result = strings[0];
+  values.forEach((value, index) => {
+    result += interpolate(value) + strings[index + 1];
+  });
+  return new SafeHtml(result);
+}
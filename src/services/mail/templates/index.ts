@@ -0,0 +1,55 @@
+import { EmailTemplate, RenderedEmail } from './types';
+import { RenderContext } from './format';
+import { testTemplate } from './test.template';
+import { dueDateReminderTemplate } from './due-date-reminder.template';
+import { dailySummaryTemplate } from './daily-summary.template';
+import { teamInviteTemplate } from './team-invite.template';
+import { taskAssignedTemplate } from './task-assigned.template';
+import { taskReviewTemplate } from './task-review.template';
+import { taskMentionTemplate } from './task-mention.template';
+
+export { EmailTemplate, RenderedEmail } from './types';
+export { RenderContext, createRenderContext, formatDate, formatDateTime, formatNumber } from './format';
+export { html, raw, escapeHtml, SafeHtml } from './html';
+export { DueDateReminderData } from './due-date-reminder.template';
+export { DailySummaryData } from './daily-summary.template';
+export { TeamInviteData } from './team-invite.template';
+export { TaskAssignedData } from './task-assigned.template';
+export { TaskReviewData } from './task-review.template';
+export { TaskMentionData } from './task-mention.template';
+
+const registry = new Map<string, EmailTemplate>();
+
+export function registerTemplate<T>(template: EmailTemplate<T>): void {
+  registry.set(template.name, template);
+}
+
+export function getTemplate(name: string): EmailTemplate | undefined {
+  return registry.get(name);
+}
+
+export function listTemplates(): { name: string; description: string }[] {
+  return Array.from(registry.values()).map(({ name, description }) => ({ name, description }));
+}
+
+// Render a registered template to subject, HTML and plain text
+export function renderTemplate<T>(name: string, data: T, context: RenderContext): RenderedEmail {
+  const template = registry.get(name) as EmailTemplate<T> | undefined;
+  if (!template) {
+    throw new Error(`Unknown email template: ${name}`);
+  }
+
+  return {
+    subject: template.subject(data, context),
+    html: template.html(data, context).toString().trim(),
+    text: template.text(data, context)
+  };
+}
+
+registerTemplate(testTemplate);
+registerTemplate(dueDateReminderTemplate);
+registerTemplate(dailySummaryTemplate);
+registerTemplate(teamInviteTemplate);
+registerTemplate(taskAssignedTemplate);
+registerTemplate(taskReviewTemplate);
+registerTemplate(taskMentionTemplate);
@@ -0,0 +1,69 @@
+import { html, SafeHtml } from './html';
+import { RenderContext } from './format';
+
+export interface EmailAction {
+  label: string;
+  path: string; // Relative to the app URL, e.g. '/dashboard'
+}
+
+// Call-to-action button
+export function button(action: EmailAction, context: RenderContext): SafeHtml {
+  return html`
+    <div style="text-align: center; margin-top: 30px;">
+      <a href="${context.appUrl}${action.path}"
+         style="background: linear-gradient(135deg, #667eea, #764ba2);
+                color: white;
+                padding: 12px 30px;
+                text-decoration: none;
+                border-radius: 8px;
+                font-weight: bold;">
+        ${action.label}
+      </a>
+    </div>`;
+}
+
+// Grey content panel
+export function panel(content: SafeHtml): SafeHtml {
+  return html`
+    <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+      ${content}
+    </div>`;
+}
+
+// Shared HTML wrapper: heading, body, optional button and footer
+export function layout(
+  options: { heading: string; body: SafeHtml; action?: EmailAction },
+  context: RenderContext
+): SafeHtml {
+  return html`
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #4A90E2;">${options.heading}</h2>
+      ${options.body}
+      ${options.action ? button(options.action, context) : null}
+      <p style="font-size: 12px; color: #999; text-align: center; margin-top: 30px;">
+        SyncScript - Energy-Based Productivity Platform<br>
+        <a href="${context.appUrl}/settings/notifications" style="color: #999;">Manage email preferences</a>
+      </p>
+    </div>`;
+}
+
+// Shared plain-text wrapper matching layout()
+export function textLayout(
+  options: { heading: string; body: string; action?: EmailAction },
+  context: RenderContext
+): string {
+  const lines = [options.heading, '', options.body.trim()];
+
+  if (options.action) {
+    lines.push('', `${options.action.label}: ${context.appUrl}${options.action.path}`);
+  }
+
+  lines.push(
+    '',
+    '--',
+    'SyncScript - Energy-Based Productivity Platform',
+    `Manage email preferences: ${context.appUrl}/settings/notifications`
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,69 @@
+import { html } from './html';
+import { formatDateTime } from './format';
+import { layout, panel, textLayout } from './layout';
+import { EmailTemplate } from './types';
+
+export interface TaskAssignedData {
+  task: {
+    id: string;
+    title: string;
+    description?: string | null;
+    due_date?: Date | string | null;
+    estimated_duration?: number | null;
+  };
+  projectName: string;
+  assignerName: string;
+  autoAssigned: boolean;
+}
+
+export const taskAssignedTemplate: EmailTemplate<TaskAssignedData> = {
+  name: 'task-assigned',
+  description: 'Sent to a team member when a shared project task is assigned to them',
+  sampleData: {
+    task: {
+      id: '00000000-0000-0000-0000-000000000000',
+      title: 'Draft the launch checklist',
+      description: 'Cover QA, docs & the <release> notes',
+      due_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+      estimated_duration: 45
+    },
+    projectName: 'Website Relaunch',
+    assignerName: 'Alex Rivera',
+    autoAssigned: false
+  },
+
+  subject: ({ task }) => `📌 New task for you: "${task.title}"`,
+
+  html: (data, context) => layout({
+    heading: '📌 Task Assigned',
+    body: html`
+      <p style="font-size: 16px; line-height: 1.6; color: #333;">
+        ${data.autoAssigned
+          ? html`This task in <strong>${data.projectName}</strong> was matched to you based on your energy and workload.`
+          : html`<strong>${data.assignerName}</strong> assigned you a task in <strong>${data.projectName}</strong>.`}
+      </p>
+      ${panel(html`
+        <h3 style="margin: 0 0 10px 0;">${data.task.title}</h3>
+        ${data.task.description ? html`<p style="color: #666; margin: 0 0 10px 0;">${data.task.description}</p>` : null}
+        ${data.task.due_date ? html`<p style="margin: 0;">Due: ${formatDateTime(data.task.due_date, context)}</p>` : null}
+        ${data.task.estimated_duration ? html`<p style="margin: 0;">Estimated: ${data.task.estimated_duration} min</p>` : null}`)}`,
+    action: { label: 'View Task', path: '/dashboard' }
+  }, context),
+
+  text: (data, context) => textLayout({
+    heading: 'Task Assigned',
+    body: [
+      data.autoAssigned
+        ? `This task in ${data.projectName} was matched to you based on your energy and workload.`
+        : `${data.assignerName} assigned you a task in ${data.projectName}.`,
+      '',
+      ...[
+        data.task.title,
+        data.task.description || '',
+        data.task.due_date ? `Due: ${formatDateTime(data.task.due_date, context)}` : '',
+        data.task.estimated_duration ? `Estimated: ${data.task.estimated_duration} min` : ''
+      ].filter(Boolean)
+    ].join('\n'),
+    action: { label: 'View Task', path: '/dashboard' }
+  }, context)
+};
@@ -0,0 +1,59 @@
+import { html } from './html';
+import { formatDateTime } from './format';
+import { layout, panel, textLayout } from './layout';
+import { EmailTemplate } from './types';
+
+export interface TaskMentionData {
+  task: {
+    id: string;
+    title: string;
+  };
+  comment: {
+    id: string;
+    excerpt: string; // Plain text, mentions already reduced to @Name
+    created_at: Date | string;
+  };
+  authorName: string;
+}
+
+export const taskMentionTemplate: EmailTemplate<TaskMentionData> = {
+  name: 'task-mention',
+  description: 'Sent when someone mentions a user in a task comment',
+  sampleData: {
+    task: {
+      id: '00000000-0000-0000-0000-000000000000',
+      title: 'Draft the launch checklist'
+    },
+    comment: {
+      id: '00000000-0000-0000-0000-000000000001',
+      excerpt: '@Sam can you double-check the <release> notes & the QA list?',
+      created_at: new Date()
+    },
+    authorName: 'Alex Rivera'
+  },
+
+  subject: ({ task, authorName }) => `💬 ${authorName} mentioned you on "${task.title}"`,
+
+  html: (data, context) => layout({
+    heading: '💬 You were mentioned',
+    body: html`
+      <p style="font-size: 16px; line-height: 1.6; color: #333;">
+        <strong>${data.authorName}</strong> mentioned you in a comment on <strong>${data.task.title}</strong>.
+      </p>
+      ${panel(html`
+        <p style="margin: 0 0 10px 0; white-space: pre-wrap;">${data.comment.excerpt}</p>
+        <p style="color: #666; margin: 0;">${formatDateTime(data.comment.created_at, context)}</p>`)}`,
+    action: { label: 'View Task', path: '/dashboard' }
+  }, context),
+
+  text: (data, context) => textLayout({
+    heading: 'You were mentioned',
+    body: [
+      `${data.authorName} mentioned you in a comment on ${data.task.title}.`,
+      '',
+      data.comment.excerpt,
+      formatDateTime(data.comment.created_at, context)
+    ].join('\n'),
+    action: { label: 'View Task', path: '/dashboard' }
+  }, context)
+};
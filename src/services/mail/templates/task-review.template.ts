@@ -0,0 +1,57 @@
+import { html } from './html';
+import { layout, panel, textLayout } from './layout';
+import { EmailTemplate } from './types';
+
+export interface TaskReviewData {
+  task: {
+    id: string;
+    title: string;
+  };
+  projectName: string;
+  reviewerName: string;
+  decision: 'approved' | 'rejected';
+  reason?: string | null;
+}
+
+export const taskReviewTemplate: EmailTemplate<TaskReviewData> = {
+  name: 'task-review',
+  description: 'Tells the requester whether their task was approved or rejected',
+  sampleData: {
+    task: {
+      id: '00000000-0000-0000-0000-000000000000',
+      title: 'Add a <dark mode> toggle'
+    },
+    projectName: 'Website Relaunch',
+    reviewerName: 'Alex Rivera',
+    decision: 'rejected',
+    reason: 'Out of scope for this release & needs design input first'
+  },
+
+  subject: data => data.decision === 'approved'
+    ? `✅ Task approved: "${data.task.title}"`
+    : `❌ Task not approved: "${data.task.title}"`,
+
+  html: (data, context) => layout({
+    heading: data.decision === 'approved' ? '✅ Task Approved' : '❌ Task Not Approved',
+    body: html`
+      <p style="font-size: 16px; line-height: 1.6; color: #333;">
+        <strong>${data.reviewerName}</strong> ${data.decision === 'approved' ? 'approved' : 'did not approve'}
+        your task in <strong>${data.projectName}</strong>.
+      </p>
+      ${panel(html`
+        <h3 style="margin: 0 0 10px 0;">${data.task.title}</h3>
+        ${data.reason ? html`<p style="color: #666; margin: 0;">Reason: ${data.reason}</p>` : null}`)}`,
+    action: { label: 'View Task', path: '/dashboard' }
+  }, context),
+
+  text: (data, context) => textLayout({
+    heading: data.decision === 'approved' ? 'Task Approved' : 'Task Not Approved',
+    body: [
+      `${data.reviewerName} ${data.decision === 'approved' ? 'approved' : 'did not approve'} your task in ${data.projectName}.`,
+      '',
+      data.task.title,
+      ...(data.reason ? [`Reason: ${data.reason}`] : [])
+    ].join('\n'),
+    action: { label: 'View Task', path: '/dashboard' }
+  }, context)
+};
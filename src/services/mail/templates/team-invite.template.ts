@@ -0,0 +1,54 @@
+import { html } from './html';
+import { formatDateTime } from './format';
+import { layout, panel, textLayout } from './layout';
+import { EmailTemplate } from './types';
+
+export interface TeamInviteData {
+  teamName: string;
+  inviterName: string;
+  role: string;
+  token: string;
+  expiresAt: Date | string;
+}
+
+const joinPath = (token: string) => `/join-team?token=${encodeURIComponent(token)}`;
+
+export const teamInviteTemplate: EmailTemplate<TeamInviteData> = {
+  name: 'team-invite',
+  description: 'Invitation to join a team, with an accept link',
+  sampleData: {
+    teamName: 'Product & Design',
+    inviterName: 'Alex Rivera',
+    role: 'member',
+    token: 'sample-token',
+    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+  },
+
+  subject: data => `👥 ${data.inviterName} invited you to join ${data.teamName} on SyncScript`,
+
+  html: (data, context) => layout({
+    heading: '👥 Team Invitation',
+    body: html`
+      <p style="font-size: 16px; line-height: 1.6; color: #333;">
+        <strong>${data.inviterName}</strong> invited you to join
+        <strong>${data.teamName}</strong> as a <strong>${data.role}</strong>.
+      </p>
+      ${panel(html`
+        <p style="color: #666; margin: 0;">
+          This invitation expires ${formatDateTime(data.expiresAt, context)}.
+          Sign in with this email address to accept it.
+        </p>`)}`,
+    action: { label: 'Accept Invitation', path: joinPath(data.token) }
+  }, context),
+
+  text: (data, context) => textLayout({
+    heading: 'Team Invitation',
+    body: [
+      `${data.inviterName} invited you to join ${data.teamName} as a ${data.role}.`,
+      '',
+      `This invitation expires ${formatDateTime(data.expiresAt, context)}.`,
+      'Sign in with this email address to accept it.'
+    ].join('\n'),
+    action: { label: 'Accept Invitation', path: joinPath(data.token) }
+  }, context)
+};
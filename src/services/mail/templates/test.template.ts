@@ -0,0 +1,43 @@
+import { html } from './html';
+import { layout, textLayout } from './layout';
+import { EmailTemplate } from './types';
+
+const FEATURES = [
+  'Due date reminders',
+  'Daily productivity summaries',
+  'Streak maintenance alerts',
+  'Weekly productivity reports',
+  'Smart task suggestions'
+];
+
+export const testTemplate: EmailTemplate<Record<string, never>> = {
+  name: 'test',
+  description: 'Confirms that email notifications are configured',
+  sampleData: {},
+
+  subject: () => '✅ SyncScript Email Notifications Are Working!',
+
+  html: (_data, context) => layout({
+    heading: '✅ Success!',
+    body: html`
+      <p style="font-size: 16px; line-height: 1.6; color: #333;">
+        Your SyncScript email notifications are working perfectly!
+      </p>
+      <p style="font-size: 14px; color: #666;">You'll now receive:</p>
+      <ul style="font-size: 14px; color: #666;">
+        ${FEATURES.map(feature => html`<li>${feature}</li>`)}
+      </ul>`,
+    action: { label: 'Go to Dashboard', path: '/dashboard' }
+  }, context),
+
+  text: (_data, context) => textLayout({
+    heading: 'Success!',
+    body: [
+      'This is a test email from SyncScript. Your email notifications are configured correctly!',
+      '',
+      "You'll now receive:",
+      ...FEATURES.map(feature => `- ${feature}`)
+    ].join('\n'),
+    action: { label: 'Go to Dashboard', path: '/dashboard' }
+  }, context)
+};
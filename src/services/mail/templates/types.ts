@@ -0,0 +1,17 @@
+import { SafeHtml } from './html';
+import { RenderContext } from './format';
+
+export interface EmailTemplate<T = any> {
+  name: string;
+  description: string;
+  sampleData: T; // Used by the preview endpoint
+  subject(data: T, context: RenderContext): string;
+  html(data: T, context: RenderContext): SafeHtml;
+  text(data: T, context: RenderContext): string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
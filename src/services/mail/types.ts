@@ -0,0 +1,26 @@
+export interface MailMessage {
+  to: string;
+  from?: string; // Defaults to MAIL_FROM
+  subject: string;
+  text?: string;
+  html?: string;
+  category?: string; // e.g. 'due_date_reminder'; recorded in the outbox
+  metadata?: Record<string, any>;
+}
+
+export interface MailSendResult {
+  messageId?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<MailSendResult>;
+}
+
+// Thrown by transports; retryable = false stops the mailer from trying again
+export class MailTransportError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
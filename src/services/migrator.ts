@@ -0,0 +1,278 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import defaultDb from '../utils/database';
+
+type Database = typeof defaultDb;
+
+export const DEFAULT_MIGRATIONS_DIR = path.join(__dirname, '../../migrations');
+
+// Up files are NNN_name.sql; the optional matching down file is NNN_name.down.sql
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/i;
+const DOWN_SUFFIX = '.down.sql';
+
+export interface MigrationFile {
+  version: number;
+  name: string;
+  filename: string;
+  checksum: string;
+  sql: string;
+  downSql: string | null;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number;
+}
+
+export interface MigrationConflict {
+  version: number;
+  filenames: string[];
+}
+
+export interface MigrationStatus {
+  applied: (AppliedMigration & { modified: boolean })[];
+  pending: Pick<MigrationFile, 'version' | 'name' | 'filename'>[];
+  missing: AppliedMigration[]; // Recorded as applied but the file is gone
+  conflicts: MigrationConflict[];
+}
+
+export interface MigrationResult {
+  version: number;
+  name: string;
+  executionMs: number;
+  dryRun: boolean;
+}
+
+export interface MigratorOptions {
+  dir?: string;
+  db?: Database;
+  log?: (message: string) => void;
+}
+
+// Raised before anything runs when the migrations directory or history is inconsistent
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+const checksum = (sql: string) => crypto.createHash('sha256').update(sql).digest('hex');
+
+const pad = (version: number) => String(version).padStart(3, '0');
+
+/**
+ * Versioned SQL migration runner
+ * Applied versions are recorded in schema_migrations with the file's checksum.
+ * Each migration runs in its own transaction together with its bookkeeping row.
+ */
+export class Migrator {
+  private readonly dir: string;
+  private readonly db: Database;
+  private readonly log: (message: string) => void;
+
+  constructor(options: MigratorOptions = {}) {
+    this.dir = options.dir || DEFAULT_MIGRATIONS_DIR;
+    this.db = options.db || defaultDb;
+    this.log = options.log || (() => undefined);
+  }
+
+  // Read the migration files in version order
+  loadFiles(): MigrationFile[] {
+    const filenames = fs.readdirSync(this.dir);
+    const downFiles = new Set(filenames.filter(filename => filename.endsWith(DOWN_SUFFIX)));
+
+    return filenames
+      .filter(filename => !filename.endsWith(DOWN_SUFFIX))
+      .map(filename => {
+        const match = MIGRATION_FILE.exec(filename);
+        if (!match) {
+          return null;
+        }
+
+        const sql = fs.readFileSync(path.join(this.dir, filename), 'utf8');
+        const downFilename = filename.replace(/\.sql$/, DOWN_SUFFIX);
+
+        return {
+          version: parseInt(match[1], 10),
+          name: match[2],
+          filename,
+          checksum: checksum(sql),
+          sql,
+          downSql: downFiles.has(downFilename) ? fs.readFileSync(path.join(this.dir, downFilename), 'utf8') : null
+        };
+      })
+      .filter((file): file is MigrationFile => file !== null)
+      .sort((a, b) => a.version - b.version || a.filename.localeCompare(b.filename));
+  }
+
+  // Versions used by more than one file
+  findConflicts(files: MigrationFile[] = this.loadFiles()): MigrationConflict[] {
+    const byVersion = new Map<number, string[]>();
+    for (const file of files) {
+      byVersion.set(file.version, [...(byVersion.get(file.version) || []), file.filename]);
+    }
+
+    return Array.from(byVersion.entries())
+      .filter(([, filenames]) => filenames.length > 1)
+      .map(([version, filenames]) => ({ version, filenames }));
+  }
+
+  async ensureTable(): Promise<void> {
+    await this.db.none(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        execution_ms INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+  }
+
+  // A dry run reads the table if it's there but never creates it
+  async getApplied(options: { dryRun?: boolean } = {}): Promise<AppliedMigration[]> {
+    if (options.dryRun) {
+      const { exists } = await this.db.one(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`);
+      if (!exists) return [];
+    } else {
+      await this.ensureTable();
+    }
+    return await this.db.any('SELECT * FROM schema_migrations ORDER BY version');
+  }
+
+  // Compare the files on disk with what the database has recorded
+  async status(): Promise<MigrationStatus> {
+    const files = this.loadFiles();
+    const applied = await this.getApplied();
+    const filesByVersion = new Map(files.map(file => [file.version, file]));
+    const appliedVersions = new Set(applied.map(migration => migration.version));
+
+    return {
+      applied: applied
+        .filter(migration => filesByVersion.has(migration.version))
+        .map(migration => ({
+          ...migration,
+          modified: filesByVersion.get(migration.version)!.checksum !== migration.checksum
+        })),
+      pending: files
+        .filter(file => !appliedVersions.has(file.version))
+        .map(({ version, name, filename }) => ({ version, name, filename })),
+      missing: applied.filter(migration => !filesByVersion.has(migration.version)),
+      conflicts: this.findConflicts(files)
+    };
+  }
+
+  // Apply pending migrations in order, up to and including `to` if given
+  async up(options: { to?: number; dryRun?: boolean } = {}): Promise<MigrationResult[]> {
+    const files = await this.checkedFiles();
+    const appliedVersions = new Set((await this.getApplied({ dryRun: options.dryRun })).map(migration => migration.version));
+
+    const pending = files.filter(file =>
+      !appliedVersions.has(file.version) && (options.to === undefined || file.version <= options.to)
+    );
+
+    const results: MigrationResult[] = [];
+    for (const file of pending) {
+      results.push(await this.apply(file, 'up', !!options.dryRun));
+    }
+    return results;
+  }
+
+  // Roll back the most recently applied migrations
+  async down(options: { steps?: number; dryRun?: boolean } = {}): Promise<MigrationResult[]> {
+    const files = await this.checkedFiles();
+    const filesByVersion = new Map(files.map(file => [file.version, file]));
+    const applied = await this.getApplied({ dryRun: options.dryRun });
+
+    const targets = applied.slice(-(options.steps || 1)).reverse();
+
+    // Check every target up front so a rollback never stops half way for a missing file
+    for (const migration of targets) {
+      const file = filesByVersion.get(migration.version);
+      if (!file) {
+        throw new MigrationError(`Migration ${pad(migration.version)}_${migration.name} is applied but its file is missing`);
+      }
+      if (!file.downSql) {
+        throw new MigrationError(`Migration ${file.filename} has no down migration`);
+      }
+    }
+
+    const results: MigrationResult[] = [];
+    for (const migration of targets) {
+      results.push(await this.apply(filesByVersion.get(migration.version)!, 'down', !!options.dryRun));
+    }
+    return results;
+  }
+
+  // Record migrations up to `to` as applied without running them (for databases migrated by hand)
+  async baseline(to: number): Promise<MigrationResult[]> {
+    const files = await this.checkedFiles();
+    const appliedVersions = new Set((await this.getApplied()).map(migration => migration.version));
+
+    const results: MigrationResult[] = [];
+    for (const file of files.filter(file => file.version <= to && !appliedVersions.has(file.version))) {
+      await this.db.none(
+        'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, 0)',
+        [file.version, file.name, file.checksum]
+      );
+      this.log(`Baselined ${file.filename}`);
+      results.push({ version: file.version, name: file.name, executionMs: 0, dryRun: false });
+    }
+    return results;
+  }
+
+  // Files are usable only without duplicate versions and without edits to applied migrations
+  private async checkedFiles(): Promise<MigrationFile[]> {
+    const files = this.loadFiles();
+
+    const conflicts = this.findConflicts(files);
+    if (conflicts.length > 0) {
+      const details = conflicts.map(conflict => `${pad(conflict.version)}: ${conflict.filenames.join(', ')}`).join('; ');
+      throw new MigrationError(`Conflicting migration versions (${details})`);
+    }
+
+    const filesByVersion = new Map(files.map(file => [file.version, file]));
+    const modified = (await this.getApplied()).filter(migration => {
+      const file = filesByVersion.get(migration.version);
+      return file && file.checksum !== migration.checksum;
+    });
+    if (modified.length > 0) {
+      const names = modified.map(migration => `${pad(migration.version)}_${migration.name}`).join(', ');
+      throw new MigrationError(`Applied migrations were modified after they ran: ${names}`);
+    }
+
+    return files;
+  }
+
+  private async apply(file: MigrationFile, direction: 'up' | 'down', dryRun: boolean): Promise<MigrationResult> {
+    const label = direction === 'up' ? 'Applying' : 'Reverting';
+    const startedAt = Date.now();
+
+    if (dryRun) {
+      this.log(`[dry run] ${label} ${file.filename}`);
+      return { version: file.version, name: file.name, executionMs: 0, dryRun: true };
+    }
+
+    this.log(`${label} ${file.filename}`);
+
+    await this.db.tx(async t => {
+      if (direction === 'up') {
+        await t.none(file.sql);
+        await t.none(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+          [file.version, file.name, file.checksum, Date.now() - startedAt]
+        );
+      } else {
+        await t.none(file.downSql!);
+        await t.none('DELETE FROM schema_migrations WHERE version = $1', [file.version]);
+      }
+    });
+
+    return { version: file.version, name: file.name, executionMs: Date.now() - startedAt, dryRun: false };
+  }
+}
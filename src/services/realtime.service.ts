@@ -0,0 +1,433 @@
+import { Server as HttpServer } from 'http';
+import { Server, ServerOptions, Socket } from 'socket.io';
+import { verifyAccessToken } from '../middleware/auth.middleware';
+import { findOrCreateUser } from '../middleware/user-sync.middleware';
+import { Task } from '../models/Task';
+import { TaskComment } from '../models/TaskComment';
+import { EnergyLog } from '../models/Energy';
+import { TeamMember, TeamModel } from '../models/Team';
+import { Policy } from '../policies';
+
+export type MembershipChange =
+  | 'joined'
+  | 'role_changed'
+  | 'status_changed'
+  | 'removed'
+  | 'left'
+  | 'ownership_transferred';
+
+// Everything the server pushes to clients
+export interface ServerToClientEvents {
+  'task:created': (payload: { task: Task }) => void;
+  'task:updated': (payload: { task: Task }) => void;
+  'task:completed': (payload: { task: Task; points_earned: number; bonus_points: number }) => void;
+  'task:reopened': (payload: { task: Task; points_reversed: number }) => void;
+  'task:deleted': (payload: { taskId: string; projectId?: string | null }) => void;
+  'comment:created': (payload: { taskId: string; comment: TaskComment }) => void;
+  'comment:updated': (payload: { taskId: string; comment: TaskComment }) => void;
+  'comment:deleted': (payload: { taskId: string; comment: TaskComment }) => void;
+  'comment:mentioned': (payload: { taskId: string; taskTitle: string; comment: TaskComment }) => void;
+  'energy:logged': (payload: { energy_log: EnergyLog }) => void;
+  'team:membership-changed': (payload: {
+    teamId: string;
+    userId: string;
+    change: MembershipChange;
+    member?: TeamMember | null;
+  }) => void;
+  'presence:changed': (payload: { teamId: string; userId: string; online: boolean }) => void;
+}
+
+export type RoomAck =
+  | { ok: true; online?: string[] }
+  | { ok: false; error: string };
+
+// Clients can only subscribe to rooms; state changes go through the REST API
+export interface ClientToServerEvents {
+  'team:join': (teamId: string, ack?: (result: RoomAck) => void) => void;
+  'team:leave': (teamId: string, ack?: (result: RoomAck) => void) => void;
+  'project:join': (payload: { teamId: string; projectId: string }, ack?: (result: RoomAck) => void) => void;
+  'project:leave': (payload: { projectId: string }, ack?: (result: RoomAck) => void) => void;
+  'task:join': (taskId: string, ack?: (result: RoomAck) => void) => void;
+  'task:leave': (taskId: string, ack?: (result: RoomAck) => void) => void;
+}
+
+export interface SocketData {
+  userId: string;
+  userEmail: string;
+  teams: Set<string>;
+  projects: Map<string, string>; // projectId -> team the project room was joined through
+  tasks: Map<string, string | null>; // taskId -> project the task belonged to when its room was joined
+}
+
+type RealtimeServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+export const userRoom = (userId: string) => `user-${userId}`;
+export const teamRoom = (teamId: string) => `team-${teamId}`;
+export const projectRoom = (projectId: string) => `project-${projectId}`;
+export const taskRoom = (taskId: string) => `task-${taskId}`;
+
+let io: RealtimeServer | null = null;
+
+// teamId -> userId -> sockets that user has in the team room
+// Presence is tracked per process; run a single socket server or add a shared adapter first
+const presence = new Map<string, Map<string, Set<string>>>();
+
+// Tokens come from the handshake auth payload ({ token }) or an Authorization header
+function handshakeToken(socket: RealtimeSocket): string | null {
+  const { token } = socket.handshake.auth || {};
+  if (typeof token === 'string' && token) {
+    return token.replace(/^Bearer\s+/i, '');
+  }
+
+  const header = socket.handshake.headers.authorization;
+  if (header && /^Bearer\s+/i.test(header)) {
+    return header.replace(/^Bearer\s+/i, '');
+  }
+
+  return null;
+}
+
+async function authenticate(socket: RealtimeSocket, next: (error?: Error) => void): Promise<void> {
+  const token = handshakeToken(socket);
+  if (!token) {
+    next(new Error('Authentication required'));
+    return;
+  }
+
+  try {
+    const claims = await verifyAccessToken(token);
+    if (!claims.sub) {
+      next(new Error('Invalid or missing authentication token'));
+      return;
+    }
+
+    const user = await findOrCreateUser(claims.sub, claims);
+    if (user.disabled_at) {
+      next(new Error('Account disabled'));
+      return;
+    }
+
+    socket.data.userId = user.id;
+    socket.data.userEmail = user.email;
+    socket.data.teams = new Set();
+    socket.data.projects = new Map();
+    socket.data.tasks = new Map();
+    next();
+  } catch (error) {
+    console.error('[realtime] Socket authentication failed:', (error as Error).message);
+    next(new Error('Invalid or missing authentication token'));
+  }
+}
+
+const unique = (ids: (string | null | undefined)[]): string[] =>
+  Array.from(new Set(ids.filter((id): id is string => !!id)));
+
+const onlineIn = (teamId: string): string[] => Array.from(presence.get(teamId)?.keys() || []);
+
+// Returns true when this is the user's first socket in the team
+function markOnline(teamId: string, userId: string, socketId: string): boolean {
+  const team = presence.get(teamId) || new Map<string, Set<string>>();
+  presence.set(teamId, team);
+
+  const sockets = team.get(userId) || new Set<string>();
+  team.set(userId, sockets);
+  sockets.add(socketId);
+  return sockets.size === 1;
+}
+
+// Returns true when the user's last socket left the team
+function markOffline(teamId: string, userId: string, socketId: string): boolean {
+  const team = presence.get(teamId);
+  const sockets = team?.get(userId);
+  if (!team || !sockets || !sockets.delete(socketId)) {
+    return false;
+  }
+
+  if (sockets.size > 0) {
+    return false;
+  }
+  team.delete(userId);
+  if (team.size === 0) {
+    presence.delete(teamId);
+  }
+  return true;
+}
+
+async function joinTeam(socket: RealtimeSocket, teamId: string): Promise<RoomAck> {
+  const { userId } = socket.data;
+  const access = await Policy.team(userId, 'read', teamId);
+  if (!access.allowed) {
+    return { ok: false, error: access.error };
+  }
+
+  socket.join(teamRoom(teamId));
+  socket.data.teams.add(teamId);
+  await TeamModel.touchLastActive(teamId, userId);
+
+  if (markOnline(teamId, userId, socket.id)) {
+    socket.to(teamRoom(teamId)).emit('presence:changed', { teamId, userId, online: true });
+  }
+
+  return { ok: true, online: onlineIn(teamId) };
+}
+
+async function leaveTeam(socket: RealtimeSocket, teamId: string): Promise<void> {
+  const { userId } = socket.data;
+  if (!socket.data.teams.delete(teamId)) {
+    return;
+  }
+
+  socket.leave(teamRoom(teamId));
+  for (const [projectId, throughTeamId] of socket.data.projects) {
+    if (throughTeamId === teamId) {
+      socket.data.projects.delete(projectId);
+      socket.leave(projectRoom(projectId));
+    }
+  }
+
+  if (markOffline(teamId, userId, socket.id)) {
+    io?.to(teamRoom(teamId)).emit('presence:changed', { teamId, userId, online: false });
+  }
+
+  try {
+    await TeamModel.touchLastActive(teamId, userId);
+  } catch (error) {
+    console.error('[realtime] Error updating last activity:', error);
+  }
+}
+
+async function joinProject(socket: RealtimeSocket, teamId: string, projectId: string): Promise<RoomAck> {
+  const access = await Policy.sharedProject(socket.data.userId, 'read', projectId, teamId);
+  if (!access.allowed) {
+    return { ok: false, error: access.error };
+  }
+
+  socket.join(projectRoom(projectId));
+  socket.data.projects.set(projectId, teamId);
+  return { ok: true };
+}
+
+// Watch a single task's comment thread; access is checked when joining and again whenever
+// the user is evicted from a team or the task's project stops being shared
+async function joinTask(socket: RealtimeSocket, taskId: string): Promise<RoomAck> {
+  const access = await Policy.task(socket.data.userId, 'read', taskId);
+  if (!access.allowed) {
+    return { ok: false, error: access.error };
+  }
+
+  socket.join(taskRoom(taskId));
+  socket.data.tasks.set(taskId, access.resource.task.project_id || null);
+  return { ok: true };
+}
+
+function leaveTask(socket: RealtimeSocket, taskId: string): void {
+  socket.data.tasks.delete(taskId);
+  socket.leave(taskRoom(taskId));
+}
+
+// Leave the task rooms (optionally only those of one project) the user can no longer read
+async function dropUnreadableTasks(socket: RealtimeSocket, projectId?: string): Promise<void> {
+  for (const [taskId, taskProjectId] of Array.from(socket.data.tasks)) {
+    if (projectId !== undefined && taskProjectId !== projectId) {
+      continue;
+    }
+    const access = await Policy.task(socket.data.userId, 'read', taskId);
+    if (!access.allowed) {
+      leaveTask(socket, taskId);
+    }
+  }
+}
+
+// Run a room handler, reporting failures through the ack instead of dropping the socket
+function handle<T>(
+  label: string,
+  run: (payload: T) => Promise<RoomAck>
+): (payload: T, ack?: (result: RoomAck) => void) => void {
+  return (payload, ack) => {
+    run(payload)
+      .then(result => ack?.(result))
+      .catch(error => {
+        console.error(`[realtime] Error handling ${label}:`, error);
+        ack?.({ ok: false, error: `Failed to handle ${label}` });
+      });
+  };
+}
+
+const isId = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+export class RealtimeService {
+  // Attach Socket.io to the HTTP server; every connection must carry a valid Auth0 token
+  static attach(server: HttpServer, options: Partial<ServerOptions> = {}): RealtimeServer {
+    io = new Server(server, options);
+
+    io.use((socket, next) => {
+      authenticate(socket, next);
+    });
+
+    io.on('connection', (socket) => {
+      const { userId } = socket.data;
+      socket.join(userRoom(userId));
+      console.log(`User ${userId} connected:`, socket.id);
+
+      socket.on('team:join', handle('team:join', async (teamId: string) =>
+        isId(teamId) ? joinTeam(socket, teamId) : { ok: false, error: 'teamId is required' }
+      ));
+
+      socket.on('team:leave', handle('team:leave', async (teamId: string) => {
+        await leaveTeam(socket, teamId);
+        return { ok: true };
+      }));
+
+      socket.on('project:join', handle('project:join', async (payload: { teamId: string; projectId: string }) =>
+        isId(payload?.teamId) && isId(payload?.projectId)
+          ? joinProject(socket, payload.teamId, payload.projectId)
+          : { ok: false, error: 'teamId and projectId are required' }
+      ));
+
+      socket.on('project:leave', handle('project:leave', async (payload: { projectId: string }) => {
+        if (isId(payload?.projectId) && socket.data.projects.delete(payload.projectId)) {
+          socket.leave(projectRoom(payload.projectId));
+        }
+        return { ok: true };
+      }));
+
+      socket.on('task:join', handle('task:join', async (taskId: string) =>
+        isId(taskId) ? joinTask(socket, taskId) : { ok: false, error: 'taskId is required' }
+      ));
+
+      socket.on('task:leave', handle('task:leave', async (taskId: string) => {
+        if (isId(taskId)) {
+          leaveTask(socket, taskId);
+        }
+        return { ok: true };
+      }));
+
+      socket.on('disconnect', () => {
+        console.log(`User ${userId} disconnected:`, socket.id);
+        for (const teamId of Array.from(socket.data.teams)) {
+          leaveTeam(socket, teamId);
+        }
+      });
+    });
+
+    return io;
+  }
+
+  // Close every socket a user has open (e.g. when their account is disabled)
+  static disconnectUser(userId: string): void {
+    io?.in(userRoom(userId)).disconnectSockets(true);
+  }
+
+  // IDs of the team's members with at least one socket in the team room
+  static getOnlineMembers(teamId: string): string[] {
+    return onlineIn(teamId);
+  }
+
+  // Push an event to each user's room; a no-op when no socket server is attached (jobs, scripts)
+  static emitToUsers<E extends keyof ServerToClientEvents>(
+    userIds: (string | null | undefined)[],
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ): void {
+    this.emitToRooms(unique(userIds).map(userRoom), event, ...args);
+  }
+
+  // Task events go to the task's creator, assignee, the acting user and anyone watching its project
+  static emitTaskEvent<E extends 'task:created' | 'task:updated' | 'task:completed' | 'task:reopened'>(
+    event: E,
+    actorId: string,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ): void {
+    const { task } = args[0];
+    this.emitToRooms(this.taskRooms(task, actorId), event, ...args);
+  }
+
+  static emitTaskDeleted(actorId: string, task: Task): void {
+    this.emitToRooms(this.taskRooms(task, actorId), 'task:deleted', {
+      taskId: task.id,
+      projectId: task.project_id
+    });
+  }
+
+  // Comment events go to everyone watching the task as well as the usual task audience
+  static emitCommentEvent(
+    event: 'comment:created' | 'comment:updated' | 'comment:deleted',
+    actorId: string,
+    task: Task,
+    comment: TaskComment
+  ): void {
+    this.emitToRooms([taskRoom(task.id), ...this.taskRooms(task, actorId)], event, { taskId: task.id, comment });
+  }
+
+  // Membership changes go to everyone still on the team and to the member who changed
+  // Members who lost access are dropped from the team's rooms
+  static async emitMembershipChanged(
+    teamId: string,
+    userId: string,
+    change: MembershipChange,
+    member?: TeamMember | null
+  ): Promise<void> {
+    if (!io) {
+      return;
+    }
+
+    try {
+      const memberIds = await TeamModel.getActiveMemberIds(teamId);
+      this.emitToUsers([...memberIds, userId], 'team:membership-changed', { teamId, userId, change, member });
+
+      if (!memberIds.includes(userId)) {
+        await this.evictFromTeam(teamId, userId);
+      }
+    } catch (error) {
+      console.error('[realtime] Error broadcasting membership change:', error);
+    }
+  }
+
+  // Drop project room subscriptions made through a team the project is no longer shared with,
+  // and task rooms in the project that the watcher lost access to
+  static async evictFromProject(teamId: string, projectId: string): Promise<void> {
+    if (!io) {
+      return;
+    }
+
+    const sockets = await io.in(projectRoom(projectId)).fetchSockets();
+    for (const socket of sockets) {
+      if (socket.data.projects?.get(projectId) === teamId) {
+        socket.data.projects.delete(projectId);
+        socket.leave(projectRoom(projectId));
+      }
+    }
+
+    for (const socket of Array.from(io.sockets.sockets.values())) {
+      await dropUnreadableTasks(socket, projectId);
+    }
+  }
+
+  private static async evictFromTeam(teamId: string, userId: string): Promise<void> {
+    const sockets = await io!.in(userRoom(userId)).fetchSockets();
+    for (const remote of sockets) {
+      const socket = io!.sockets.sockets.get(remote.id);
+      if (socket) {
+        await leaveTeam(socket, teamId);
+        await dropUnreadableTasks(socket);
+      }
+    }
+  }
+
+  private static taskRooms(task: Task, actorId: string): string[] {
+    const rooms = unique([task.user_id, task.assignee_id, actorId]).map(userRoom);
+    return task.project_id ? [...rooms, projectRoom(task.project_id)] : rooms;
+  }
+
+  private static emitToRooms<E extends keyof ServerToClientEvents>(
+    rooms: string[],
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ): void {
+    if (!io || rooms.length === 0) {
+      return;
+    }
+    io.to(rooms).emit(event, ...args);
+  }
+}
@@ -0,0 +1,59 @@
+import { TaskModel, Task } from '../models/Task';
+import { getNextOccurrenceAfter } from '../utils/recurrence';
+import { ActivityService } from './activity.service';
+
+export class RecurrenceService {
+  // Create the next instance of a recurring task, if the series continues
+  static async generateNextInstance(task: Task, now = new Date()): Promise<Task | null> {
+    if (!task.recurrence || !task.recurrence.is_active || task.recurrence.frequency === 'none') {
+      return null;
+    }
+
+    // Anchor on the due date so the series keeps its cadence even when completed late
+    const anchor = task.due_date
+      ? new Date(task.due_date)
+      : new Date(task.completed_at || now);
+
+    const seriesStart = task.series_id ? await TaskModel.getDueDate(task.series_id) : task.due_date;
+    const nextDueDate = getNextOccurrenceAfter(
+      task.recurrence,
+      anchor,
+      now,
+      seriesStart ? new Date(seriesStart) : undefined
+    );
+    if (!nextDueDate) {
+      // Series has run past its end_date; stop the sweep from picking it up again
+      await TaskModel.deactivateRecurrence(task.id);
+      return null;
+    }
+
+    const instance = await TaskModel.createRecurrenceInstance(task.id, nextDueDate);
+    if (instance) {
+      await ActivityService.record('created', null, instance, { metadata: { recurrence_of: task.id } });
+    }
+    return instance;
+  }
+
+  // Generate missing instances for completed or overdue recurring tasks
+  static async sweep(now = new Date()): Promise<number> {
+    const tasks = await TaskModel.getRecurringTasksDue(now);
+    let created = 0;
+
+    for (const task of tasks) {
+      try {
+        const instance = await this.generateNextInstance(task, now);
+        if (instance) {
+          created++;
+        }
+      } catch (error) {
+        console.error(`[recurrence] Failed to generate next instance for task ${task.id}:`, error);
+      }
+    }
+
+    if (created > 0) {
+      console.log(`[recurrence] Generated ${created} recurring task instance(s)`);
+    }
+
+    return created;
+  }
+}
@@ -0,0 +1,122 @@
+import { JobRunModel } from '../models/JobRun';
+import { Mailer, defaultMailer } from './mail';
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+export interface JobContext {
+  now: Date;
+  mailer: Mailer;
+}
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run(context: JobContext): Promise<void>;
+}
+
+export interface SchedulerOptions {
+  clock?: Clock;
+  mailer?: Mailer;
+  tickMs?: number;
+}
+
+/**
+ * In-process job scheduler
+ * Each tick runs every job whose interval has elapsed. Runs are claimed in
+ * scheduled_job_runs, so a restart (or a second instance) doesn't repeat a run early.
+ */
+export class JobScheduler {
+  private readonly jobs: ScheduledJob[] = [];
+  private readonly clock: Clock;
+  private readonly mailer: Mailer;
+  private readonly tickMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.mailer = options.mailer || defaultMailer;
+    this.tickMs = options.tickMs || 60 * 1000;
+  }
+
+  // Register a job
+  register(job: ScheduledJob): this {
+    this.jobs.push(job);
+    return this;
+  }
+
+  // Start ticking
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.tickMs);
+    this.timer.unref();
+
+    void this.tick();
+  }
+
+  // Stop ticking (a run already in progress finishes)
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run every job that is due; overlapping ticks are skipped
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      for (const job of this.jobs) {
+        const claimed = await JobRunModel.claim(job.name, this.clock.now(), job.intervalMs)
+          .catch(error => {
+            console.error(`[scheduler] Failed to claim job ${job.name}:`, error);
+            return false;
+          });
+
+        if (claimed) {
+          await this.execute(job);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Run a job immediately, ignoring its interval
+  async runNow(name: string): Promise<void> {
+    const job = this.jobs.find(j => j.name === name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+    await this.execute(job);
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    let failure: Error | undefined;
+
+    try {
+      await job.run({ now: this.clock.now(), mailer: this.mailer });
+    } catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error));
+      console.error(`[scheduler] Job ${job.name} failed:`, error);
+    }
+
+    await JobRunModel.finish(job.name, this.clock.now(), failure)
+      .catch(error => console.error(`[scheduler] Failed to record run of ${job.name}:`, error));
+  }
+}
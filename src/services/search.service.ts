@@ -0,0 +1,160 @@
+import db from '../utils/database';
+
+export const SEARCH_TYPES = ['tasks', 'projects', 'energy_logs'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export interface SearchHit {
+  id: string;
+  rank: number;
+  highlight: string; // Title or name, HTML-escaped, with matches wrapped in <mark>
+  snippet: string | null;
+  matched_in: string[];
+  [field: string]: unknown;
+}
+
+export interface SearchGroup {
+  total: number;
+  results: SearchHit[];
+}
+
+export type SearchResults = Partial<Record<SearchType, SearchGroup>>;
+
+// Documents must stay identical to the index expressions in migrations/019_add_search_indexes.sql
+// (the task document as recreated by 022_create_task_comments.sql)
+const jsonText = (column: string, path: string) =>
+  `to_tsvector('english', jsonb_path_query_array(COALESCE(${column}, '[]'::jsonb), '${path}'))`;
+
+const TASK_DOCUMENT = `(
+  setweight(to_tsvector('english', COALESCE(t.title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(t.description, '')), 'B') ||
+  setweight(${jsonText('t.tags', '$[*].label')}, 'B') ||
+  setweight(${jsonText('t.subtasks', '$[*].text')}, 'C')
+)`;
+
+// Best-matching live comment per task; comments count for half as much as the task's own text
+const COMMENT_DOCUMENT = `to_tsvector('english', c.body)`;
+const COMMENT_WEIGHT = 0.5;
+
+const PROJECT_DOCUMENT = `(
+  setweight(to_tsvector('english', COALESCE(p.name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(p.description, '')), 'B')
+)`;
+
+const ENERGY_LOG_DOCUMENT = `to_tsvector('english', COALESCE(e.notes, ''))`;
+
+// Highlights and snippets are HTML: the source text is escaped before ts_headline adds <mark> tags,
+// since titles, names and comments in shared projects come from other users
+const escaped = (text: string) =>
+  `replace(replace(replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+
+const HIGHLIGHT = `'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'`;
+const SNIPPET = `'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "'`;
+
+const joinedText = (column: string, key: string) =>
+  `(SELECT string_agg(item->>'${key}', ' … ') FROM jsonb_array_elements(COALESCE(${column}, '[]'::jsonb)) item)`;
+
+// Projects the user owns or can read through an active team membership
+const VISIBLE_PROJECTS = `
+  SELECT id FROM projects WHERE user_id = $1 AND deleted_at IS NULL
+  UNION
+  SELECT sp.project_id FROM shared_projects sp
+  JOIN projects p ON p.id = sp.project_id AND p.deleted_at IS NULL
+  JOIN team_members tm ON tm.team_id = sp.team_id AND tm.user_id = $1 AND tm.status = 'active'`;
+
+const matchedIn = (fields: [string, string][]) =>
+  `array_remove(ARRAY[${fields.map(([name, document]) => `CASE WHEN ${document} @@ query.q THEN '${name}' END`).join(', ')}], NULL)`;
+
+export class SearchService {
+  // Ranked, highlighted matches for each requested type, limited to what the user can read
+  static async search(userId: string, text: string, types: readonly SearchType[], limit: number): Promise<SearchResults> {
+    const searches: Record<SearchType, () => Promise<SearchHit[]>> = {
+      tasks: () => this.searchTasks(userId, text, limit),
+      projects: () => this.searchProjects(userId, text, limit),
+      energy_logs: () => this.searchEnergyLogs(userId, text, limit)
+    };
+
+    const groups = await Promise.all(types.map(type => searches[type]()));
+
+    return Object.fromEntries(types.map((type, i) => {
+      const rows = groups[i];
+      const total = rows.length > 0 ? Number(rows[0].total) : 0;
+      return [type, { total, results: rows.map(({ total: _total, ...hit }) => hit as SearchHit) }];
+    }));
+  }
+
+  // Tasks the user created, is assigned or can see through a shared project
+  private static async searchTasks(userId: string, text: string, limit: number): Promise<SearchHit[]> {
+    return await db.any(
+      `WITH query AS (SELECT websearch_to_tsquery('english', $2) AS q),
+       comment_hits AS (
+         SELECT DISTINCT ON (c.task_id) c.task_id, c.body, ts_rank(${COMMENT_DOCUMENT}, query.q) as rank
+         FROM task_comments c, query
+         WHERE c.deleted_at IS NULL AND ${COMMENT_DOCUMENT} @@ query.q
+         ORDER BY c.task_id, rank DESC, c.created_at DESC
+       )
+       SELECT t.id, t.title, t.status, t.priority, t.due_date, t.project_id, t.user_id, t.assignee_id,
+         (ts_rank(${TASK_DOCUMENT}, query.q) + ${COMMENT_WEIGHT} * COALESCE(ch.rank, 0)) as rank,
+         ts_headline('english', ${escaped('t.title')}, query.q, ${HIGHLIGHT}) as highlight,
+         ts_headline('english',
+           ${escaped(`NULLIF(concat_ws(' … ', t.description, ${joinedText('t.subtasks', 'text')}, ch.body), '')`)},
+           query.q, ${SNIPPET}) as snippet,
+         ${matchedIn([
+           ['title', `to_tsvector('english', COALESCE(t.title, ''))`],
+           ['description', `to_tsvector('english', COALESCE(t.description, ''))`],
+           ['tags', jsonText('t.tags', '$[*].label')],
+           ['subtasks', jsonText('t.subtasks', '$[*].text')]
+         ])} || CASE WHEN ch.task_id IS NOT NULL THEN ARRAY['comments'] ELSE ARRAY[]::text[] END as matched_in,
+         COUNT(*) OVER() as total
+       FROM tasks t
+       CROSS JOIN query
+       LEFT JOIN comment_hits ch ON ch.task_id = t.id
+       WHERE (${TASK_DOCUMENT} @@ query.q OR ch.task_id IS NOT NULL)
+         AND t.deleted_at IS NULL
+         AND (t.user_id = $1 OR t.assignee_id = $1 OR t.project_id IN (${VISIBLE_PROJECTS}))
+       ORDER BY rank DESC, t.updated_at DESC, t.id
+       LIMIT $3`,
+      [userId, text, limit]
+    );
+  }
+
+  private static async searchProjects(userId: string, text: string, limit: number): Promise<SearchHit[]> {
+    return await db.any(
+      `WITH query AS (SELECT websearch_to_tsquery('english', $2) AS q)
+       SELECT p.id, p.name, p.color, p.status, p.user_id,
+         (p.user_id <> $1) as shared,
+         ts_rank(${PROJECT_DOCUMENT}, query.q) as rank,
+         ts_headline('english', ${escaped('p.name')}, query.q, ${HIGHLIGHT}) as highlight,
+         ts_headline('english', ${escaped(`NULLIF(p.description, '')`)}, query.q, ${SNIPPET}) as snippet,
+         ${matchedIn([
+           ['name', `to_tsvector('english', COALESCE(p.name, ''))`],
+           ['description', `to_tsvector('english', COALESCE(p.description, ''))`]
+         ])} as matched_in,
+         COUNT(*) OVER() as total
+       FROM projects p, query
+       WHERE ${PROJECT_DOCUMENT} @@ query.q
+         AND p.id IN (${VISIBLE_PROJECTS})
+       ORDER BY rank DESC, p.updated_at DESC, p.id
+       LIMIT $3`,
+      [userId, text, limit]
+    );
+  }
+
+  // Energy logs are private, so only the user's own
+  private static async searchEnergyLogs(userId: string, text: string, limit: number): Promise<SearchHit[]> {
+    return await db.any(
+      `WITH query AS (SELECT websearch_to_tsquery('english', $2) AS q)
+       SELECT e.id, e.energy_level, e.mood_tags, e.logged_at,
+         ts_rank(${ENERGY_LOG_DOCUMENT}, query.q) as rank,
+         ts_headline('english', ${escaped('e.notes')}, query.q, ${SNIPPET}) as highlight,
+         NULL as snippet,
+         ARRAY['notes'] as matched_in,
+         COUNT(*) OVER() as total
+       FROM energy_logs e, query
+       WHERE ${ENERGY_LOG_DOCUMENT} @@ query.q
+         AND e.user_id = $1
+       ORDER BY rank DESC, e.logged_at DESC, e.id
+       LIMIT $3`,
+      [userId, text, limit]
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import * as crypto from 'crypto';
+import { Subtask, Task, TaskModel } from '../models/Task';
+import { TaskStatusService } from './task-status.service';
+
+export const MAX_SUBTASKS = 100;
+
+export class SubtaskError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SubtaskError';
+  }
+}
+
+function indexOf(subtasks: Subtask[], subtaskId: string): number {
+  const index = subtasks.findIndex(subtask => subtask.id === subtaskId);
+  if (index === -1) {
+    throw new SubtaskError('Subtask not found', 404);
+  }
+  return index;
+}
+
+// Single-subtask edits; each runs under the task's row lock, so concurrent clients only
+// conflict when they touch the same subtask. All return null when the task doesn't exist.
+export class SubtaskService {
+  static async add(taskId: string, text: string): Promise<{ task: Task; subtask: Subtask } | null> {
+    const subtask: Subtask = { id: crypto.randomUUID(), text, completed: false, created_at: new Date().toISOString() };
+
+    const task = await TaskModel.updateSubtasks(taskId, subtasks => {
+      if (subtasks.length >= MAX_SUBTASKS) {
+        throw new SubtaskError(`A task can have at most ${MAX_SUBTASKS} subtasks`, 409);
+      }
+      return [...subtasks, subtask];
+    });
+
+    return task && { task, subtask };
+  }
+
+  static async update(
+    taskId: string,
+    subtaskId: string,
+    changes: { text?: string; completed?: boolean }
+  ): Promise<Task | null> {
+    return await TaskModel.updateSubtasks(taskId, subtasks => {
+      const index = indexOf(subtasks, subtaskId);
+      return subtasks.map((subtask, i) => (i === index ? { ...subtask, ...changes } : subtask));
+    });
+  }
+
+  // Flip completion server-side so two clients toggling don't need to agree on the current state
+  static async toggle(taskId: string, subtaskId: string): Promise<Task | null> {
+    return await TaskModel.updateSubtasks(taskId, subtasks => {
+      const index = indexOf(subtasks, subtaskId);
+      return subtasks.map((subtask, i) => (i === index ? { ...subtask, completed: !subtask.completed } : subtask));
+    });
+  }
+
+  // ids must list every subtask exactly once
+  static async reorder(taskId: string, ids: string[]): Promise<Task | null> {
+    return await TaskModel.updateSubtasks(taskId, subtasks => {
+      const byId = new Map(subtasks.map(subtask => [subtask.id, subtask]));
+      if (ids.length !== subtasks.length || new Set(ids).size !== ids.length || ids.some(id => !byId.has(id))) {
+        throw new SubtaskError('Order must list every subtask of the task exactly once', 409);
+      }
+      return ids.map(id => byId.get(id)!);
+    });
+  }
+
+  static async remove(taskId: string, subtaskId: string): Promise<Task | null> {
+    return await TaskModel.updateSubtasks(taskId, subtasks => {
+      indexOf(subtasks, subtaskId);
+      return subtasks.filter(subtask => subtask.id !== subtaskId);
+    });
+  }
+
+  // Callers have already loaded the task, so a miss here means the subtask is gone
+  static async promote(taskId: string, subtaskId: string) {
+    const result = await TaskModel.promoteSubtask(taskId, subtaskId, (subtask, parent) => {
+      if (subtask.completed) {
+        throw new SubtaskError('Completed subtasks cannot be promoted', 409);
+      }
+      // The new task would skip the approval its parent was refused
+      if (parent.status === 'rejected') {
+        throw new SubtaskError('Subtasks of a rejected task cannot be promoted', 409);
+      }
+    });
+    if (!result) {
+      throw new SubtaskError('Subtask not found', 404);
+    }
+
+    return result;
+  }
+
+  // Parents opted in with complete_with_subtasks are completed once their last open subtask is done,
+  // as long as their status can move to completed
+  static shouldCompleteParent(task: Task): boolean {
+    return task.complete_with_subtasks
+      && task.progress === 100
+      && TaskStatusService.canTransition(task.status, 'completed');
+  }
+}
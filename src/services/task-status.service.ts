@@ -0,0 +1,97 @@
+import { Task, TaskModel, TaskStatus, TaskStatusTransition } from '../models/Task';
+import { ActivityService } from './activity.service';
+import { RealtimeService } from './realtime.service';
+
+export class TaskStatusError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'TaskStatusError';
+  }
+}
+
+// Where each status can move next. Completed and cancelled tasks are reopened by moving them back
+// to an open status; awaiting_approval and rejected are only left through the approval endpoints
+export const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  backlog: ['pending', 'in_progress', 'cancelled'],
+  pending: ['backlog', 'in_progress', 'blocked', 'completed', 'cancelled'],
+  in_progress: ['pending', 'blocked', 'completed', 'cancelled'],
+  blocked: ['pending', 'in_progress', 'cancelled'],
+  completed: ['pending', 'in_progress'],
+  cancelled: ['backlog', 'pending'],
+  awaiting_approval: [],
+  rejected: []
+};
+
+const secondsBetween = (from: Date, to: Date) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000);
+
+export class TaskStatusService {
+  static canTransition(from: TaskStatus, to: TaskStatus): boolean {
+    return STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  static assertTransition(task: Task, to: TaskStatus): void {
+    // Team tasks can't be worked on until they are approved
+    if (task.status === 'awaiting_approval' || task.status === 'rejected') {
+      throw new TaskStatusError('Task has not been approved', 409);
+    }
+    if (task.status === to) {
+      throw new TaskStatusError(`Task is already ${to}`, 409);
+    }
+    if (!this.canTransition(task.status, to)) {
+      throw new TaskStatusError(`Tasks can't move from ${task.status} to ${to}`, 409);
+    }
+  }
+
+  // Move a task to any status but completed, which awards points and goes through the completion flow.
+  // Moving a completed task back takes away the points its completion earned
+  static async transition(
+    actorId: string,
+    task: Task,
+    to: Exclude<TaskStatus, 'completed'>
+  ): Promise<{ task: Task; points_reversed: number }> {
+    this.assertTransition(task, to);
+
+    const updated = await TaskModel.setStatus(task.id, task.status, to);
+    if (!updated) {
+      throw new TaskStatusError('Task status has changed; reload it and try again', 409);
+    }
+
+    const reopened = task.status === 'completed';
+    const pointsReversed = reopened ? task.points_awarded || 0 : 0;
+
+    await ActivityService.record('status_changed', actorId, updated, {
+      changes: { status: { from: task.status, to } },
+      metadata: reopened ? { reopened: true, points_reversed: pointsReversed } : {}
+    });
+
+    if (reopened) {
+      RealtimeService.emitTaskEvent('task:reopened', actorId, { task: updated, points_reversed: pointsReversed });
+    } else {
+      RealtimeService.emitTaskEvent('task:updated', actorId, { task: updated });
+    }
+
+    return { task: updated, points_reversed: pointsReversed };
+  }
+
+  // Every status change with how long the task stayed in the status it entered (null for the current one),
+  // and cycle time: from the first move to in_progress, or creation, to completion
+  static async history(task: Task) {
+    const transitions = await TaskModel.getStatusTransitions(task.id);
+
+    return {
+      status: task.status,
+      transitions: transitions.map((transition: TaskStatusTransition, i) => ({
+        ...transition,
+        duration_seconds: i + 1 < transitions.length
+          ? secondsBetween(transition.created_at, transitions[i + 1].created_at)
+          : null
+      })),
+      started_at: task.started_at ?? null,
+      completed_at: task.status === 'completed' ? task.completed_at ?? null : null,
+      cycle_time_seconds: task.status === 'completed' && task.completed_at
+        ? secondsBetween(task.started_at || task.created_at, task.completed_at)
+        : null
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import db from '../utils/database';
+import { Project, ProjectModel } from '../models/Project';
+import { Task, TaskModel } from '../models/Task';
+import { ActivityService } from './activity.service';
+import { RealtimeService } from './realtime.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long deleted tasks and projects stay restorable
+const RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10) || 30;
+
+export class TrashError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'TrashError';
+  }
+}
+
+const purgeAt = (deletedAt?: Date | null) => new Date(new Date(deletedAt!).getTime() + RETENTION_DAYS * DAY_MS);
+
+const withPurgeAt = <T extends { deleted_at?: Date | null }>(item: T) => ({ ...item, purge_at: purgeAt(item.deleted_at) });
+
+// Trashed tasks belong to their owner and to whoever deleted them
+async function findOwnTrashedTask(userId: string, id: string): Promise<Task> {
+  const task = await TaskModel.findTrashed(id);
+  if (!task || (task.user_id !== userId && task.deleted_by !== userId)) {
+    throw new TrashError('Task not found in trash', 404);
+  }
+  if (task.deleted_with_project) {
+    throw new TrashError('This task was deleted with its project; restore or delete the project instead', 409);
+  }
+  return task;
+}
+
+async function findOwnTrashedProject(userId: string, id: string): Promise<Project> {
+  const project = await ProjectModel.findTrashed(id);
+  if (!project || project.user_id !== userId) {
+    throw new TrashError('Project not found in trash', 404);
+  }
+  return project;
+}
+
+export class TrashService {
+  static get retentionDays(): number {
+    return RETENTION_DAYS;
+  }
+
+  static async list(userId: string) {
+    const [tasks, projects] = await Promise.all([TaskModel.getTrash(userId), ProjectModel.getTrash(userId)]);
+    return { tasks: tasks.map(withPurgeAt), projects: projects.map(withPurgeAt) };
+  }
+
+  // Callers have already checked the actor may delete the task
+  static async trashTask(actorId: string, task: Task) {
+    const trashed = await TaskModel.trash(task.id, actorId);
+    if (!trashed) {
+      throw new TrashError('Task not found', 404);
+    }
+
+    await ActivityService.record('deleted', actorId, trashed);
+    RealtimeService.emitTaskDeleted(actorId, trashed);
+
+    return withPurgeAt(trashed);
+  }
+
+  // Callers have already checked the actor may delete the project; its live tasks go with it
+  static async trashProject(actorId: string, project: Project) {
+    const result = await ProjectModel.trash(project.id, actorId);
+    if (!result) {
+      throw new TrashError('Project not found', 404);
+    }
+
+    for (const task of result.tasks) {
+      await ActivityService.record('deleted', actorId, task, { metadata: { with_project: project.id } });
+      RealtimeService.emitTaskDeleted(actorId, task);
+    }
+
+    return { project: withPurgeAt(result.project), task_count: result.tasks.length };
+  }
+
+  static async restoreTask(userId: string, id: string): Promise<Task> {
+    const trashed = await findOwnTrashedTask(userId, id);
+
+    if (trashed.project_id && !(await ProjectModel.findUnscoped(trashed.project_id))) {
+      throw new TrashError('The task\'s project is in the trash; restore the project first', 409);
+    }
+
+    const task = await TaskModel.restore(trashed.id);
+    if (!task) {
+      throw new TrashError('Task not found in trash', 404);
+    }
+
+    await ActivityService.record('restored', userId, task);
+    RealtimeService.emitTaskEvent('task:created', userId, { task });
+
+    return task;
+  }
+
+  // Restores the project and the tasks that were trashed with it
+  static async restoreProject(userId: string, id: string): Promise<{ project: Project; tasks: Task[] }> {
+    await findOwnTrashedProject(userId, id);
+
+    const result = await ProjectModel.restore(id);
+    if (!result) {
+      throw new TrashError('Project not found in trash', 404);
+    }
+
+    for (const task of result.tasks) {
+      await ActivityService.record('restored', userId, task, { metadata: { with_project: id } });
+      RealtimeService.emitTaskEvent('task:created', userId, { task });
+    }
+
+    return result;
+  }
+
+  static async purgeTask(userId: string, id: string): Promise<void> {
+    const task = await findOwnTrashedTask(userId, id);
+    await TaskModel.purge(task.id);
+  }
+
+  static async purgeProject(userId: string, id: string): Promise<void> {
+    const project = await findOwnTrashedProject(userId, id);
+    await ProjectModel.purge(project.id);
+  }
+
+  // Permanently delete everything in the user's trash
+  static async empty(userId: string): Promise<{ tasks: number; projects: number }> {
+    return await db.tx(async t => {
+      const tasks = await t.result(
+        `DELETE FROM tasks
+         WHERE deleted_at IS NOT NULL
+           AND ((NOT deleted_with_project AND (user_id = $1 OR deleted_by = $1))
+             OR (deleted_with_project AND project_id IN (
+               SELECT id FROM projects WHERE user_id = $1 AND deleted_at IS NOT NULL
+             )))`,
+        [userId]
+      );
+      const projects = await t.result('DELETE FROM projects WHERE user_id = $1 AND deleted_at IS NOT NULL', [userId]);
+
+      return { tasks: tasks.rowCount, projects: projects.rowCount };
+    });
+  }
+
+  // Permanently delete whatever has been in the trash longer than the retention period
+  // Tasks trashed with a project share its deleted_at, so they go in the same run
+  static async purgeExpired(now = new Date()): Promise<{ tasks: number; projects: number }> {
+    const cutoff = new Date(now.getTime() - RETENTION_DAYS * DAY_MS);
+
+    return await db.tx(async t => {
+      const tasks = await t.result('DELETE FROM tasks WHERE deleted_at < $1', [cutoff]);
+      const projects = await t.result('DELETE FROM projects WHERE deleted_at < $1', [cutoff]);
+      return { tasks: tasks.rowCount, projects: projects.rowCount };
+    });
+  }
+}
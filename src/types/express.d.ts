@@ -10,6 +10,8 @@ declare global {
       };
       userId?: string;
       userEmail?: string;
+      userName?: string;
+      userRole?: 'user' | 'admin';
     }
   }
 }
@@ -25,22 +25,4 @@ export async function testConnection(): Promise<boolean> {
   }
 }
 
-// Run migrations
-export async function runMigrations(): Promise<void> {
-  const fs = require('fs');
-  const path = require('path');
-  
-  try {
-    const migrationPath = path.join(__dirname, '../../migrations/001_initial_schema.sql');
-    const sql = fs.readFileSync(migrationPath, 'utf8');
-    
-    console.log('🚀 Running database migrations...');
-    await db.none(sql);
-    console.log('✅ Migrations completed successfully!');
-  } catch (error) {
-    console.error('❌ Migration failed:', error);
-    throw error;
-  }
-}
-
 export default db;
@@ -0,0 +1,313 @@
+// Shared query grammar for list endpoints (tasks, projects, energy logs)
+//
+//   ?status=pending                     equality
+//   ?status[in]=pending,in_progress     any of a comma-separated list
+//   ?due_date[gte]=2024-01-01&due_date[lt]=2024-02-01
+//                                       ranges: eq, gt, gte, lt, lte
+//   ?overdue=true                       flags
+//   ?tags=a,b  ?tags[all]=a,b           sets: any (default) or all
+//   ?q=report                           case-insensitive text search
+//   ?sort=-due_date,priority            sort keys, '-' for descending
+//   ?limit=50&cursor=...                keyset pagination; pass back next_cursor as-is
+//
+// A cursor only works with the sort it was issued for; filters should stay the same between pages.
+
+export const DEFAULT_LIMIT = 100;
+export const MAX_LIMIT = 500;
+
+export class ListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListQueryError';
+  }
+}
+
+type Bind = (value: unknown) => string;
+
+export type FilterDef =
+  | { type: 'number' | 'timestamp'; column: string }
+  | { type: 'text' | 'uuid'; column: string }
+  | { type: 'flag'; sql: (value: boolean) => string }
+  | { type: 'set'; any: (ids: string) => string; all: (ids: string) => string };
+
+export interface SortDef {
+  column: string;
+  type: 'number' | 'text' | 'timestamp';
+  nullable?: boolean; // Nulls always sort last, whichever the direction
+}
+
+export interface ListingSpec {
+  id: string; // Unique column used as the final tie-breaker
+  sorts: Record<string, SortDef>;
+  defaultSort: string;
+  filters: Record<string, FilterDef>;
+  search?: string[]; // Columns matched by ?q
+}
+
+export interface ListQuery {
+  filters: { name: string; op: string; value: unknown }[];
+  search: string | null;
+  sort: { key: string; desc: boolean }[];
+  sortKey: string;
+  cursor: unknown[] | null;
+  limit: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+export interface ListSql {
+  where: string; // Conditions to AND onto the caller's own (may be empty)
+  cursorColumn: string; // Select as "_cursor"; stripped again by toPage
+  orderBy: string;
+  limit: string;
+}
+
+const RANGE_OPS: Record<string, string> = { eq: '=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SQL_TYPES: Record<SortDef['type'], string> = { number: 'numeric', text: 'text', timestamp: 'timestamp' };
+
+const encodeCursor = (sortKey: string, values: unknown[]) =>
+  Buffer.from(JSON.stringify({ s: sortKey, v: values }), 'utf8').toString('base64url');
+
+function decodeCursor(cursor: string, sortKey: string, length: number): unknown[] {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ListQueryError('Invalid cursor');
+  }
+
+  if (!decoded || !Array.isArray(decoded.v) || decoded.v.length !== length) {
+    throw new ListQueryError('Invalid cursor');
+  }
+  if (decoded.s !== sortKey) {
+    throw new ListQueryError('Cursor was issued for a different sort');
+  }
+  return decoded.v;
+}
+
+// Repeated parameters (?tags=a&tags=b) and comma lists are treated alike
+function listOf(name: string, raw: unknown): string[] {
+  const values = (Array.isArray(raw) ? raw : [raw])
+    .flatMap(value => (typeof value === 'string' ? value.split(',') : []))
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  if (values.length === 0) {
+    throw new ListQueryError(`${name} needs at least one value`);
+  }
+  return values;
+}
+
+function single(name: string, raw: unknown): string {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    throw new ListQueryError(`${name} needs a single value`);
+  }
+  return raw.trim();
+}
+
+function parseValue(name: string, def: FilterDef, raw: unknown): unknown {
+  switch (def.type) {
+    case 'number': {
+      const value = Number(single(name, raw));
+      if (!Number.isFinite(value)) {
+        throw new ListQueryError(`${name} must be a number`);
+      }
+      return value;
+    }
+    case 'timestamp': {
+      const value = new Date(single(name, raw));
+      if (isNaN(value.getTime())) {
+        throw new ListQueryError(`${name} must be a date`);
+      }
+      return value;
+    }
+    case 'uuid': {
+      const value = single(name, raw);
+      if (!UUID_RE.test(value)) {
+        throw new ListQueryError(`${name} must be a UUID`);
+      }
+      return value;
+    }
+    case 'flag': {
+      const value = single(name, raw);
+      if (value !== 'true' && value !== 'false') {
+        throw new ListQueryError(`${name} must be true or false`);
+      }
+      return value === 'true';
+    }
+    default:
+      return single(name, raw);
+  }
+}
+
+function parseFilter(name: string, def: FilterDef, raw: unknown): ListQuery['filters'] {
+  // ?field[op]=value arrives as { op: value }
+  const entries: [string, unknown][] = raw && typeof raw === 'object' && !Array.isArray(raw)
+    ? Object.entries(raw)
+    : [[def.type === 'set' ? 'any' : 'eq', raw]];
+
+  return entries.map(([op, value]) => {
+    switch (def.type) {
+      case 'number':
+      case 'timestamp':
+        if (!RANGE_OPS[op]) {
+          throw new ListQueryError(`Unsupported operator ${name}[${op}]`);
+        }
+        return { name, op, value: parseValue(name, def, value) };
+      case 'text':
+      case 'uuid':
+        if (op === 'in') {
+          const values = listOf(name, value);
+          if (def.type === 'uuid' && values.some(item => !UUID_RE.test(item))) {
+            throw new ListQueryError(`${name} must be a list of UUIDs`);
+          }
+          return { name, op, value: values };
+        }
+        if (op !== 'eq') {
+          throw new ListQueryError(`Unsupported operator ${name}[${op}]`);
+        }
+        return { name, op, value: parseValue(name, def, value) };
+      case 'set':
+        if (op !== 'any' && op !== 'all') {
+          throw new ListQueryError(`Unsupported operator ${name}[${op}]`);
+        }
+        return { name, op, value: listOf(name, value) };
+      case 'flag':
+        if (op !== 'eq') {
+          throw new ListQueryError(`Unsupported operator ${name}[${op}]`);
+        }
+        return { name, op, value: parseValue(name, def, value) };
+    }
+  });
+}
+
+function parseSort(spec: ListingSpec, raw: unknown): ListQuery['sort'] {
+  const keys = raw === undefined ? spec.defaultSort.split(',') : listOf('sort', raw);
+
+  const sort = keys.map(key => {
+    const desc = key.startsWith('-');
+    const name = desc ? key.slice(1) : key;
+    if (!spec.sorts[name]) {
+      throw new ListQueryError(`Cannot sort by ${name}. Allowed: ${Object.keys(spec.sorts).join(', ')}`);
+    }
+    return { key: name, desc };
+  });
+
+  if (new Set(sort.map(item => item.key)).size !== sort.length) {
+    throw new ListQueryError('Each sort key can only be used once');
+  }
+  return sort;
+}
+
+// Validate req.query against a listing; unknown parameters are ignored
+export function parseListQuery(spec: ListingSpec, query: Record<string, unknown>): ListQuery {
+  const filters = Object.entries(spec.filters)
+    .filter(([name]) => query[name] !== undefined)
+    .flatMap(([name, def]) => parseFilter(name, def, query[name]));
+
+  const search = query.q === undefined ? null : single('q', query.q);
+  if (search && search.length > 200) {
+    throw new ListQueryError('q must be at most 200 characters');
+  }
+
+  const sort = parseSort(spec, query.sort);
+  const sortKey = sort.map(({ key, desc }) => `${desc ? '-' : ''}${key}`).join(',');
+
+  const limit = query.limit === undefined ? DEFAULT_LIMIT : Number(single('limit', query.limit));
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ListQueryError(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+
+  const cursor = query.cursor === undefined
+    ? null
+    : decodeCursor(single('cursor', query.cursor), sortKey, sort.length + 1);
+
+  return { filters, search, sort, sortKey, cursor, limit };
+}
+
+// Nullable sort columns are coalesced so nulls land last and keyset comparisons stay total
+function sortExpression(def: SortDef, desc: boolean): string {
+  if (def.nullable && def.type === 'timestamp') {
+    return `COALESCE(${def.column}, '${desc ? '-' : ''}infinity'::timestamp)`;
+  }
+  return def.column;
+}
+
+function filterSql(def: FilterDef, op: string, value: any, bind: Bind): string {
+  switch (def.type) {
+    case 'number':
+    case 'timestamp':
+      return `${def.column} ${RANGE_OPS[op]} ${bind(value)}`;
+    case 'text':
+    case 'uuid':
+      return op === 'in'
+        ? `${def.column} = ANY(${bind(value)}::${def.type}[])`
+        : `${def.column} = ${bind(value)}`;
+    case 'set':
+      return op === 'all' ? def.all(bind(value)) : def.any(bind(value));
+    case 'flag':
+      return def.sql(value);
+  }
+}
+
+// Turn a parsed query into SQL fragments; values are appended to params as $n placeholders
+export function buildListSql(spec: ListingSpec, query: ListQuery, params: unknown[]): ListSql {
+  const bind: Bind = value => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const conditions = query.filters.map(({ name, op, value }) => filterSql(spec.filters[name], op, value, bind));
+
+  if (query.search && spec.search?.length) {
+    const pattern = bind(`%${query.search.replace(/[\\%_]/g, '\\$&')}%`);
+    conditions.push(`(${spec.search.map(column => `${column} ILIKE ${pattern}`).join(' OR ')})`);
+  }
+
+  const keys = query.sort.map(({ key, desc }) => ({
+    expression: sortExpression(spec.sorts[key], desc),
+    type: SQL_TYPES[spec.sorts[key].type],
+    desc
+  }));
+
+  // Rows strictly after the cursor: (a > x) OR (a = x AND b > y) OR ... OR (all equal AND id > z)
+  if (query.cursor) {
+    const values = query.cursor;
+    const bound = keys.map((key, i) => `${bind(values[i])}::${key.type}`);
+    const lastId = bind(values[keys.length]);
+
+    const branches = keys.map((key, i) => [
+      ...keys.slice(0, i).map((previous, j) => `${previous.expression} = ${bound[j]}`),
+      `${key.expression} ${key.desc ? '<' : '>'} ${bound[i]}`
+    ]);
+    branches.push([...keys.map((key, i) => `${key.expression} = ${bound[i]}`), `${spec.id} > ${lastId}`]);
+
+    conditions.push(`(${branches.map(branch => `(${branch.join(' AND ')})`).join(' OR ')})`);
+  }
+
+  return {
+    where: conditions.map(condition => ` AND ${condition}`).join(''),
+    cursorColumn: `json_build_array(${[...keys.map(key => key.expression), spec.id].join(', ')})::text as _cursor`,
+    orderBy: ` ORDER BY ${[...keys.map(key => `${key.expression} ${key.desc ? 'DESC' : 'ASC'}`), `${spec.id} ASC`].join(', ')}`,
+    // One extra row tells us whether another page exists
+    limit: ` LIMIT ${bind(query.limit + 1)}`
+  };
+}
+
+// Trim the look-ahead row and issue the cursor for the next page
+export function toPage<T>(rows: (T & { _cursor?: string })[], query: ListQuery): Page<T> {
+  const hasMore = rows.length > query.limit;
+  const items = rows.slice(0, query.limit).map(({ _cursor, ...item }) => item as T);
+  const last = rows[Math.min(rows.length, query.limit) - 1];
+
+  return {
+    items,
+    next_cursor: hasMore && last?._cursor ? encodeCursor(query.sortKey, JSON.parse(last._cursor)) : null,
+    has_more: hasMore
+  };
+}
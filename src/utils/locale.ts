@@ -0,0 +1,8 @@
+// Check that a string is a BCP 47 locale this runtime can format dates and numbers in
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0;
+  } catch (error) {
+    return false;
+  }
+}
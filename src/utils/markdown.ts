@@ -0,0 +1,117 @@
+import { escapeHtml } from '../services/mail/templates/html';
+
+// Small, safe Markdown subset for comments. Everything is escaped first, so raw HTML in the
+// source always shows as text. Supported:
+//   paragraphs and line breaks, - / * bullet lists, 1. numbered lists, > quotes, ``` code blocks,
+//   `code`, **bold**, *italic* / _italic_, ~~strike~~, [links](https://...) and @[Name](user-id) mentions
+
+export interface Mention {
+  userId: string;
+  label: string;
+}
+
+const MENTION_RE = /@\[([^\]\n]{1,100})\]\(([^)\s]{1,255})\)/g;
+
+// Mentions in the order they first appear, one per user
+export function parseMentions(source: string): Mention[] {
+  const seen = new Map<string, Mention>();
+  for (const match of source.matchAll(MENTION_RE)) {
+    const [, label, userId] = match;
+    if (!seen.has(userId)) {
+      seen.set(userId, { userId, label: label.trim() });
+    }
+  }
+  return Array.from(seen.values());
+}
+
+// Text with mentions reduced to "@Name", for emails and previews
+export function mentionsToText(source: string): string {
+  return source.replace(MENTION_RE, (_match, label: string) => `@${label.trim()}`);
+}
+
+// Inline formatting on already-escaped text; code spans are set aside so nothing inside them is formatted
+function inline(escaped: string, mentioned: ReadonlySet<string>): string {
+  const code: string[] = [];
+  let text = escaped.replace(/`([^`\n]+)`/g, (_match, content: string) => {
+    code.push(`<code>${content}</code>`);
+    return `\u0000${code.length - 1}\u0000`;
+  });
+
+  // Only users stored as mentioned get a mention span; anything else stays plain text
+  text = text.replace(/@\[([^\]\n]{1,100})\]\(([^)\s]{1,255})\)/g, (_match, label: string, userId: string) =>
+    mentioned.has(userId)
+      ? `<span class="mention" data-user-id="${userId}">@${label.trim()}</span>`
+      : `@${label.trim()}`
+  );
+
+  text = text
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2" rel="nofollow noopener noreferrer" target="_blank">$1</a>')
+    .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\n]+)\*/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w])_([^_\n]+)_(?=$|[^\w])/g, '$1<em>$2</em>')
+    .replace(/~~([^~\n]+)~~/g, '<del>$1</del>');
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => code[Number(index)]);
+}
+
+type Block =
+  | { kind: 'code'; lines: string[] }
+  | { kind: 'ul' | 'ol' | 'quote' | 'p'; lines: string[] };
+
+function blocks(source: string): Block[] {
+  const result: Block[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let current: Block | null = null;
+
+  const kindOf = (line: string): Block['kind'] =>
+    /^\s*[-*]\s+/.test(line) ? 'ul' : /^\s*\d+[.)]\s+/.test(line) ? 'ol' : /^\s*>/.test(line) ? 'quote' : 'p';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*```/.test(line)) {
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      result.push({ kind: 'code', lines: code });
+      current = null;
+      continue;
+    }
+
+    if (line.trim() === '') {
+      current = null;
+      continue;
+    }
+
+    const kind = kindOf(line);
+    const block: Block = current && current.kind === kind ? current : { kind, lines: [] };
+    if (block !== current) {
+      result.push(block);
+      current = block;
+    }
+    block.lines.push(line);
+  }
+
+  return result;
+}
+
+// Render comment Markdown to HTML; mentioned lists the user ids to render as mentions
+export function renderMarkdown(source: string, mentioned: ReadonlySet<string> = new Set()): string {
+  return blocks(source).map(block => {
+    const escaped = block.lines.map(line => escapeHtml(line));
+
+    switch (block.kind) {
+      case 'code':
+        return `<pre><code>${escaped.join('\n')}</code></pre>`;
+      case 'ul':
+        return `<ul>${escaped.map(line => `<li>${inline(line.replace(/^\s*[-*]\s+/, ''), mentioned)}</li>`).join('')}</ul>`;
+      case 'ol':
+        return `<ol>${escaped.map(line => `<li>${inline(line.replace(/^\s*\d+[.)]\s+/, ''), mentioned)}</li>`).join('')}</ol>`;
+      case 'quote':
+        return `<blockquote>${escaped.map(line => inline(line.replace(/^\s*&gt;\s?/, ''), mentioned)).join('<br>')}</blockquote>`;
+      default:
+        return `<p>${escaped.map(line => inline(line, mentioned)).join('<br>')}</p>`;
+    }
+  }).join('\n');
+}
@@ -0,0 +1,165 @@
+import { RecurrenceConfig } from '../models/Task';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Number of days in a month (month is 0-based)
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Sunday 00:00 UTC of the week containing the date
+function startOfWeek(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay());
+}
+
+// Build a date on the given day, keeping the time of day of `time`
+function atTimeOf(time: Date, year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(
+    year,
+    month,
+    day,
+    time.getUTCHours(),
+    time.getUTCMinutes(),
+    time.getUTCSeconds(),
+    time.getUTCMilliseconds()
+  ));
+}
+
+// A date-only end_date ("2025-12-31") includes the whole day
+function parseEndDate(endDate: string): Date {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    return new Date(`${endDate}T23:59:59.999Z`);
+  }
+  return new Date(endDate);
+}
+
+function nextWeekly(config: RecurrenceConfig, from: Date, interval: number): Date {
+  const days = (config.days_of_week || []).filter(day => day >= 0 && day <= 6);
+
+  if (days.length === 0) {
+    return new Date(from.getTime() + interval * WEEK_MS);
+  }
+
+  // Walk forward day by day; only weeks that are a multiple of `interval` away count
+  const fromWeek = startOfWeek(from);
+  for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+    const candidate = new Date(from.getTime() + offset * DAY_MS);
+    const weeksApart = Math.round((startOfWeek(candidate) - fromWeek) / WEEK_MS);
+
+    if (weeksApart % interval === 0 && days.includes(candidate.getUTCDay())) {
+      return candidate;
+    }
+  }
+
+  return new Date(from.getTime() + interval * WEEK_MS);
+}
+
+// Without day_of_month a monthly series keeps the day it started on, so a series begun on
+// the 31st goes back to the 31st after a clamped Feb 28 instead of staying on the 28th
+function monthlyDay(config: RecurrenceConfig, from: Date, seriesStart?: Date): number {
+  return config.day_of_month || (seriesStart ? seriesStart.getUTCDate() : from.getUTCDate());
+}
+
+// The target day `months` months after `from`, clamped to month end (the 31st becomes Feb 28/29)
+function addMonths(from: Date, months: number, targetDay: number): Date {
+  const monthIndex = from.getUTCMonth() + months;
+  const year = from.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  return atTimeOf(from, year, month, Math.min(targetDay, daysInMonth(year, month)));
+}
+
+function nextMonthly(config: RecurrenceConfig, from: Date, interval: number, seriesStart?: Date): Date {
+  const targetDay = monthlyDay(config, from, seriesStart);
+
+  // An anchor before the target day (or clamped short of it) still has an occurrence later this month
+  const sameMonth = addMonths(from, 0, targetDay);
+  if (sameMonth > from) {
+    return sameMonth;
+  }
+
+  return addMonths(from, interval, targetDay);
+}
+
+// Move `from` forward by whole intervals, staying on or before `notBefore`; only the
+// last few occurrences then need stepping through one at a time
+function skipAhead(config: RecurrenceConfig, from: Date, notBefore: Date, seriesStart?: Date): Date {
+  const interval = Math.max(1, Math.floor(config.interval || 1));
+
+  switch (config.frequency) {
+    case 'daily':
+    case 'weekly': {
+      // Whole weeks keep both the weekday and the week parity used by days_of_week
+      const period = interval * (config.frequency === 'daily' ? DAY_MS : WEEK_MS);
+      const periods = Math.floor((notBefore.getTime() - from.getTime()) / period);
+      return periods > 0 ? new Date(from.getTime() + periods * period) : from;
+    }
+    case 'monthly': {
+      const months = (notBefore.getUTCFullYear() - from.getUTCFullYear()) * 12
+        + notBefore.getUTCMonth() - from.getUTCMonth();
+      const periods = Math.floor(months / interval) - 1;
+      return periods > 0 ? addMonths(from, periods * interval, monthlyDay(config, from, seriesStart)) : from;
+    }
+    default:
+      return from;
+  }
+}
+
+/**
+ * Calculate the occurrence that follows `from` for a recurrence config.
+ * `seriesStart` is the due date of the series' first task; monthly series without day_of_month keep its day.
+ * Returns null when the recurrence is inactive or the next occurrence is past end_date.
+ * All calendar arithmetic is done in UTC.
+ */
+export function getNextOccurrence(config: RecurrenceConfig, from: Date, seriesStart?: Date): Date | null {
+  if (!config.is_active || config.frequency === 'none') {
+    return null;
+  }
+
+  const interval = Math.max(1, Math.floor(config.interval || 1));
+  let next: Date;
+
+  switch (config.frequency) {
+    case 'daily':
+      next = new Date(from.getTime() + interval * DAY_MS);
+      break;
+    case 'weekly':
+      next = nextWeekly(config, from, interval);
+      break;
+    case 'monthly':
+      next = nextMonthly(config, from, interval, seriesStart);
+      break;
+    default:
+      return null;
+  }
+
+  if (config.end_date && next > parseEndDate(config.end_date)) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Calculate the first occurrence after `from` that is also after `notBefore`.
+ * Skips occurrences that were missed so a late completion doesn't create a backlog of overdue instances.
+ * Returns null only when the series has ended; throws if the occurrences never get past `notBefore`.
+ */
+export function getNextOccurrenceAfter(
+  config: RecurrenceConfig,
+  from: Date,
+  notBefore: Date,
+  seriesStart?: Date
+): Date | null {
+  let next = getNextOccurrence(config, skipAhead(config, from, notBefore, seriesStart), seriesStart);
+
+  // Bounded so a malformed config can never spin forever
+  for (let i = 0; next && next <= notBefore; i++) {
+    if (i >= 1000) {
+      throw new Error(`Recurrence did not reach ${notBefore.toISOString()} from ${from.toISOString()}`);
+    }
+    next = getNextOccurrence(config, next, seriesStart);
+  }
+
+  return next;
+}
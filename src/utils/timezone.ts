@@ -0,0 +1,35 @@
+export interface LocalDateTime {
+  date: string; // YYYY-MM-DD
+  hour: number; // 0-23
+}
+
+// Check that a string is an IANA timezone this runtime understands
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Get the calendar date and hour of an instant in a timezone (falls back to UTC)
+export function getLocalDateTime(instant: Date, timeZone?: string | null): LocalDateTime {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: parseInt(part('hour'), 10)
+  };
+}